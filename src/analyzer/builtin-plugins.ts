@@ -0,0 +1,145 @@
+import { ImportContext, LanguagePlugin } from './language-plugin.js';
+import { SourceExtraction, TypeScriptExtractor } from './typescript-extractor.js';
+import { GoExtractor } from './go-extractor.js';
+import { RustExtractor } from './rust-extractor.js';
+import { JavaExtractor } from './java-extractor.js';
+import { CSharpExtractor } from './csharp-extractor.js';
+import { PhpExtractor } from './php-extractor.js';
+import { PythonExtractor } from './python-extractor.js';
+import { CppExtractor } from './cpp-extractor.js';
+import { RubyExtractor } from './ruby-extractor.js';
+import { KotlinExtractor } from './kotlin-extractor.js';
+import { SwiftExtractor } from './swift-extractor.js';
+import { SfcExtractor } from './sfc-extractor.js';
+import { LanguageResolver } from './language-resolver.js';
+import { TypeScriptResolver } from './typescript-resolver.js';
+import { GoResolver } from './go-resolver.js';
+import { RustResolver } from './rust-resolver.js';
+import { JavaResolver } from './java-resolver.js';
+import { CSharpResolver } from './csharp-resolver.js';
+import { PhpResolver } from './php-resolver.js';
+import { PythonResolver } from './python-resolver.js';
+import { CppResolver } from './cpp-resolver.js';
+import { RubyResolver } from './ruby-resolver.js';
+import { SwiftResolver } from './swift-resolver.js';
+
+/**
+ * Import hooks of a built-in language
+ */
+type ImportHooks = Pick<LanguagePlugin, 'indexImports' | 'resolveImport'>;
+
+// Framework annotations/attributes that say what a class is for (Spring, JPA, ASP.NET)
+const annotationTypes: Array<[RegExp, string]> = [
+  [/^(?:Rest)?Controller$|^ApiController$/, 'controller'],
+  [/^Service$/, 'service'],
+  [/^Repository$/, 'repository'],
+  [/^(?:Entity|Table|Document|Embeddable)$/, 'model'],
+  [/^(?:Configuration|ConfigurationProperties)$/, 'config'],
+];
+
+// Rails base classes
+const superclassTypes: Array<[RegExp, string]> = [
+  [/Controller$/, 'controller'],
+  [/^ApplicationRecord$/, 'model'],
+  [/^(?:ApplicationJob|ApplicationMailer)$/, 'service'],
+];
+
+/**
+ * Module type from the annotations on a file's classes
+ */
+function annotatedModuleType(_relativePath: string, extraction: SourceExtraction): string | undefined {
+  const annotations = extraction.classes.flatMap(cls => cls.annotations || []);
+  return annotationTypes.find(([pattern]) => annotations.some(name => pattern.test(name)))?.[1];
+}
+
+/**
+ * Module type from the superclasses of a file's classes
+ */
+function inheritedModuleType(_relativePath: string, extraction: SourceExtraction): string | undefined {
+  const bases = extraction.classes.map(cls => cls.extends).filter((name): name is string => !!name);
+  return superclassTypes.find(([pattern]) => bases.some(name => pattern.test(name)))?.[1];
+}
+
+/**
+ * Import hooks backed by a resolver class: the index is the resolver itself
+ */
+function resolvedBy(Resolver: new (context: ImportContext) => LanguageResolver): ImportHooks {
+  return {
+    indexImports: context => new Resolver(context),
+    resolveImport: (specifier, importer, _context, resolver) => (resolver as LanguageResolver).resolve(specifier, importer),
+  };
+}
+
+// One entry per rule set: languages sharing an entry share its index
+const scriptImports = resolvedBy(TypeScriptResolver);
+const jvmImports = resolvedBy(JavaResolver);
+const includeImports = resolvedBy(CppResolver);
+
+const importHooks: Record<string, ImportHooks> = {
+  typescript: scriptImports,
+  javascript: scriptImports,
+  python: resolvedBy(PythonResolver),
+  java: jvmImports,
+  kotlin: jvmImports,
+  go: resolvedBy(GoResolver),
+  rust: resolvedBy(RustResolver),
+  csharp: resolvedBy(CSharpResolver),
+  php: resolvedBy(PhpResolver),
+  c: includeImports,
+  cpp: includeImports,
+  ruby: resolvedBy(RubyResolver),
+  swift: resolvedBy(SwiftResolver),
+};
+
+/**
+ * Built-in import resolution of a language (what `ImportContext.resolveAs` reuses)
+ */
+export function builtinImportHooks(language: string): ImportHooks | undefined {
+  return importHooks[language];
+}
+
+/**
+ * Languages supported out of the box
+ */
+export function createBuiltinPlugins(): LanguagePlugin[] {
+  const typescript = new TypeScriptExtractor();
+  const cpp = new CppExtractor();
+  const java = new JavaExtractor();
+  const csharp = new CSharpExtractor();
+  const kotlin = new KotlinExtractor();
+  const go = new GoExtractor();
+  const rust = new RustExtractor();
+  const php = new PhpExtractor();
+  const python = new PythonExtractor();
+  const ruby = new RubyExtractor();
+  const swift = new SwiftExtractor();
+  const sfc = new SfcExtractor();
+
+  // Component scripts import like TypeScript; the component itself is the module
+  const component = (id: string, extension: string): LanguagePlugin => ({
+    id,
+    extensions: [extension],
+    parse: (content, file) => sfc.extract(content, file),
+    resolveImport: (specifier, importer, context) => context.resolveAs('typescript', specifier, importer),
+    moduleType: () => 'component',
+  });
+
+  return [
+    { id: 'typescript', extensions: ['.ts', '.tsx'], parse: (content, file) => typescript.extract(content, file), ...importHooks.typescript },
+    { id: 'javascript', extensions: ['.js', '.jsx'], parse: (content, file) => typescript.extract(content, file), ...importHooks.javascript },
+    { id: 'python', extensions: ['.py'], parse: (content, file) => python.extract(content, file), ...importHooks.python },
+    { id: 'java', extensions: ['.java'], parse: (content, file) => java.extract(content, file), ...importHooks.java, moduleType: annotatedModuleType },
+    { id: 'kotlin', extensions: ['.kt', '.kts'], parse: (content, file) => kotlin.extract(content, file), ...importHooks.kotlin, moduleType: annotatedModuleType },
+    { id: 'go', extensions: ['.go'], parse: (content, file) => go.extract(content, file), ...importHooks.go },
+    { id: 'rust', extensions: ['.rs'], parse: (content, file) => rust.extract(content, file), ...importHooks.rust },
+    { id: 'csharp', extensions: ['.cs'], parse: (content, file) => csharp.extract(content, file), ...importHooks.csharp, moduleType: annotatedModuleType },
+    { id: 'php', extensions: ['.php'], parse: (content, file) => php.extract(content, file), ...importHooks.php },
+    { id: 'c', extensions: ['.c', '.h'], parse: (content, file) => cpp.extract(content, file), ...importHooks.c },
+    { id: 'cpp', extensions: ['.cc', '.cpp', '.cxx', '.hh', '.hpp', '.hxx'], parse: (content, file) => cpp.extract(content, file), ...importHooks.cpp },
+    { id: 'ruby', extensions: ['.rb'], parse: (content, file) => ruby.extract(content, file), ...importHooks.ruby, moduleType: inheritedModuleType },
+    { id: 'swift', extensions: ['.swift'], parse: (content, file) => swift.extract(content, file), ...importHooks.swift },
+    component('vue', '.vue'),
+    component('svelte', '.svelte'),
+    component('astro', '.astro'),
+  ];
+}
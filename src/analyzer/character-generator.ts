@@ -1,5 +1,7 @@
-import path from 'node:path';
-import { PersonalityType, CharacterPersona, CodeModule } from './types.js';
+import { PersonalityType, CastingDecision, CharacterPersona, CodeModule } from './types.js';
+import { defaultConfig, NamesConfig, PersonalityConfig } from './config.js';
+import { createBuiltinPersonalityRules, PersonalityEngine } from './personality-engine.js';
+import { HealthModel } from './health-model.js';
 
 /**
  * Character Persona Generator - Generate anthropomorphized characters based on code characteristics
@@ -7,46 +9,17 @@ import { PersonalityType, CharacterPersona, CodeModule } from './types.js';
 export class CharacterGenerator {
   private moduleUsage: Map<string, number> = new Map();
   private importGraph: Map<string, Set<string>> = new Map();
-
-  // Health level configuration
-  private readonly healthLevelConfig = {
-    excellent: { minScore: 90, color: 0x2ECC71, name: 'excellent' },
-    good: { minScore: 75, color: 0x00BCD4, name: 'good' },
-    fair: { minScore: 60, color: 0xF1C40F, name: 'fair' },
-    poor: { minScore: 40, color: 0xFF6B00, name: 'poor' },
-    critical: { minScore: 0, color: 0xDC2626, name: 'critical' },
-  };
-
-  /**
-   * Calculate character health level
-   */
-  private calculateHealthLevel(module: CodeModule, bugRisk: number): 'excellent' | 'good' | 'fair' | 'poor' | 'critical' {
-    const complexity = module.metadata.complexity;
-    const lines = module.metadata.lines;
-
-    let healthScore = 100;
-
-    // Bug risk deduction (max 50 points)
-    healthScore -= Math.min(bugRisk * 5, 50);
-
-    // Complexity deduction (max 30 points)
-    healthScore -= Math.min(complexity * 3, 30);
-
-    // Code lines deduction (starts after 300 lines)
-    if (lines > 300) {
-      healthScore -= Math.min((lines - 300) / 50, 20);
-    }
-
-    // Long function penalty (more than 5 long functions)
-    const longFunctions = module.functions.filter(f => f.lines > 30).length;
-    healthScore -= Math.min(longFunctions * 2, 15);
-
-    // Determine health level
-    if (healthScore >= this.healthLevelConfig.excellent.minScore) return 'excellent';
-    if (healthScore >= this.healthLevelConfig.good.minScore) return 'good';
-    if (healthScore >= this.healthLevelConfig.fair.minScore) return 'fair';
-    if (healthScore >= this.healthLevelConfig.poor.minScore) return 'poor';
-    return 'critical';
+  private readonly personalityEngine: PersonalityEngine;
+
+  constructor(
+    personalityConfig: PersonalityConfig = defaultConfig.personality,
+    private readonly healthModel: HealthModel = new HealthModel(defaultConfig.health),
+    private readonly namesConfig: NamesConfig = defaultConfig.names
+  ) {
+    this.personalityEngine = new PersonalityEngine(
+      createBuiltinPersonalityRules(personalityConfig),
+      personalityConfig.rules
+    );
   }
 
   /**
@@ -63,9 +36,69 @@ export class CharacterGenerator {
       personas.push(persona);
     }
 
+    this.resolveNameCollisions(personas, modules);
+
     return personas;
   }
 
+  /**
+   * Give characters sharing a name distinct ones
+   *
+   * Clashing names take in more and more of their directories (`HeroIndex` becomes `HeroApiIndex`);
+   * whatever still clashes is numbered in path order. Names from `names.overrides` are never changed.
+   */
+  private resolveNameCollisions(personas: CharacterPersona[], modules: CodeModule[]): void {
+    const moduleOf = new Map(personas.map((persona, index) => [persona, modules[index]]));
+    const depths = new Map<CharacterPersona, number>();
+    const renamable = (persona: CharacterPersona) => !this.overrideFor(moduleOf.get(persona)!);
+
+    for (;;) {
+      let qualified = false;
+
+      for (const persona of this.clashing(personas).filter(renamable)) {
+        const module = moduleOf.get(persona)!;
+        const depth = (depths.get(persona) || 0) + 1;
+        if (depth > this.directoriesOf(module.path).length) continue;
+
+        depths.set(persona, depth);
+        persona.name = this.generateName(module, persona.personality, depth);
+        qualified = true;
+      }
+
+      if (!qualified) break;
+    }
+
+    const taken = new Set(personas.map(persona => persona.name));
+    const groups = new Map<string, CharacterPersona[]>();
+    for (const persona of this.clashing(personas)) {
+      groups.set(persona.name, [...(groups.get(persona.name) || []), persona]);
+    }
+
+    for (const [name, group] of groups) {
+      // An override, or else the first path, keeps the plain name
+      const renamed = group
+        .filter(renamable)
+        .sort((a, b) => (a.originalFile < b.originalFile ? -1 : a.originalFile > b.originalFile ? 1 : 0))
+        .slice(group.every(renamable) ? 1 : 0);
+
+      let number = 2;
+      for (const persona of renamed) {
+        while (taken.has(`${name}${number}`)) number++;
+        persona.name = `${name}${number}`;
+        taken.add(persona.name);
+      }
+    }
+  }
+
+  /**
+   * Personas whose name another persona has too
+   */
+  private clashing(personas: CharacterPersona[]): CharacterPersona[] {
+    const counts = new Map<string, number>();
+    personas.forEach(persona => counts.set(persona.name, (counts.get(persona.name) || 0) + 1));
+    return personas.filter(persona => counts.get(persona.name)! > 1);
+  }
+
   /**
    * Analyze module usage
    */
@@ -92,83 +125,60 @@ export class CharacterGenerator {
    * Create persona for a single module
    */
   private createPersona(module: CodeModule): CharacterPersona {
-    const personality = this.determinePersonality(module);
+    const { personality, casting } = this.castPersonality(module);
     const callCount = this.moduleUsage.get(module.id) || 0;
-    const bugRisk = this.calculateBugRisk(module);
-    const healthLevel = this.calculateHealthLevel(module, bugRisk);
+    const healthReport = this.healthModel.assessCharacter(module);
 
     return {
-      name: this.generateName(module),
+      characterId: module.id,
+      name: this.overrideFor(module) || this.generateName(module, personality),
       originalFile: module.path,
       personality,
+      casting,
       traits: this.generateTraits(personality, module),
       role: this.determineRole(module),
       color: this.getPersonalityColor(personality),
       icon: this.getIconForPersonality(personality),
-      health: healthLevel,
+      health: this.healthModel.levelOf(healthReport.score),
+      healthReport,
       stats: {
         linesOfCode: module.metadata.lines,
         complexity: module.metadata.complexity,
         callCount,
-        bugRisk,
+        bugRisk: this.healthModel.bugRisk(module),
       },
+      diagnostics: module.metadata.diagnostics,
+      cluster: module.cluster,
     };
   }
 
   /**
-   * Determine personality type based on module characteristics
+   * Score the personality rules against a module
    */
-  private determinePersonality(module: CodeModule): PersonalityType {
-    const { path, metadata, exports } = module;
-    const basename = path.split('/').pop() || '';
-    const callCount = this.moduleUsage.get(module.id) || 0;
-
-    // Main entry file
-    if (basename.match(/^(index|main|app|server|entry)\./i)) {
-      return PersonalityType.HEROIC;
-    }
-
-    // Data/storage related
-    if (path.match(/(model|schema|store|repository|database|db|dao)/i)) {
-      return PersonalityType.RELIABLE;
-    }
-
-    // Utility/helper classes
-    if (path.match(/(util|helper|common|shared|lib)/i)) {
-      return callCount > 10 ? PersonalityType.BUSY : PersonalityType.HELPFUL;
-    }
-
-    // Middleware
-    if (path.match(/(middleware|interceptor|guard)/i)) {
-      return PersonalityType.QUIRKY;
-    }
-
-    // Config/constants
-    if (path.match(/(config|constant|env|setting)/i)) {
-      return PersonalityType.MYSTERIOUS;
-    }
-
-    // Judge by call count
-    if (callCount === 0) {
-      return PersonalityType.LONELY;
-    }
-
-    // High complexity modules are fragile
-    if (metadata.complexity > 7) {
-      return PersonalityType.FRAGILE;
-    }
+  private castPersonality(module: CodeModule): { personality: PersonalityType; casting: CastingDecision } {
+    const fanIn = this.moduleUsage.get(module.id) || 0;
+    return this.personalityEngine.cast(PersonalityEngine.factsOf(module, fanIn));
+  }
 
-    // Default to busy
-    return PersonalityType.BUSY;
+  /**
+   * Name configured for a module in `names.overrides`, by path or module id
+   */
+  private overrideFor(module: CodeModule): string | undefined {
+    const overrides = this.namesConfig.overrides;
+    return overrides[module.path.split('\\').join('/')] || overrides[module.id];
   }
 
   /**
    * Generate character name
+   *
+   * The prefix is picked by a hash of the path, so a file keeps its name from run to run.
+   * `directories` parent directories are put before the file name to tell clashing names apart.
    */
-  private generateName(module: CodeModule): string {
-    const basename = module.path.split('/').pop() || '';
-    const nameWithoutExt = basename.replace(/\.(ts|js|py|java|go|rs)$/, '');
-    const personality = this.determinePersonality(module);
+  private generateName(module: CodeModule, personality: PersonalityType, directories = 0): string {
+    const segments = module.path.split(/[\\/]/);
+    const basename = segments.pop() || '';
+    const extension = basename.lastIndexOf('.') > 0 ? basename.slice(basename.lastIndexOf('.')) : '';
+    const nameWithoutExt = basename.slice(0, basename.length - extension.length);
 
     // Generate name prefix based on personality type
     const prefixes: Record<PersonalityType, string[]> = {
@@ -183,17 +193,28 @@ export class CharacterGenerator {
     };
 
     const possiblePrefixes = prefixes[personality];
-    const prefix = possiblePrefixes[Math.floor(Math.random() * possiblePrefixes.length)];
+    const hash = hashString(`${this.namesConfig.seed}\0${module.path.split('\\').join('/')}`);
+    const prefix = possiblePrefixes[hash % possiblePrefixes.length];
 
     // Format filename
-    const formattedName = nameWithoutExt
-      .replace(/[-_]/g, ' ')
-      .replace(/\b\w/g, l => l.toUpperCase())
-      .replace(/\s+/g, '');
+    const qualifiers = directories > 0 ? this.directoriesOf(module.path).slice(-directories) : [];
+    const formattedName = [...qualifiers, nameWithoutExt]
+      .map(part => part
+        .replace(/[-_.]/g, ' ')
+        .replace(/\b\w/g, l => l.toUpperCase())
+        .replace(/\s+/g, ''))
+      .join('');
 
     return `${prefix}${formattedName}`;
   }
 
+  /**
+   * Directories of a module path, outermost first
+   */
+  private directoriesOf(modulePath: string): string[] {
+    return modulePath.split(/[\\/]/).slice(0, -1).filter(segment => segment && segment !== '.');
+  }
+
   /**
    * Generate personality trait descriptions
    */
@@ -294,34 +315,6 @@ export class CharacterGenerator {
     return personality;
   }
 
-  /**
-   * Calculate bug risk
-   */
-  private calculateBugRisk(module: CodeModule): number {
-    let risk = 0;
-
-    // Complexity impact
-    risk += module.metadata.complexity * 0.5;
-
-    // Code lines impact (increases after 500 lines)
-    if (module.metadata.lines > 500) {
-      risk += 2;
-    }
-
-    // Function count impact
-    risk += module.functions.length * 0.3;
-
-    // Class count impact
-    risk += module.classes.length * 0.5;
-
-    // Syntax errors are high risk
-    if (module.metadata.hasErrors) {
-      risk = 10;
-    }
-
-    return Math.min(10, Math.round(risk));
-  }
-
   /**
    * Get module call count
    */
@@ -336,3 +329,15 @@ export class CharacterGenerator {
     return this.importGraph;
   }
 }
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
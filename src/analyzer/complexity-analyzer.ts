@@ -0,0 +1,281 @@
+import ts from 'typescript';
+
+/**
+ * Raw complexity measurements
+ */
+export interface ComplexityMeasure {
+  cyclomatic: number;
+  cognitive: number;
+}
+
+/**
+ * Control flow keywords of a brace-delimited language
+ */
+export interface ControlFlowKeywords {
+  branches: string[];              // Open a nested structure and add a path (if, for, catch...)
+  switches: string[];              // Open a nested structure, paths come from their cases
+  cases: string[];                 // Add a path without nesting (`case`, match arm `=>`)
+}
+
+/**
+ * Complexity Analyzer - Cyclomatic and cognitive complexity from the TypeScript AST or masked source
+ */
+export class ComplexityAnalyzer {
+  /**
+   * Measure a single function (nested callbacks count towards their enclosing function)
+   */
+  measureFunction(node: ts.Node): ComplexityMeasure {
+    return {
+      cyclomatic: 1 + this.countDecisions(node),
+      // Already inside the function: callbacks in its body are nested
+      cognitive: this.cognitive(node, 0, true),
+    };
+  }
+
+  /**
+   * Measure a whole file: every function contributes its base path plus all decision points
+   */
+  measureModule(sourceFile: ts.SourceFile): ComplexityMeasure {
+    let functions = 0;
+    const countFunctions = (node: ts.Node): void => {
+      if (this.isFunctionBody(node)) functions++;
+      ts.forEachChild(node, countFunctions);
+    };
+    countFunctions(sourceFile);
+
+    return {
+      cyclomatic: Math.max(1, functions + this.countDecisions(sourceFile)),
+      cognitive: this.cognitive(sourceFile, 0, false),
+    };
+  }
+
+  /**
+   * Approximate both measures for a brace-delimited block of masked source text
+   *
+   * Used by languages without a compiler AST: nesting is tracked through the braces opened
+   * by control structures, so the result follows the same rules as the AST walk.
+   */
+  measureBlock(masked: string, keywords: ControlFlowKeywords): ComplexityMeasure {
+    // Keywords match as whole words, operator-like cases (`=>`) literally
+    const alternatives = [...keywords.branches, ...keywords.switches, ...keywords.cases, 'else']
+      .map(word => /^\w+$/.test(word) ? `\\b${word}\\b` : word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const tokens = new RegExp(`${alternatives.join('|')}|&&|\\|\\||[{}]`, 'g');
+
+    let cyclomatic = 1;
+    let cognitive = 0;
+    let nesting = 0;
+    let pending = false;
+    let previous = '';
+    const blocks: boolean[] = [];
+
+    let match;
+    while ((match = tokens.exec(masked)) !== null) {
+      const token = match[0];
+
+      if (token === '{') {
+        blocks.push(pending);
+        if (pending) nesting++;
+        pending = false;
+      } else if (token === '}') {
+        if (blocks.pop()) nesting--;
+      } else if (token === 'else') {
+        cognitive++;
+        pending = true;
+      } else if (keywords.cases.includes(token)) {
+        cyclomatic++;
+      } else if (keywords.branches.includes(token) || keywords.switches.includes(token)) {
+        if (keywords.branches.includes(token)) cyclomatic++;
+        // `else if` was already charged by its `else`
+        if (!(previous === 'else' && keywords.branches.includes(token))) {
+          cognitive += 1 + nesting;
+        }
+        pending = true;
+      } else if (token === '&&' || token === '||') {
+        cyclomatic++;
+        if (previous !== token) cognitive++;
+      }
+
+      previous = token;
+    }
+
+    return { cyclomatic, cognitive };
+  }
+
+  /**
+   * Normalize raw values to the 1-10 score used for health and personality
+   *
+   * The worst function dominates: one 20-branch function is as alarming as a tangled file.
+   */
+  static normalize(measure: ComplexityMeasure, functionMeasures: ComplexityMeasure[]): number {
+    const maxCyclomatic = functionMeasures.length > 0
+      ? Math.max(...functionMeasures.map(m => m.cyclomatic))
+      : measure.cyclomatic;
+
+    const score = Math.max(maxCyclomatic / 2, measure.cognitive / 15);
+    return Math.min(10, Math.max(1, Math.round(score)));
+  }
+
+  /**
+   * Count cyclomatic decision points below node
+   */
+  private countDecisions(node: ts.Node): number {
+    let decisions = 0;
+
+    const visit = (current: ts.Node): void => {
+      switch (current.kind) {
+        case ts.SyntaxKind.IfStatement:
+        case ts.SyntaxKind.ConditionalExpression:
+        case ts.SyntaxKind.ForStatement:
+        case ts.SyntaxKind.ForInStatement:
+        case ts.SyntaxKind.ForOfStatement:
+        case ts.SyntaxKind.WhileStatement:
+        case ts.SyntaxKind.DoStatement:
+        case ts.SyntaxKind.CaseClause:
+        case ts.SyntaxKind.CatchClause:
+          decisions++;
+          break;
+        case ts.SyntaxKind.BinaryExpression:
+          if (this.isLogicalOperator((current as ts.BinaryExpression).operatorToken.kind)) {
+            decisions++;
+          }
+          break;
+      }
+      ts.forEachChild(current, visit);
+    };
+
+    ts.forEachChild(node, visit);
+    return decisions;
+  }
+
+  /**
+   * Cognitive complexity: structural increments weighted by nesting depth
+   */
+  private cognitive(node: ts.Node, nesting: number, inFunction: boolean): number {
+    let total = 0;
+
+    ts.forEachChild(node, child => {
+      total += this.cognitiveNode(child, nesting, inFunction);
+    });
+
+    return total;
+  }
+
+  /**
+   * Cognitive increment for one node and its subtree
+   */
+  private cognitiveNode(node: ts.Node, nesting: number, inFunction: boolean): number {
+    if (ts.isIfStatement(node)) {
+      return this.cognitiveIf(node, nesting, inFunction, false);
+    }
+
+    if (
+      ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node) ||
+      ts.isWhileStatement(node) || ts.isDoStatement(node) || ts.isSwitchStatement(node) ||
+      ts.isCatchClause(node) || ts.isConditionalExpression(node)
+    ) {
+      return 1 + nesting + this.cognitive(node, nesting + 1, inFunction);
+    }
+
+    if (this.isFunctionBody(node)) {
+      // Nested functions and callbacks deepen nesting, top-level ones start fresh
+      return this.cognitive(node, inFunction ? nesting + 1 : 0, true);
+    }
+
+    if (ts.isBinaryExpression(node) && this.isLogicalOperator(node.operatorToken.kind)) {
+      if (!this.isInsideLogicalChain(node)) {
+        return this.countOperatorSequences(node) + this.cognitive(node, nesting, inFunction);
+      }
+      return this.cognitive(node, nesting, inFunction);
+    }
+
+    if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+      return 1;
+    }
+
+    return this.cognitive(node, nesting, inFunction);
+  }
+
+  /**
+   * `if` costs 1 + nesting, `else if` and `else` cost a flat 1
+   */
+  private cognitiveIf(node: ts.IfStatement, nesting: number, inFunction: boolean, isElseIf: boolean): number {
+    let total = isElseIf ? 1 : 1 + nesting;
+
+    total += this.cognitiveNode(node.expression, nesting, inFunction);
+    total += this.cognitiveNode(node.thenStatement, nesting + 1, inFunction);
+
+    if (node.elseStatement) {
+      if (ts.isIfStatement(node.elseStatement)) {
+        total += this.cognitiveIf(node.elseStatement, nesting, inFunction, true);
+      } else {
+        total += 1 + this.cognitiveNode(node.elseStatement, nesting + 1, inFunction);
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * Each run of identical logical operators in a flattened chain costs 1
+   */
+  private countOperatorSequences(node: ts.BinaryExpression): number {
+    const operators: ts.SyntaxKind[] = [];
+
+    const flatten = (expression: ts.Expression): void => {
+      const inner = this.skipParentheses(expression);
+      if (ts.isBinaryExpression(inner) && this.isLogicalOperator(inner.operatorToken.kind)) {
+        flatten(inner.left);
+        operators.push(inner.operatorToken.kind);
+        flatten(inner.right);
+      }
+    };
+    flatten(node);
+
+    let sequences = 0;
+    operators.forEach((operator, i) => {
+      if (i === 0 || operators[i - 1] !== operator) sequences++;
+    });
+    return sequences;
+  }
+
+  /**
+   * Check whether a logical expression is an operand of a larger logical chain
+   */
+  private isInsideLogicalChain(node: ts.Node): boolean {
+    let parent = node.parent;
+    while (parent && ts.isParenthesizedExpression(parent)) {
+      parent = parent.parent;
+    }
+    return !!parent && ts.isBinaryExpression(parent) && this.isLogicalOperator(parent.operatorToken.kind);
+  }
+
+  /**
+   * Strip wrapping parentheses
+   */
+  private skipParentheses(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (ts.isParenthesizedExpression(current)) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * Function-like node that owns a body
+   */
+  private isFunctionBody(node: ts.Node): boolean {
+    return ts.isFunctionLike(node) && 'body' in node && node.body !== undefined;
+  }
+
+  /**
+   * `&&`, `||`, `??` and their assignment forms
+   */
+  private isLogicalOperator(kind: ts.SyntaxKind): boolean {
+    return kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+      kind === ts.SyntaxKind.BarBarToken ||
+      kind === ts.SyntaxKind.QuestionQuestionToken ||
+      kind === ts.SyntaxKind.AmpersandAmpersandEqualsToken ||
+      kind === ts.SyntaxKind.BarBarEqualsToken ||
+      kind === ts.SyntaxKind.QuestionQuestionEqualsToken;
+  }
+}
@@ -0,0 +1,405 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { PersonalityType } from './types.js';
+import { PersonalityRule, RuleConditions, ruleConditionKeys } from './personality-engine.js';
+
+export type ExportFormat = 'json' | 'mermaid' | 'narrative';
+
+export interface PersonalityConfig {
+  rules: PersonalityRule[];        // Project rules, scored together with the built-in ones
+  busyHelperCalls: number;         // Callers above which a helper is busy rather than helpful (built-in rule)
+  fragileComplexity: number;       // Complexity above which a module is fragile (built-in rule)
+}
+
+// Deductions and bonus of a character's health score
+export interface CharacterHealthWeights {
+  syntaxErrors: number;            // Points for failing to parse
+  functions: number;               // Points per top-level function
+  maxFunctions: number;
+  classes: number;                 // Points per class
+  maxClasses: number;
+  complexity: number;              // Points per complexity level
+  maxComplexity: number;
+  largeFileLines: number;          // Lines after which size costs points
+  linesPerPoint: number;           // Extra lines costing one point
+  maxSize: number;
+  longFunctionLines: number;       // Lines making a function long
+  longFunction: number;            // Points per long function
+  maxLongFunctions: number;
+  focusedLines: number;            // Files up to this size without long functions earn the bonus
+  focusedBonus: number;
+}
+
+// How much each character counts in the project score, on top of a base weight of 1
+export interface ProjectHealthWeights {
+  size: number;                    // Times the character's lines over the project average
+  centrality: number;              // Times the character's fan-in over the project average
+}
+
+export interface NamesConfig {
+  seed: string;                    // Mixed into the path hash picking name prefixes; change it to reshuffle
+  overrides: Record<string, string>;  // Character name by project-relative path or module id
+}
+
+export interface HealthConfig {
+  levels: { excellent: number; good: number; fair: number; poor: number };  // Minimum score of each level
+  character: CharacterHealthWeights;
+  project: ProjectHealthWeights;
+}
+
+/**
+ * Complete CodeActor configuration, defaults filled in
+ */
+export interface ResolvedConfig {
+  include: string[];               // Globs of files to analyze (every supported file when empty)
+  exclude: string[];               // Globs skipped, added to the built-in ignore list
+  languages: string[];             // Language ids to analyze (every registered language when empty)
+  gitignore: boolean;              // Honour .gitignore files (.codeactorignore always applies)
+  maxFileSize: number;             // Bytes above which a file is skipped
+  plugins: string[];               // Language plugins (npm package or path), loaded before `--plugin` ones
+  personality: PersonalityConfig;
+  names: NamesConfig;
+  health: HealthConfig;
+  export: { format: ExportFormat };
+  source?: string;                 // Config file the values came from
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/**
+ * Contents of a `codeactor.config.{json,ts}` file, every key optional
+ */
+export type CodeActorConfig = DeepPartial<Omit<ResolvedConfig, 'source'>>;
+
+export const configFileNames = ['codeactor.config.json', 'codeactor.config.ts'];
+
+const exportFormats: ExportFormat[] = ['json', 'mermaid', 'narrative'];
+
+export const defaultConfig: ResolvedConfig = {
+  include: [],
+  exclude: [
+    'node_modules', 'dist', 'build', '.git', 'coverage', 'target', '__pycache__', '.venv', 'venv',
+    '.next', '.nuxt', '.svelte-kit', '.turbo', '.cache',
+  ],
+  languages: [],
+  gitignore: true,
+  maxFileSize: 1024 * 1024,
+  plugins: [],
+  personality: {
+    rules: [],
+    busyHelperCalls: 10,
+    fragileComplexity: 7,
+  },
+  names: {
+    seed: '',
+    overrides: {},
+  },
+  health: {
+    levels: { excellent: 90, good: 75, fair: 60, poor: 40 },
+    character: {
+      syntaxErrors: 40,
+      functions: 1.5, maxFunctions: 15,
+      classes: 2.5, maxClasses: 15,
+      complexity: 3, maxComplexity: 30,
+      largeFileLines: 300, linesPerPoint: 50, maxSize: 20,
+      longFunctionLines: 30, longFunction: 2, maxLongFunctions: 15,
+      focusedLines: 150, focusedBonus: 5,
+    },
+    project: {
+      size: 1,
+      centrality: 1,
+    },
+  },
+  export: { format: 'narrative' },
+};
+
+/**
+ * Config file in the project root, if any
+ */
+export function findConfigFile(projectPath: string): string | undefined {
+  const found = configFileNames
+    .map(name => path.join(path.resolve(projectPath), name))
+    .filter(file => fs.existsSync(file));
+
+  if (found.length > 1) {
+    throw new Error(`Found both ${found.map(file => path.basename(file)).join(' and ')}, keep only one`);
+  }
+  return found[0];
+}
+
+/**
+ * Load and validate the project's config file, falling back to the defaults without one
+ */
+export async function loadConfig(projectPath: string): Promise<ResolvedConfig> {
+  const file = findConfigFile(projectPath);
+  if (!file) return defaultConfig;
+
+  const raw = file.endsWith('.ts') ? await importTypeScriptConfig(file) : readJsonConfig(file);
+  return { ...resolveConfig(raw, path.basename(file)), source: file };
+}
+
+/**
+ * Validate a config object and fill in the defaults, listing every problem at once
+ */
+export function resolveConfig(config: unknown, source = 'config'): ResolvedConfig {
+  const errors: string[] = [];
+  const resolved = mergeSection(config, defaultConfig, '', errors) as ResolvedConfig;
+
+  const { excellent, good, fair, poor } = resolved.health.levels;
+  if (!(excellent >= good && good >= fair && fair >= poor)) {
+    errors.push('"health.levels" must decrease from excellent to poor');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return resolved;
+}
+
+function readJsonConfig(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${path.basename(file)}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Transpile a TypeScript config into the temp directory and import it
+ *
+ * Import specifiers are made absolute so they still point next to the original config.
+ * The default export may be the config object or a function returning it.
+ */
+async function importTypeScriptConfig(file: string): Promise<unknown> {
+  const output = ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    fileName: file,
+    transformers: { after: [absoluteSpecifiers(file)] },
+  });
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codeactor-config-'));
+  const compiled = path.join(dir, `${path.basename(file, '.ts')}.mjs`);
+  fs.writeFileSync(compiled, output.outputText);
+
+  try {
+    const loaded = await import(pathToFileURL(compiled).href);
+    const exported = loaded.default ?? loaded.config;
+    return typeof exported === 'function' ? await exported() : exported;
+  } catch (error) {
+    throw new Error(`Cannot load ${path.basename(file)}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Rewrite relative and package import specifiers of a config to file URLs, resolved from the config's directory
+ */
+function absoluteSpecifiers(file: string): ts.TransformerFactory<ts.SourceFile> {
+  const require = createRequire(file);
+  const resolve = (specifier: string): string => {
+    try {
+      const resolved = specifier.startsWith('.') ? path.resolve(path.dirname(file), specifier) : require.resolve(specifier);
+      // Built-in modules ('node:fs') resolve to themselves
+      return path.isAbsolute(resolved) ? pathToFileURL(resolved).href : specifier;
+    } catch {
+      return specifier;
+    }
+  };
+
+  return context => {
+    const visit = (node: ts.Node): ts.Node => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const specifier = ts.factory.createStringLiteral(resolve(node.moduleSpecifier.text));
+        return ts.factory.updateImportDeclaration(node, node.modifiers, node.importClause, specifier, node.attributes);
+      }
+      if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        const specifier = ts.factory.createStringLiteral(resolve(node.moduleSpecifier.text));
+        return ts.factory.updateExportDeclaration(node, node.modifiers, node.isTypeOnly, node.exportClause, specifier, node.attributes);
+      }
+      if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+        const specifier = ts.factory.createStringLiteral(resolve(node.arguments[0].text));
+        return ts.factory.updateCallExpression(node, node.expression, node.typeArguments, [specifier, ...node.arguments.slice(1)]);
+      }
+      return ts.visitEachChild(node, visit, context);
+    };
+    return sourceFile => ts.visitNode(sourceFile, visit) as ts.SourceFile;
+  };
+}
+
+/**
+ * Merge a user section over its defaults, using the defaults' shape as the schema
+ */
+function mergeSection(value: unknown, defaults: object, keyPath: string, errors: string[]): object {
+  if (value === undefined) return defaults;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(keyPath ? `"${keyPath}" must be an object` : 'the config must export an object');
+    return defaults;
+  }
+
+  const merged: Record<string, unknown> = { ...defaults };
+  const known = defaults as Record<string, unknown>;
+
+  for (const [key, entry] of Object.entries(value)) {
+    const fullKey = keyPath ? `${keyPath}.${key}` : key;
+    const fallback = known[key];
+
+    if (!(key in known)) {
+      errors.push(`unknown option "${fullKey}"`);
+    } else if (fullKey === 'personality.rules') {
+      merged[key] = validateRules(entry, errors);
+    } else if (fullKey === 'names.overrides') {
+      merged[key] = validateNameOverrides(entry, errors);
+    } else if (fullKey === 'exclude') {
+      // Project excludes add to the built-in ignore list
+      merged[key] = [...(fallback as string[]), ...validateStrings(entry, fullKey, errors)];
+    } else if (Array.isArray(fallback)) {
+      merged[key] = validateStrings(entry, fullKey, errors);
+    } else if (typeof fallback === 'number') {
+      if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0) {
+        errors.push(`"${fullKey}" must be a non-negative number`);
+      } else {
+        merged[key] = entry;
+      }
+    } else if (typeof fallback === 'boolean') {
+      if (typeof entry !== 'boolean') {
+        errors.push(`"${fullKey}" must be true or false`);
+      } else {
+        merged[key] = entry;
+      }
+    } else if (fullKey === 'export.format') {
+      if (!exportFormats.includes(entry as ExportFormat)) {
+        errors.push(`"${fullKey}" must be one of ${exportFormats.join(', ')}`);
+      } else {
+        merged[key] = entry;
+      }
+    } else if (typeof fallback === 'string') {
+      if (typeof entry !== 'string') {
+        errors.push(`"${fullKey}" must be a string`);
+      } else {
+        merged[key] = entry;
+      }
+    } else {
+      merged[key] = mergeSection(entry, fallback as object, fullKey, errors);
+    }
+  }
+
+  return merged;
+}
+
+function validateStrings(value: unknown, key: string, errors: string[]): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item)) {
+    errors.push(`"${key}" must be an array of non-empty strings`);
+    return [];
+  }
+  return value;
+}
+
+function validateNameOverrides(value: unknown, errors: string[]): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('"names.overrides" must be an object mapping paths to names');
+    return {};
+  }
+
+  const overrides: Record<string, string> = {};
+  const owners = new Map<string, string>();
+
+  for (const [file, name] of Object.entries(value)) {
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push(`"names.overrides.${file}" must be a non-empty string`);
+      continue;
+    }
+    const owner = owners.get(name);
+    if (owner !== undefined) {
+      errors.push(`"names.overrides" gives "${name}" to both ${owner} and ${file}`);
+      continue;
+    }
+    owners.set(name, file);
+    overrides[file.split('\\').join('/').replace(/^\.\//, '')] = name;
+  }
+
+  return overrides;
+}
+
+function validateRules(value: unknown, errors: string[]): PersonalityRule[] {
+  if (!Array.isArray(value)) {
+    errors.push('"personality.rules" must be an array');
+    return [];
+  }
+
+  const personalities = Object.values(PersonalityType) as string[];
+  const rules: PersonalityRule[] = [];
+
+  value.forEach((rule, index) => {
+    const key = `personality.rules[${index}]`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`"${key}" must be an object`);
+      return;
+    }
+
+    const { name, personality, priority, when, disabled, ...rest } = rule as Record<string, unknown>;
+    const before = errors.length;
+
+    if (typeof name !== 'string' || !name) {
+      errors.push(`"${key}.name" must be a non-empty string`);
+    }
+    // Disabling a built-in rule only needs its name
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      errors.push(`"${key}.disabled" must be true or false`);
+    }
+    if (disabled !== true) {
+      if (!personalities.includes(personality as string)) {
+        errors.push(`"${key}.personality" must be one of ${personalities.join(', ')}`);
+      }
+      if (priority !== undefined && (typeof priority !== 'number' || !Number.isFinite(priority))) {
+        errors.push(`"${key}.priority" must be a number`);
+      }
+      validateConditions(when, `${key}.when`, errors);
+    }
+    Object.keys(rest).forEach(extra => errors.push(`unknown option "${key}.${extra}"`));
+
+    if (errors.length === before) {
+      rules.push({ ...(rule as PersonalityRule), when: (when as RuleConditions | undefined) || {} });
+    }
+  });
+
+  return rules;
+}
+
+function validateConditions(value: unknown, key: string, errors: string[]): void {
+  if (value === undefined) return;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`"${key}" must be an object`);
+    return;
+  }
+
+  for (const [condition, entry] of Object.entries(value)) {
+    const fullKey = `${key}.${condition}`;
+
+    if (!ruleConditionKeys.includes(condition as keyof RuleConditions)) {
+      errors.push(`unknown condition "${fullKey}" (known: ${ruleConditionKeys.join(', ')})`);
+    } else if (condition === 'type' || condition === 'language') {
+      validateStrings(entry, fullKey, errors);
+    } else if (condition === 'path' || condition === 'basename' || condition === 'exports') {
+      if (typeof entry !== 'string' || !entry) {
+        errors.push(`"${fullKey}" must be a regular expression string`);
+        continue;
+      }
+      try {
+        new RegExp(entry, 'i');
+      } catch (error) {
+        errors.push(`"${fullKey}" is not a valid regular expression: ${(error as Error).message}`);
+      }
+    } else if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0) {
+      errors.push(`"${fullKey}" must be a non-negative number`);
+    }
+  }
+}
@@ -0,0 +1,424 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Statement found at one brace level: its head text and, when it opens one, the body range
+ */
+interface Statement {
+  head: string;
+  start: number;
+  body?: [number, number];
+  tail: string;                    // Text between the body and the closing `;` (typedef names)
+}
+
+/**
+ * Usage counts of one identifier
+ */
+interface IdentifierUse {
+  references: number;
+  typeReferences: number;
+}
+
+/**
+ * C/C++ Extractor - Includes, functions, structs, classes and enums for C and C++ sources
+ */
+export class CppExtractor {
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'for', 'while', 'catch'],
+    switches: ['switch'],
+    cases: ['case'],
+  };
+
+  private readonly headerExtensions = /\.(?:h|hh|hpp|hxx|h\+\+|inl)$/i;
+
+  // Keywords and builtin types are never declared by a project header
+  private readonly keywords = new Set([
+    'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'goto',
+    'sizeof', 'alignof', 'typeof', 'decltype', 'static_assert', 'new', 'delete', 'throw', 'try', 'catch',
+    'void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'bool', 'auto',
+    'const', 'volatile', 'static', 'extern', 'inline', 'register', 'restrict', 'constexpr', 'consteval',
+    'struct', 'class', 'union', 'enum', 'typedef', 'using', 'namespace', 'template', 'typename',
+    'public', 'private', 'protected', 'virtual', 'override', 'final', 'friend', 'operator', 'this',
+    'true', 'false', 'nullptr', 'NULL', 'noexcept', 'explicit', 'mutable', 'co_await', 'co_return', 'co_yield',
+    'static_cast', 'dynamic_cast', 'reinterpret_cast', 'const_cast', 'std',
+  ]);
+
+  /**
+   * Extract structure from a C or C++ translation unit or header
+   */
+  extract(content: string, filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const isHeader = this.headerExtensions.test(filePath);
+
+    // Preprocessor lines (with their continuations) hold no statements
+    const code = masked.replace(/^[ \t]*#(?:[^\n]*\\\n)*[^\n]*/gm, line => line.replace(/[^\n]/g, ' '));
+
+    const classes: ClassInfo[] = [];
+    const functions: FunctionInfo[] = [];
+    const declared: string[] = [];
+    const internal = new Set<string>();
+    this.walk(content, code, 0, code.length, classes, functions, declared, internal);
+
+    // Definitions of `Widget::draw` join Widget when it is declared in this file
+    const freeFunctions: FunctionInfo[] = [];
+    for (const fn of functions) {
+      const qualifiers = fn.name.split('::');
+      const owner = qualifiers.length > 1 ? classes.find(cls => cls.name === qualifiers[qualifiers.length - 2]) : undefined;
+      if (owner) {
+        const name = qualifiers[qualifiers.length - 1];
+        const method: FunctionInfo = { ...fn, name, kind: name === owner.name ? 'constructor' : 'method' };
+        const index = owner.methods.findIndex(m => m.name === method.name && m.cyclomaticComplexity === undefined);
+        if (index === -1) owner.methods.push(method);
+        else owner.methods[index] = method;
+      } else {
+        freeFunctions.push(fn);
+      }
+    }
+
+    const macros = [...masked.matchAll(/^[ \t]*#[ \t]*define[ \t]+(\w+)/gm)].map(match => match[1]);
+    // `static` definitions have internal linkage
+    const linked = freeFunctions.filter(fn => !internal.has(fn.name)).map(fn => fn.name);
+    const exports = isHeader
+      ? [...declared, ...linked, ...classes.map(cls => cls.name), ...macros]
+      : [...linked.filter(name => !name.includes('::')), ...classes.map(cls => cls.name)];
+
+    // Functions defined here still count: they implement what an included header declares
+    const importBindings = this.extractIncludes(content, masked, code, new Set(classes.map(c => c.name)));
+
+    const whole = this.complexityAnalyzer.measureBlock(code, this.controlFlow);
+    const bodies = [...freeFunctions, ...classes.flatMap(cls => cls.methods)].filter(fn => fn.cyclomaticComplexity).length;
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings,
+      exports: [...new Set(exports)],
+      // Pure abstract classes are C++'s interfaces
+      typeExports: classes.filter(cls => cls.kind === 'interface').map(cls => cls.name),
+      functions: freeFunctions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, bodies + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+    };
+  }
+
+  /**
+   * `#include "local.h"` and `#include <system.h>` (angle brackets are kept in the specifier)
+   *
+   * Which names a header provides is only known after resolution, so every identifier used
+   * here is offered and resolution keeps those the included file declares.
+   */
+  private extractIncludes(content: string, masked: string, code: string, localNames: Set<string>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const uses = this.collectIdentifiers(code, localNames);
+    // Shared by every include: resolution narrows each copy to what its header declares
+    const symbols = [...uses].map(([name, use]) => ({ ...this.createSymbol(name, name), ...use }));
+    const regex = /^[ \t]*#[ \t]*include[ \t]*([<"])/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const open = match.index + match[0].length - 1;
+      let specifier: string;
+      if (match[1] === '"') {
+        specifier = this.scanner.readString(content, masked, open);
+      } else {
+        const close = content.indexOf('>', open);
+        specifier = `<${content.slice(open + 1, close === -1 ? content.indexOf('\n', open) : close).trim()}>`;
+      }
+
+      bindings.push({ specifier, symbols, wildcard: true });
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Count every identifier once, separating declarations (`Widget w`, `Widget *w`) from value uses
+   */
+  private collectIdentifiers(code: string, localNames: Set<string>): Map<string, IdentifierUse> {
+    const uses = new Map<string, IdentifierUse>();
+    const regex = /(?<![\w.]|->)([A-Za-z_]\w*)\b/g;
+
+    let match;
+    while ((match = regex.exec(code)) !== null) {
+      const name = match[1];
+      if (this.keywords.has(name) || localNames.has(name)) continue;
+
+      const use = uses.get(name) || { references: 0, typeReferences: 0 };
+      use.references++;
+
+      const before = code.slice(Math.max(0, match.index - 10), match.index);
+      const after = code.slice(regex.lastIndex, regex.lastIndex + 20);
+      if (/\b(?:struct|class|union|enum)\s+$/.test(before) || /^\s*[*&\s]*(?:const\s+)?[A-Za-z_]\w*\s*[;,)=[]/.test(after) || /^\s*(?:<|::)/.test(after) && !/^\s*::\s*\w+\s*\(/.test(after)) {
+        use.typeReferences++;
+      }
+
+      uses.set(name, use);
+    }
+
+    return uses;
+  }
+
+  /**
+   * Walk the statements of a scope: namespaces and `extern "C"` blocks are transparent
+   */
+  private walk(
+    content: string,
+    code: string,
+    from: number,
+    to: number,
+    classes: ClassInfo[],
+    functions: FunctionInfo[],
+    declared: string[],
+    internal: Set<string>
+  ): void {
+    for (const statement of this.statements(code, from, to)) {
+      const head = statement.head;
+
+      if (statement.body && /^(?:inline\s+)?namespace\b[\w:\s]*$|^extern\s*"\s*"$/.test(head)) {
+        this.walk(content, code, statement.body[0] + 1, statement.body[1], classes, functions, declared, internal);
+        continue;
+      }
+
+      const type = this.readTypeHead(head, statement.tail);
+      if (type && statement.body) {
+        const info = this.readClass(content, code, type, statement.body, classes);
+        classes.push(info);
+        declared.push(info.name);
+        continue;
+      }
+
+      const fn = this.readFunctionHead(head);
+      if (fn && statement.body) {
+        functions.push(this.readFunction(content, code, statement, fn));
+        if (/^(?:\w+\s+)*static\b/.test(head)) internal.add(fn.name);
+        continue;
+      }
+
+      if (fn && !statement.body && !/^\s*static\b/.test(head)) {
+        // Prototype: the function is provided elsewhere
+        declared.push(fn.name);
+        continue;
+      }
+
+      const alias = head.match(/^typedef\b[\s\S]*?(\w+)\s*(?:\[[^\]]*\])?$/) || head.match(/^using\s+(\w+)\s*=/);
+      if (alias) declared.push(alias[1]);
+    }
+  }
+
+  /**
+   * Split [from, to) into statements at brace depth zero
+   */
+  private statements(code: string, from: number, to: number): Statement[] {
+    const statements: Statement[] = [];
+    let start = from;
+    let parens = 0;
+
+    for (let i = from; i < to; i++) {
+      const char = code[i];
+      if (char === '(' || char === '[') parens++;
+      else if (char === ')' || char === ']') parens = Math.max(0, parens - 1);
+      else if (char === ';' && parens === 0) {
+        const head = this.cleanHead(code.slice(start, i));
+        if (head) statements.push({ head, start, tail: '' });
+        start = i + 1;
+      } else if (char === '{' && parens === 0) {
+        const close = this.scanner.findClosing(code, i);
+        const end = close === -1 || close > to ? to : close;
+
+        // A body may be followed by declarators before its `;` (`} Name;`)
+        const head = this.cleanHead(code.slice(start, i));
+        const isType = /^(?:template\s*<.*>\s*)?(?:typedef\s+)?(?:class|struct|union|enum)\b/.test(head) && !head.includes('(');
+        const tailMatch = isType ? code.slice(end + 1, to).match(/^[^;{}()]*;/) : null;
+        statements.push({ head, start, body: [i, end], tail: tailMatch ? tailMatch[0].slice(0, -1).trim() : '' });
+
+        i = tailMatch ? end + tailMatch[0].length : end;
+        start = i + 1;
+      }
+    }
+
+    return statements;
+  }
+
+  /**
+   * Drop access labels and normalise whitespace in a statement head
+   */
+  private cleanHead(text: string): string {
+    return text
+      .replace(/^\s*(?:(?:public|private|protected)\s*(?:\w+\s*)?:(?!:)\s*)+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Recognise `class|struct|union|enum Name : bases` heads (anonymous typedef'd ones named by their tail)
+   */
+  private readTypeHead(head: string, tail: string): { keyword: string; name: string; bases: string[] } | null {
+    const match = head.match(/^(?:template\s*<.*>\s*)?(?:typedef\s+)?(class|struct|union|enum(?:\s+class|\s+struct)?)\b(.*)$/);
+    if (!match) return null;
+
+    const [, keyword, rest] = match;
+    const [declarator, ...baseParts] = rest.replace(/\[\[.*?\]\]|alignas\s*\([^)]*\)/g, '').split(/(?<!:):(?!:)/);
+    // `struct foo *make_foo(void)` returns a struct, it declares none
+    if (declarator.includes('(')) return null;
+    const names = declarator.replace(/\bfinal\b/, '').match(/\w+/g) || [];
+    const name = names[names.length - 1] || tail.match(/(\w+)\s*$/)?.[1];
+    if (!name) return null;
+
+    // Enum underlying types are not bases
+    const bases = keyword.startsWith('enum') ? [] : this.scanner.splitParams(this.stripTemplates(baseParts.join(':')))
+      .map(base => base.replace(/\b(?:public|private|protected|virtual)\b/g, '').trim())
+      .filter(Boolean);
+
+    return { keyword, name, bases };
+  }
+
+  /**
+   * Class body: methods, nested types and whether it is a pure interface
+   */
+  private readClass(
+    content: string,
+    code: string,
+    type: { keyword: string; name: string; bases: string[] },
+    body: [number, number],
+    classes: ClassInfo[]
+  ): ClassInfo {
+    const info: ClassInfo = {
+      name: type.name,
+      kind: type.keyword.startsWith('enum') ? 'enum' : type.keyword === 'class' ? 'class' : 'struct',
+      extends: type.bases[0],
+      implements: type.bases.slice(1),
+      methods: [],
+    };
+
+    let pureVirtual = 0;
+    let concrete = 0;
+
+    for (const statement of this.statements(code, body[0] + 1, body[1])) {
+      const nested = this.readTypeHead(statement.head, statement.tail);
+      if (nested && statement.body) {
+        classes.push(this.readClass(content, code, nested, statement.body, classes));
+        continue;
+      }
+
+      const fn = this.readFunctionHead(statement.head, type.name);
+      if (!fn) continue;
+
+      const method: FunctionInfo = statement.body
+        ? this.readFunction(content, code, statement, fn)
+        : { name: fn.name, params: fn.params, async: false, lines: 1 };
+      method.kind = fn.name === type.name ? 'constructor' : 'method';
+      info.methods.push(method);
+
+      if (/=\s*0$/.test(fn.suffix)) pureVirtual++;
+      else if (!fn.name.startsWith('~')) concrete++;
+    }
+
+    if (pureVirtual > 0 && concrete === 0 && info.kind !== 'enum') info.kind = 'interface';
+    return info;
+  }
+
+  /**
+   * Recognise a function head: return type, (qualified) name, parameter list and trailing specifiers
+   */
+  private readFunctionHead(head: string, ownerName?: string): { name: string; params: string[]; suffix: string } | null {
+    if (/^(?:typedef|using|friend|return|throw)\b/.test(head)) return null;
+
+    const paren = this.firstParen(head);
+    if (paren === -1) return null;
+
+    const prefix = head.slice(0, paren);
+    // Initialisers (`int x = f(1)`, `auto f = [](){}`) are variables, not functions
+    if (prefix.includes('=') && !/operator\s*\S*=\S*\s*$/.test(prefix)) return null;
+
+    const nameMatch = prefix.match(/((?:\w+\s*::\s*)*(?:~\s*\w+|operator\s*\S+|\w+))\s*$/);
+    if (!nameMatch) return null;
+
+    const name = nameMatch[1].replace(/\s+/g, '');
+    const simpleName = name.split('::').pop()!;
+    if (this.keywords.has(simpleName) && !simpleName.startsWith('operator')) return null;
+
+    const close = this.scanner.findClosing(head, paren);
+    if (close === -1) return null;
+
+    // Constructors and destructors have no return type; anything else needs one
+    const returnType = prefix.slice(0, nameMatch.index).replace(/\b(?:template\s*<.*>|inline|static|virtual|explicit|constexpr|extern|friend)\b/g, '').trim();
+    const isSpecial = simpleName.startsWith('~') || simpleName === ownerName || name.includes('::') || /^[A-Z]/.test(simpleName);
+    if (!returnType && !isSpecial) return null;
+
+    return {
+      name,
+      params: this.scanner.splitParams(head.slice(paren + 1, close)).filter(param => param !== 'void'),
+      suffix: head.slice(close + 1).trim(),
+    };
+  }
+
+  /**
+   * Measure a function definition
+   */
+  private readFunction(
+    content: string,
+    code: string,
+    statement: Statement,
+    fn: { name: string; params: string[] }
+  ): FunctionInfo {
+    const [open, close] = statement.body!;
+    const bodyText = code.slice(open, close + 1);
+    const measure = this.complexityAnalyzer.measureBlock(bodyText, this.controlFlow);
+
+    return {
+      name: fn.name,
+      params: fn.params,
+      // C++20 coroutines suspend on co_await / co_yield
+      async: /\bco_(?:await|yield|return)\b/.test(bodyText),
+      lines: this.scanner.lineAt(content, close) - this.scanner.lineAt(content, open) + 1,
+      cyclomaticComplexity: measure.cyclomatic,
+      cognitiveComplexity: measure.cognitive,
+    };
+  }
+
+  /**
+   * Index of the first `(` outside template brackets
+   */
+  private firstParen(head: string): number {
+    let angles = 0;
+    for (let i = 0; i < head.length; i++) {
+      if (head[i] === '<' && head[i + 1] !== '<' && head[i - 1] !== '<') angles++;
+      else if (head[i] === '>' && angles > 0 && head[i - 1] !== '-') angles--;
+      else if (head[i] === '(' && angles === 0) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Remove `<...>` template arguments (nested ones included)
+   */
+  private stripTemplates(text: string): string {
+    let result = text;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
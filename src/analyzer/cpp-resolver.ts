@@ -0,0 +1,92 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * C/C++ Resolver - Maps `#include` directives through the includer's directory and the include dirs
+ */
+export class CppResolver extends LanguageResolver {
+  private includeDirs: string[] = [];
+  private readonly includeIndex = new Map<string, string[]>();
+
+  constructor(context: ImportContext) {
+    super(context);
+
+    for (const module of this.modulesOf('c', 'cpp')) {
+      for (const file of module.files || [module.path]) {
+        const name = path.posix.basename(this.toPosix(file));
+        this.includeIndex.set(name, [...(this.includeIndex.get(name) || []), this.toPosix(file)]);
+      }
+    }
+
+    this.loadIncludeDirs(context.includeDirs);
+  }
+
+  /**
+   * Resolve `#include "x.h"` (includer's directory, then include dirs) or `#include <x.h>` (include dirs)
+   *
+   * Quoted includes no include dir explains fall back to the only project file with that path suffix;
+   * angle includes that are not found are system or third-party headers.
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    const system = specifier.startsWith('<');
+    const name = system ? specifier.slice(1, -1) : specifier;
+    const importerDir = path.posix.dirname(this.toPosix(importer.path));
+
+    const dirs = system ? this.includeDirs : [importerDir, ...this.includeDirs];
+    for (const dir of dirs) {
+      const moduleId = this.moduleIdForFile(path.posix.join(dir || '.', name));
+      if (moduleId) return { moduleId, external: false };
+    }
+
+    if (system) return { external: true };
+
+    const suffix = '/' + path.posix.normalize(name).replace(/^(\.\.\/)+/, '');
+    const matches = (this.includeIndex.get(path.posix.basename(name)) || [])
+      .filter(file => ('/' + file).endsWith(suffix));
+    if (matches.length === 1) return { moduleId: this.moduleIdForFile(matches[0]), external: false };
+
+    return { external: false };
+  }
+
+  /**
+   * Combine configured include dirs with the `-I`/`-iquote` flags of compile_commands.json
+   */
+  private loadIncludeDirs(configured: string[]): void {
+    const projectPath = this.context.projectPath;
+    const dirs = configured.map(dir => path.resolve(projectPath, dir));
+
+    const databasePath = ['compile_commands.json', 'build/compile_commands.json']
+      .map(name => path.join(projectPath, name))
+      .find(candidate => fs.existsSync(candidate));
+
+    if (databasePath) {
+      let entries: unknown;
+      try {
+        entries = JSON.parse(fs.readFileSync(databasePath, 'utf-8'));
+      } catch {
+        entries = [];
+      }
+
+      for (const entry of Array.isArray(entries) ? entries : []) {
+        const args: string[] = Array.isArray(entry?.arguments)
+          ? entry.arguments
+          : typeof entry?.command === 'string' ? entry.command.match(/"[^"]*"|\S+/g) || [] : [];
+        const directory = typeof entry?.directory === 'string' ? entry.directory : projectPath;
+
+        args.forEach((arg, i) => {
+          const flag = arg.match(/^(-I|-iquote|-isystem)(.*)$/);
+          if (!flag) return;
+          const value = (flag[2] || args[i + 1] || '').replace(/^"|"$/g, '');
+          if (value) dirs.push(path.resolve(directory, value));
+        });
+      }
+    }
+
+    // Only directories inside the project can hold project headers
+    this.includeDirs = [...new Set(dirs.map(dir => this.toProjectPath(dir)).filter((dir): dir is string => dir !== null))];
+  }
+}
@@ -0,0 +1,369 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Type declaration with the extent of its body
+ */
+interface TypeDeclaration {
+  info: ClassInfo;
+  open: number;
+  close: number;
+  topLevel: boolean;
+}
+
+/**
+ * C# Extractor - Namespaces, usings, classes, structs, interfaces, enums, records and methods
+ */
+export class CSharpExtractor {
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'for', 'foreach', 'while', 'catch'],
+    switches: ['switch'],
+    cases: ['case'],
+  };
+
+  private readonly modifiers = '(?:(?:public|protected|private|internal|static|sealed|abstract|partial|readonly|unsafe|new|file|ref|virtual|override|extern|async|required)\\s+)*';
+
+  // Attribute lists preceding a declaration: `[Serializable]`, `[Route("x"), Authorize]`
+  private readonly attributes = '((?:\\[[^\\]]*\\]\\s*)*)';
+
+  // Statements that look like `type name(` but are not method declarations
+  private readonly notMethodNames = new Set(['if', 'for', 'foreach', 'while', 'switch', 'catch', 'return', 'new', 'throw', 'else', 'using', 'lock', 'await', 'nameof', 'typeof', 'sizeof', 'default', 'fixed', 'operator']);
+
+  // Return types of methods that complete asynchronously
+  private readonly asyncReturnTypes = /^(?:Task|ValueTask|IAsyncEnumerable)\b/;
+
+  /**
+   * Extract namespace structure from C# source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    // Block-scoped (`namespace A.B {`) or file-scoped (`namespace A.B;`)
+    const namespaceMatch = masked.match(/^\s*namespace\s+([\w.]+)\s*[{;]/m);
+    const namespace = namespaceMatch ? namespaceMatch[1] : undefined;
+
+    const declarations = this.extractTypes(masked);
+    for (const declaration of declarations) {
+      declaration.info.methods = this.extractMethods(content, masked, declaration, declarations);
+    }
+
+    const classes = declarations.map(d => d.info);
+    const topLevel = declarations.filter(d => d.topLevel).map(d => d.info);
+
+    const usingRanges: Array<[number, number]> = [];
+    const importBindings = this.extractUsings(masked, usingRanges);
+
+    // References are counted outside the using directives
+    let body = masked;
+    for (const [start, end] of usingRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+
+    const localNames = new Set(classes.map(c => c.name));
+    const explicitNames = new Set<string>();
+    for (const binding of importBindings) {
+      for (const symbol of binding.symbols) {
+        this.countReferences(body, symbol);
+        if (symbol.localName) explicitNames.add(symbol.localName);
+      }
+    }
+
+    // Imported and enclosing namespaces expose every type they contain: offer each type name
+    // used here, resolution keeps those the namespace actually declares
+    const candidates = this.collectTypeNames(body).filter(name => !localNames.has(name) && !explicitNames.has(name));
+    const namespaceBindings = importBindings.filter(b => b.wildcard);
+    if (namespace) {
+      const segments = namespace.split('.');
+      for (let length = segments.length; length >= 1; length--) {
+        const binding: ImportBinding = { specifier: segments.slice(0, length).join('.'), symbols: [], wildcard: true };
+        namespaceBindings.push(binding);
+        importBindings.push(binding);
+      }
+    }
+    for (const binding of namespaceBindings) {
+      binding.symbols = candidates.map(name => {
+        const symbol = this.createSymbol(name, name);
+        this.countReferences(body, symbol);
+        return symbol;
+      });
+    }
+
+    const whole = this.complexityAnalyzer.measureBlock(masked, this.controlFlow);
+    const methodCount = classes.reduce((sum, cls) => sum + cls.methods.filter(m => m.cyclomaticComplexity).length, 0);
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      // A namespace nobody uses binds nothing
+      importBindings: importBindings.filter(b => !b.wildcard || b.symbols.length > 0),
+      exports: [...new Set(topLevel.map(cls => cls.name))],
+      typeExports: topLevel.filter(cls => cls.kind === 'interface').map(cls => cls.name),
+      functions: [],
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, methodCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+      namespace,
+    };
+  }
+
+  /**
+   * `using A.B;`, `using static A.B.C;`, `using Alias = A.B.C;` (optionally `global`)
+   */
+  private extractUsings(masked: string, ranges: Array<[number, number]>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /^\s*(?:global\s+)?using\s+(static\s+)?(?:(\w+)\s*=\s*)?([\w.]+)(?:<[^;]*>)?\s*;/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+      const [, isStatic, alias, name] = match;
+      const simpleName = name.slice(name.lastIndexOf('.') + 1);
+
+      if (isStatic) {
+        // Static members are used unqualified, the type itself is never named
+        bindings.push({ specifier: name, symbols: [this.createSymbol('*', '')] });
+      } else if (alias) {
+        bindings.push({ specifier: name, symbols: [this.createSymbol(simpleName, alias)] });
+      } else {
+        // Symbols are filled in once the file's type references are known
+        bindings.push({ specifier: name, symbols: [], wildcard: true });
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Capitalised identifiers that may name types from another file
+   */
+  private collectTypeNames(body: string): string[] {
+    const names = new Set<string>();
+    const regex = /(?<![\w.])([A-Z]\w*)\b/g;
+
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      // Constants such as MAX_SIZE are not types
+      if (!/^[A-Z0-9_]+$/.test(match[1]) || match[1].length === 1) {
+        names.add(match[1]);
+      }
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Count references, separating type positions from value uses
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName) return;
+
+    const regex = new RegExp(`(?<![\\w.])${symbol.localName}\\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 20), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 40);
+
+      // `new X(`, `X.Call()` and `await X(...)` are value uses
+      if (/\bnew\s+$/.test(before) || /^\s*(?:\(|\.)/.test(after)) {
+        if (/\bawait\s+$/.test(before)) symbol.awaited++;
+        continue;
+      }
+
+      // A base class (first in the list, not an `IName`) is constructed with every instance
+      const header = body.slice(Math.max(0, match.index - 200), match.index);
+      if (!/^I[A-Z]/.test(symbol.localName) &&
+        /\b(?:class|record)\s+\w+\s*(?:<(?:[^<>]|<[^<>]*>)*>\s*)?(?:\([^()]*\)\s*)?:\s*$/.test(header)) continue;
+
+      symbol.typeReferences++;
+    }
+  }
+
+  /**
+   * Find class, struct, interface, enum and record declarations
+   */
+  private extractTypes(masked: string): TypeDeclaration[] {
+    const declarations: TypeDeclaration[] = [];
+    const regex = new RegExp(
+      `${this.attributes}(${this.modifiers})(?:(record)\\s+)?(class|struct|interface|enum|record)\\s+(\\w+)([^{;]*)\\{`,
+      'g'
+    );
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const previous = masked[match.index - 1];
+      if (previous && /[\w.]/.test(previous)) continue;
+
+      const [, attributes, modifiers, record, keyword, name, header] = match;
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+
+      // `record struct` is a record; primary constructors, generics and constraints carry no bases
+      const kind = record || keyword === 'record' ? 'record' : keyword as 'class' | 'struct' | 'interface' | 'enum';
+      const bases = this.readBaseList(this.stripGenerics(header).replace(/^\s*\([^)]*\)/, ''));
+
+      // Only classes and records have a base class: it comes first and is not an `IName`
+      const hasBaseClass = (kind === 'class' || kind === 'record') && bases.length > 0 && !/^I[A-Z]/.test(bases[0]);
+
+      const info: ClassInfo = {
+        name,
+        kind,
+        extends: hasBaseClass ? bases[0] : undefined,
+        implements: kind === 'enum' ? [] : bases.slice(hasBaseClass ? 1 : 0),
+        methods: [],
+        annotations: this.readAttributes(attributes),
+      };
+      if (/\bpartial\b/.test(modifiers)) info.partial = true;
+
+      declarations.push({
+        info,
+        open,
+        close: close === -1 ? masked.length : close,
+        topLevel: !declarations.some(d => open > d.open && open < d.close),
+      });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Methods and constructors declared directly in a type body
+   */
+  private extractMethods(
+    content: string,
+    masked: string,
+    declaration: TypeDeclaration,
+    declarations: TypeDeclaration[]
+  ): FunctionInfo[] {
+    const methods: FunctionInfo[] = [];
+    const regex = new RegExp(
+      `${this.attributes}(${this.modifiers})(?:([\\w.]+(?:\\s*<[^;{()]*>)?\\??(?:\\s*\\[[\\s,]*\\])*)\\s+)?(\\w+)\\s*(?:<[^;{()]*>)?\\s*\\(`,
+      'g'
+    );
+
+    // Nested type bodies belong to their own declaration
+    const nested = declarations.filter(d => d !== declaration && d.open > declaration.open && d.close < declaration.close);
+    const depthAt = this.braceDepths(masked, declaration.open, declaration.close);
+
+    regex.lastIndex = declaration.open + 1;
+    let match;
+    while ((match = regex.exec(masked)) !== null && match.index < declaration.close) {
+      const [, attributes, modifiers, returnType, name] = match;
+      const nameIndex = match.index + match[0].lastIndexOf(name);
+
+      if (depthAt(nameIndex) !== 1) continue;
+      if (nested.some(d => nameIndex > d.open && nameIndex < d.close)) continue;
+      if (this.notMethodNames.has(name) || (returnType && this.notMethodNames.has(returnType))) continue;
+
+      // Constructors have no return type and carry the type's name
+      const isConstructor = !returnType && name === declaration.info.name;
+      if (!returnType && !isConstructor) continue;
+
+      const paramsOpen = match.index + match[0].length - 1;
+      const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      // Body block, expression body (`=> expr;`) or declaration only (`;`)
+      const tail = masked.slice(paramsClose + 1);
+      const terminator = tail.search(/[{;]|=>|=/);
+      if (terminator === -1 || (tail[terminator] === '=' && tail[terminator + 1] !== '>')) continue;
+
+      const info: FunctionInfo = {
+        name,
+        params: this.scanner.splitParams(masked.slice(paramsOpen + 1, paramsClose)),
+        async: /\basync\b/.test(modifiers) || this.asyncReturnTypes.test(returnType || ''),
+        lines: 1,
+        kind: isConstructor ? 'constructor' : 'method',
+        annotations: this.readAttributes(attributes),
+      };
+
+      if (tail[terminator] !== ';') {
+        const bodyStart = paramsClose + 1 + terminator;
+        let bodyEnd = tail[terminator] === '{'
+          ? this.scanner.findClosing(masked, bodyStart)
+          : masked.indexOf(';', bodyStart);
+        if (bodyEnd === -1) bodyEnd = declaration.close;
+
+        const measure = this.complexityAnalyzer.measureBlock(masked.slice(bodyStart, bodyEnd + 1), this.controlFlow);
+        info.lines = this.scanner.lineAt(content, bodyEnd) - this.scanner.lineAt(content, match.index) + 1;
+        info.cyclomaticComplexity = measure.cyclomatic;
+        info.cognitiveComplexity = measure.cognitive;
+        regex.lastIndex = bodyEnd;
+      }
+
+      methods.push(info);
+    }
+
+    return methods;
+  }
+
+  /**
+   * Brace depth lookup for positions inside [open, close], relative to the type body
+   */
+  private braceDepths(masked: string, open: number, close: number): (index: number) => number {
+    const depths = new Int32Array(close - open + 1);
+    let depth = 0;
+    for (let i = open; i <= close; i++) {
+      if (masked[i] === '{') depth++;
+      depths[i - open] = depth;
+      if (masked[i] === '}') depth--;
+    }
+    return index => depths[index - open] ?? -1;
+  }
+
+  /**
+   * Read the `: Base, IOne, ITwo` list of a declaration header (up to any `where` constraint)
+   */
+  private readBaseList(header: string): string[] {
+    const match = header.match(/^\s*:\s*([\s\S]*?)(?=\bwhere\b|$)/);
+    if (!match) return [];
+
+    return this.scanner.splitParams(match[1])
+      .map(type => type.replace(/\([\s\S]*$/, '').trim().split('.').pop()!)
+      .filter(Boolean);
+  }
+
+  /**
+   * Remove `<...>` generic parameters (nested ones included)
+   */
+  private stripGenerics(text: string): string {
+    let result = text;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * Attribute names without arguments (`[Route("x"), Authorize]` -> Route, Authorize)
+   */
+  private readAttributes(text: string | undefined): string[] {
+    if (!text) return [];
+    return [...text.matchAll(/\[([^\]]*)\]/g)]
+      .flatMap(match => this.scanner.splitParams(match[1]))
+      // Targets such as `assembly:` or `return:` prefix the attribute name
+      .map(attribute => attribute.replace(/^\w+\s*:\s*/, '').match(/^[\w.]+/)?.[0].split('.').pop() || '')
+      .filter(Boolean);
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,45 @@
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * C# Resolver - Maps `using` directives to the files declaring a namespace or type
+ */
+export class CSharpResolver extends LanguageResolver {
+  private readonly csharpTypes = new Map<string, string>();
+  private readonly csharpNamespaces = new Map<string, string[]>();
+  private readonly dotnetPrefixes = ['System', 'Microsoft', 'Windows'];
+
+  constructor(context: ImportContext) {
+    super(context);
+
+    for (const module of this.modulesOf('csharp')) {
+      if (!module.namespace) continue;
+
+      // Partial types may repeat a name, every declaring file is kept in the namespace
+      for (const typeName of module.exports) {
+        this.csharpTypes.set(`${module.namespace}.${typeName}`, module.id);
+      }
+      this.csharpNamespaces.set(module.namespace, [...(this.csharpNamespaces.get(module.namespace) || []), module.id]);
+    }
+  }
+
+  /**
+   * Resolve a `using` namespace (all declaring files) or a type named by a static/alias using
+   */
+  resolve(specifier: string): ImportTarget {
+    const moduleIds = this.csharpNamespaces.get(specifier);
+    if (moduleIds) return { moduleIds, external: false };
+
+    const moduleId = this.csharpTypes.get(specifier);
+    if (moduleId) return { moduleId, external: false };
+
+    const root = specifier.split('.')[0];
+    if (this.dotnetPrefixes.includes(root)) return { external: true };
+
+    // Namespaces that only hold other namespaces resolve to nothing, unknown ones are external
+    const namespaces = [...this.csharpNamespaces.keys()];
+    if (namespaces.some(ns => ns.startsWith(specifier + '.'))) return { moduleIds: [], external: false };
+    return { external: !namespaces.some(ns => specifier.startsWith(ns + '.')) };
+  }
+}
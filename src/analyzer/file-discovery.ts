@@ -0,0 +1,301 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { SkippedFile, SkipReason } from './types.js';
+import { GlobSet, globToRegExp } from './glob.js';
+
+/**
+ * One line of a .gitignore / .codeactorignore file
+ */
+interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;                // `!pattern` re-includes
+  directoryOnly: boolean;          // `pattern/` only matches directories
+  source: string;                  // File and line, for the skip report ('.gitignore: dist/')
+}
+
+/**
+ * Rules of an ignore file, relative to the directory holding it
+ */
+interface IgnoreFile {
+  base: string;                    // Project-relative directory ('' for the root)
+  rules: IgnoreRule[];
+}
+
+export interface DiscoveryOptions {
+  isCodeFile(relativePath: string): boolean;  // Language and include-glob selection
+  exclude: string[];               // Globs of files and directories to skip
+  gitignore: boolean;              // Honour .gitignore files and .git/info/exclude
+  maxFileSize: number;             // Bytes
+}
+
+export interface DiscoveryResult {
+  files: string[];                 // Absolute paths of the files to parse
+  skipped: SkippedFile[];
+}
+
+interface WalkState {
+  realRoot: string;
+  files: string[];
+  skipped: SkippedFile[];
+  visited: Map<string, string>;    // Real path to the path first walked, for directories and code files
+}
+
+/**
+ * File Discovery - Finds the source files of a project
+ *
+ * Honours .gitignore and .codeactorignore files at every level, follows symlinks inside the project
+ * once, and leaves out minified, generated, binary and oversized files, recording why.
+ */
+export class FileDiscovery {
+  private readonly exclude: GlobSet;
+
+  private readonly generatedNames = /\.(?:generated|designer|g)\.\w+$|\.pb\.(?:go|cc|h)$|_pb2(?:_grpc)?\.py$/i;
+  // Header comments generators write ('// @generated', '// Code generated by stringer. DO NOT EDIT.', '// <auto-generated/>')
+  private readonly commentLine = /^\s*(?:\/\/+|\/\*+|\*|#|--|<!--)\s*(.*)$/;
+  private readonly generatedMarkers = [
+    /^@generated\b/,
+    /^(?:Code )?generated\b.*\bDO NOT EDIT\b/i,
+    /^<auto-generated\b/i,
+  ];
+
+  constructor(private readonly options: DiscoveryOptions) {
+    this.exclude = new GlobSet(options.exclude);
+  }
+
+  /**
+   * Walk a project, returning the files to parse and everything skipped on the way
+   */
+  discover(projectPath: string): DiscoveryResult {
+    const root = path.resolve(projectPath);
+    const realRoot = fs.realpathSync(root);
+    const state: WalkState = { realRoot, files: [], skipped: [], visited: new Map([[realRoot, '.']]) };
+
+    const ignores: IgnoreFile[] = [];
+    if (this.options.gitignore) {
+      ignores.push(...this.readIgnoreFile(path.join(root, '.git', 'info', 'exclude'), '', '.git/info/exclude'));
+    }
+
+    this.walk(root, '', ignores, [realRoot], state);
+    return { files: state.files, skipped: state.skipped };
+  }
+
+  /**
+   * Walk one directory; `ancestors` are the real paths above it, to catch symlink cycles
+   */
+  private walk(dir: string, relativeDir: string, inherited: IgnoreFile[], ancestors: string[], state: WalkState): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      this.skip(state, `${relativeDir || '.'}/`, 'unreadable', (error as NodeJS.ErrnoException).code || String(error));
+      return;
+    }
+
+    const ignores = [...inherited];
+    if (this.options.gitignore) {
+      ignores.push(...this.readIgnoreFile(path.join(dir, '.gitignore'), relativeDir));
+    }
+    ignores.push(...this.readIgnoreFile(path.join(dir, '.codeactorignore'), relativeDir));
+
+    // Sorted so the result does not depend on the file system's order
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      let isDirectory = entry.isDirectory();
+      let realPath = path.join(ancestors[ancestors.length - 1], entry.name);
+
+      if (entry.isSymbolicLink()) {
+        try {
+          realPath = fs.realpathSync(fullPath);
+          isDirectory = fs.statSync(realPath).isDirectory();
+        } catch {
+          if (this.options.isCodeFile(relativePath)) this.skip(state, relativePath, 'unreadable', 'broken symlink');
+          continue;
+        }
+      } else if (!isDirectory && !entry.isFile()) {
+        continue;
+      }
+
+      const displayPath = isDirectory ? `${relativePath}/` : relativePath;
+      const relevant = isDirectory || this.options.isCodeFile(relativePath);
+
+      const excludedBy = this.exclude.find(relativePath);
+      if (excludedBy) {
+        if (relevant) this.skip(state, displayPath, 'excluded', `exclude: ${excludedBy}`);
+        continue;
+      }
+
+      const ignoredBy = this.ignoredBy(relativePath, isDirectory, ignores);
+      if (ignoredBy) {
+        if (relevant) this.skip(state, displayPath, 'ignored', ignoredBy);
+        continue;
+      }
+
+      if (!relevant) continue;
+
+      if (entry.isSymbolicLink()) {
+        if (realPath !== state.realRoot && !realPath.startsWith(state.realRoot + path.sep)) {
+          this.skip(state, displayPath, 'outside-project', `links to ${realPath}`);
+          continue;
+        }
+        if (ancestors.includes(realPath)) {
+          this.skip(state, displayPath, 'symlink-cycle', `links back to ${path.relative(state.realRoot, realPath) || '.'}`);
+          continue;
+        }
+      }
+
+      // Reached before through a symlink (or the symlink is reached after its target)
+      const firstPath = state.visited.get(realPath);
+      if (firstPath) {
+        this.skip(state, displayPath, 'duplicate', `already walked as ${firstPath}`);
+        continue;
+      }
+      state.visited.set(realPath, displayPath);
+
+      if (isDirectory) {
+        this.walk(fullPath, relativePath, ignores, [...ancestors, realPath], state);
+        continue;
+      }
+
+      const problem = this.inspect(fullPath, relativePath);
+      if (problem) {
+        this.skip(state, relativePath, problem[0], problem[1]);
+      } else {
+        state.files.push(fullPath);
+      }
+    }
+  }
+
+  /**
+   * Source line of the last ignore rule matching a path, unless a negation re-included it
+   *
+   * Rules of deeper ignore files come later and win, as in git.
+   */
+  private ignoredBy(relativePath: string, isDirectory: boolean, ignores: IgnoreFile[]): string | undefined {
+    let match: IgnoreRule | undefined;
+
+    for (const file of ignores) {
+      if (file.base && !relativePath.startsWith(`${file.base}/`)) continue;
+      const subPath = file.base ? relativePath.slice(file.base.length + 1) : relativePath;
+
+      for (const rule of file.rules) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        if (rule.pattern.test(subPath)) match = rule;
+      }
+    }
+
+    return match && !match.negated ? match.source : undefined;
+  }
+
+  /**
+   * Parse an ignore file with gitignore syntax (missing files have no rules)
+   */
+  private readIgnoreFile(filePath: string, base: string, label?: string): IgnoreFile[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const name = label || (base ? `${base}/${path.basename(filePath)}` : path.basename(filePath));
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split('\n')) {
+      let line = rawLine.replace(/\r$/, '');
+      if (!line.trim() || line.startsWith('#')) continue;
+
+      // Trailing spaces are dropped unless escaped
+      line = line.replace(/(?<!\\)\s+$/, '');
+      const negated = line.startsWith('!');
+      if (negated) line = line.slice(1);
+      line = line.replace(/^\\([#!])/, '$1');
+
+      const directoryOnly = line.endsWith('/');
+      const body = line.replace(/\/+$/, '');
+      if (!body) continue;
+
+      // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+      const anchored = body.includes('/');
+      rules.push({
+        pattern: globToRegExp(body.replace(/^\//, ''), !anchored),
+        negated,
+        directoryOnly,
+        source: `${name}: ${rawLine.trim()}`,
+      });
+    }
+
+    return rules.length > 0 ? [{ base, rules }] : [];
+  }
+
+  /**
+   * Reason to leave a code file out, judged from its size, name and content
+   */
+  private inspect(fullPath: string, relativePath: string): [SkipReason, string] | undefined {
+    let content: Buffer;
+    try {
+      const size = fs.statSync(fullPath).size;
+      if (size > this.options.maxFileSize) {
+        return ['too-large', `${formatBytes(size)} > ${formatBytes(this.options.maxFileSize)}`];
+      }
+      content = fs.readFileSync(fullPath);
+    } catch (error) {
+      return ['unreadable', (error as NodeJS.ErrnoException).code || String(error)];
+    }
+
+    if (content.subarray(0, 8000).includes(0)) {
+      return ['binary', 'contains NUL bytes'];
+    }
+
+    const fileName = path.posix.basename(relativePath);
+    if (this.generatedNames.test(fileName)) {
+      return ['generated', 'generated file name'];
+    }
+
+    const text = content.toString('utf-8');
+    const marker = this.generatedMarker(text.split('\n', 10));
+    if (marker) {
+      return ['generated', `header says "${marker}"`];
+    }
+
+    if (/\.min\.\w+$/i.test(fileName)) {
+      return ['minified', 'minified file name'];
+    }
+
+    const lines = text.split('\n');
+    const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+    const average = text.length / lines.length;
+    if (longest > 5000 || (text.length > 2000 && average > 300)) {
+      return ['minified', `lines average ${Math.round(average)} characters, longest ${longest}`];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Generator marker starting a comment line of the file header
+   */
+  private generatedMarker(headerLines: string[]): string | undefined {
+    for (const line of headerLines) {
+      const comment = line.match(this.commentLine)?.[1];
+      if (comment === undefined) continue;
+
+      const marker = this.generatedMarkers.map(pattern => comment.match(pattern)?.[0]).find(Boolean);
+      if (marker) return marker;
+    }
+    return undefined;
+  }
+
+  private skip(state: WalkState, displayPath: string, reason: SkipReason, detail: string): void {
+    state.skipped.push({ path: displayPath, reason, detail });
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Glob matching for project-relative posix paths
+ *
+ * Supports `*` (within a path segment), `**` (any number of segments), `?`, `[abc]` and `{a,b}`.
+ * By default a pattern without a slash matches a file or directory name at any depth (`*.test.ts`, `vendor`).
+ */
+export function globToRegExp(glob: string, anyDepth?: boolean): RegExp {
+  let pattern = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+  if (anyDepth ?? !pattern.includes('/')) pattern = `**/${pattern}`;
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+      const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+      if (atSegmentStart && atSegmentEnd) {
+        // `**/` matches zero or more directories, a trailing `**` anything below
+        if (pattern[i + 2] === '/') {
+          source += '(?:[^/]*/)*';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = close;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  // A directory pattern also covers everything inside it
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Compiled set of globs
+ */
+export class GlobSet {
+  private readonly patterns: Array<[string, RegExp]>;
+
+  constructor(globs: string[]) {
+    this.patterns = globs.map(glob => [glob, globToRegExp(glob)]);
+  }
+
+  get size(): number {
+    return this.patterns.length;
+  }
+
+  /**
+   * Check whether any glob matches a project-relative path (`/` separated)
+   */
+  matches(relativePath: string): boolean {
+    return this.find(relativePath) !== undefined;
+  }
+
+  /**
+   * First glob matching a project-relative path
+   */
+  find(relativePath: string): string | undefined {
+    return this.patterns.find(([, pattern]) => pattern.test(relativePath))?.[0];
+  }
+}
@@ -0,0 +1,359 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Go Extractor - Packages, imports, funcs, methods, structs and interfaces
+ */
+export class GoExtractor {
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+    rawQuotes: ['`'],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'for'],
+    switches: ['switch', 'select'],
+    cases: ['case'],
+  };
+
+  // Words that can precede a qualified identifier in value position
+  private readonly valueKeywords = new Set(['return', 'go', 'defer', 'case', 'if', 'for', 'range', 'else', 'switch']);
+
+  /**
+   * Extract package structure from Go source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const packageMatch = masked.match(/^\s*package\s+(\w+)/m);
+
+    const classes = this.extractTypes(content, masked);
+    const functions = this.extractFuncs(content, masked, classes);
+    const importBindings = this.extractImports(content, masked);
+
+    const exports = this.extractDeclaredNames(masked).filter(name => this.isExported(name));
+    const typeExports = classes
+      .filter(cls => cls.kind === 'interface' && this.isExported(cls.name))
+      .map(cls => cls.name);
+
+    // Every func contributes its base path, top-level decisions come from the whole file
+    const whole = this.complexityAnalyzer.measureBlock(masked, this.controlFlow);
+    const functionCount = functions.length + classes.reduce((sum, cls) => sum + cls.methods.filter(m => m.cyclomaticComplexity).length, 0);
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings,
+      exports: [...new Set(exports)],
+      typeExports,
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, functionCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+      namespace: packageMatch ? packageMatch[1] : undefined,
+    };
+  }
+
+  /**
+   * Collect `import "x"` and `import ( ... )` specs with the package members they use
+   */
+  private extractImports(content: string, masked: string): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+
+    const addSpec = (alias: string | undefined, quoteIndex: number): void => {
+      const specifier = this.scanner.readString(content, masked, quoteIndex);
+      if (!specifier) return;
+
+      const localName = alias || this.defaultPackageName(specifier);
+      const symbols = alias === '_' || alias === '.'
+        ? [this.createSymbol('*', '')]
+        : this.collectQualifiedReferences(masked, localName);
+
+      bindings.push({ specifier, symbols });
+    };
+
+    const singleRegex = /^\s*import\s+([\w.]+\s+)?(["`])/gm;
+    let match;
+    while ((match = singleRegex.exec(masked)) !== null) {
+      addSpec(match[1]?.trim(), match.index + match[0].length - 1);
+    }
+
+    const blockRegex = /^\s*import\s*\(/gm;
+    while ((match = blockRegex.exec(masked)) !== null) {
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      const body = masked.slice(open + 1, close === -1 ? masked.length : close);
+
+      const specRegex = /([\w.]+\s+)?(["`])/g;
+      let spec;
+      while ((spec = specRegex.exec(body)) !== null) {
+        addSpec(spec[1]?.trim(), open + 1 + spec.index + spec[0].length - 1);
+        // Skip past the closing quote
+        specRegex.lastIndex = body.indexOf(spec[2], specRegex.lastIndex) + 1;
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Count `pkg.Member` references, separating type positions from value uses
+   */
+  private collectQualifiedReferences(masked: string, localName: string): ImportedSymbol[] {
+    const symbols = new Map<string, ImportedSymbol>();
+    const regex = new RegExp(`(?<![\\w.])${localName.replace(/\./g, '\\.')}\\.([A-Z]\\w*)`, 'g');
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const name = match[1];
+      if (!symbols.has(name)) {
+        symbols.set(name, this.createSymbol(name, `${localName}.${name}`));
+      }
+
+      const symbol = symbols.get(name)!;
+      symbol.references++;
+
+      const after = masked.slice(regex.lastIndex).match(/^\s*(\S)/)?.[1];
+      const before = masked.slice(Math.max(0, match.index - 40), match.index);
+
+      // `go pkg.Run()` hands work off to a goroutine
+      if (after === '(' && /\bgo\s+$/.test(before)) {
+        symbol.callbacks++;
+      } else if (this.isTypePosition(before, after)) {
+        symbol.typeReferences++;
+      }
+    }
+
+    return [...symbols.values()];
+  }
+
+  /**
+   * Heuristic: a qualified name is a type when it follows a declared name, `*`, `[]` or `chan`
+   * and is not itself called, constructed or dereferenced further
+   */
+  private isTypePosition(before: string, after: string | undefined): boolean {
+    if (after === '(' || after === '{' || after === '.') return false;
+
+    if (/(?:[*\]]|\bchan)\s*$/.test(before)) return true;
+
+    const word = before.match(/(\w+)\s+$/)?.[1];
+    return !!word && !this.valueKeywords.has(word);
+  }
+
+  /**
+   * Extract struct and interface declarations (including grouped `type ( ... )` blocks)
+   */
+  private extractTypes(content: string, masked: string): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    const typeRegex = /^(\s*)(?:type\s+)?(\w+)(?:\[[^\]\n]*\])?\s+(struct|interface)\s*\{/gm;
+
+    let match;
+    while ((match = typeRegex.exec(masked)) !== null) {
+      // Grouped declarations are indented inside `type (`, standalone ones start with `type`
+      const isStandalone = /^\s*type\s/.test(match[0]);
+      if (!isStandalone && !this.isInsideTypeGroup(masked, match.index)) continue;
+
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      const body = masked.slice(open + 1, close === -1 ? masked.length : close);
+      const kind = match[3] as 'struct' | 'interface';
+
+      const cls: ClassInfo = {
+        name: match[2],
+        implements: [],
+        methods: [],
+        kind,
+      };
+
+      const embedded = this.extractEmbeddedTypes(body);
+      if (kind === 'struct') {
+        // Struct embedding is Go's closest thing to inheritance
+        if (embedded.length > 0) cls.extends = embedded[0];
+      } else {
+        cls.implements = embedded;
+        cls.methods = this.extractInterfaceMethods(body);
+      }
+
+      classes.push(cls);
+    }
+
+    return classes;
+  }
+
+  /**
+   * Check whether an index lies inside a `type ( ... )` group
+   */
+  private isInsideTypeGroup(masked: string, index: number): boolean {
+    const groupRegex = /^type\s*\(/gm;
+    let match;
+    while ((match = groupRegex.exec(masked)) !== null) {
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      if (index > open && (close === -1 || index < close)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Embedded fields: a lone (optionally pointer or qualified) type name on its own line
+   */
+  private extractEmbeddedTypes(body: string): string[] {
+    const embedded: string[] = [];
+    const regex = /^\s*\*?([\w.]+)\s*$/gm;
+
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      embedded.push(match[1]);
+    }
+
+    return embedded;
+  }
+
+  /**
+   * Method specs of an interface body
+   */
+  private extractInterfaceMethods(body: string): FunctionInfo[] {
+    const methods: FunctionInfo[] = [];
+    const regex = /^\s*(\w+)\s*\(([^)]*)\)/gm;
+
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      methods.push({
+        name: match[1],
+        params: this.scanner.splitParams(match[2]),
+        async: false,
+        lines: 1,
+        kind: 'method',
+      });
+    }
+
+    return methods;
+  }
+
+  /**
+   * Extract funcs; methods attach to their receiver type when it is declared in this file
+   */
+  private extractFuncs(content: string, masked: string, classes: ClassInfo[]): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+    const funcRegex = /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)\s*(?:\[[^\]]*\])?\s*\(/gm;
+
+    let match;
+    while ((match = funcRegex.exec(masked)) !== null) {
+      const receiver = match[1];
+      const name = match[2];
+      const paramsOpen = match.index + match[0].length - 1;
+      const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      // Body starts at the first brace after the signature (functions without one are external)
+      const lineEnd = masked.indexOf('\n', paramsClose);
+      const signatureTail = masked.slice(paramsClose, lineEnd === -1 ? masked.length : lineEnd);
+      const braceOffset = signatureTail.lastIndexOf('{');
+
+      const info: FunctionInfo = {
+        name,
+        params: this.scanner.splitParams(masked.slice(paramsOpen + 1, paramsClose)),
+        async: false,
+        lines: 1,
+        kind: receiver ? 'method' : 'function',
+      };
+
+      if (braceOffset !== -1) {
+        const bodyOpen = paramsClose + braceOffset;
+        const bodyClose = this.scanner.findClosing(masked, bodyOpen);
+        const body = masked.slice(bodyOpen, bodyClose === -1 ? masked.length : bodyClose + 1);
+        const measure = this.complexityAnalyzer.measureBlock(body, this.controlFlow);
+
+        info.lines = this.scanner.lineAt(content, bodyClose === -1 ? masked.length : bodyClose)
+          - this.scanner.lineAt(content, match.index) + 1;
+        info.cyclomaticComplexity = measure.cyclomatic;
+        info.cognitiveComplexity = measure.cognitive;
+      }
+
+      const owner = receiver ? classes.find(cls => cls.name === receiver) : undefined;
+      if (owner) {
+        owner.methods.push(info);
+      } else if (receiver) {
+        // Receiver type declared in another file of the package
+        functions.push({ ...info, name: `${receiver}.${name}` });
+      } else {
+        functions.push(info);
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * Package-level names: funcs (not methods), types, consts and vars
+   */
+  private extractDeclaredNames(masked: string): string[] {
+    const names: string[] = [];
+    let match;
+
+    const funcRegex = /^func\s+(\w+)/gm;
+    while ((match = funcRegex.exec(masked)) !== null) {
+      names.push(match[1]);
+    }
+
+    const singleRegex = /^(?:type|const|var)\s+(\w+)/gm;
+    while ((match = singleRegex.exec(masked)) !== null) {
+      names.push(match[1]);
+    }
+
+    // Grouped declarations list one name (or a name list) per line at depth one
+    const groupRegex = /^(?:type|const|var)\s*\(/gm;
+    while ((match = groupRegex.exec(masked)) !== null) {
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      const body = masked.slice(open + 1, close === -1 ? masked.length : close);
+
+      let depth = 0;
+      for (const line of body.split('\n')) {
+        if (depth === 0) {
+          const declared = line.match(/^\s*(\w+(?:\s*,\s*\w+)*)/);
+          if (declared) names.push(...declared[1].split(',').map(name => name.trim()));
+        }
+        for (const char of line) {
+          if ('({['.includes(char)) depth++;
+          if (')}]'.includes(char)) depth--;
+        }
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Package name Go assumes for an import path (major version suffixes are skipped)
+   */
+  private defaultPackageName(specifier: string): string {
+    const segments = specifier.split('/');
+    let name = segments[segments.length - 1];
+    if (/^v\d+$/.test(name) && segments.length > 1) {
+      name = segments[segments.length - 2];
+    }
+    return name.replace(/^go-/, '').replace(/[^\w]/g, '_');
+  }
+
+  /**
+   * Exported identifiers start with an upper-case letter
+   */
+  private isExported(name: string): boolean {
+    return /^[A-Z]/.test(name);
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,76 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * Go module declared by a go.mod file
+ */
+interface GoModule {
+  modulePath: string;              // `module` directive
+  dir: string;                     // Project-relative directory of go.mod ('' for the root)
+}
+
+/**
+ * Go Resolver - Maps import paths to the files of a project package via the go.mod module path
+ */
+export class GoResolver extends LanguageResolver {
+  private readonly goModules: GoModule[] = [];
+  private readonly goPackages = new Map<string, string[]>();
+
+  constructor(context: ImportContext) {
+    super(context);
+
+    for (const module of this.modulesOf('go')) {
+      // Merged package modules carry their directory as path
+      const dir = module.files ? this.toPosix(module.path) : path.posix.dirname(this.toPosix(module.path));
+      const key = dir === '.' ? '' : dir;
+      this.goPackages.set(key, [...(this.goPackages.get(key) || []), module.id]);
+    }
+
+    this.loadGoModules();
+  }
+
+  /**
+   * Map a Go import path to the files of a project package via the go.mod module path
+   */
+  resolve(specifier: string): ImportTarget {
+    const owner = this.goModules.find(mod =>
+      specifier === mod.modulePath || specifier.startsWith(mod.modulePath + '/')
+    );
+    if (!owner) return { external: true };
+
+    const packageDir = path.posix.join(owner.dir, specifier.slice(owner.modulePath.length + 1));
+    const moduleIds = this.goPackages.get(packageDir === '.' ? '' : packageDir);
+
+    return moduleIds ? { moduleIds, external: false } : { external: false };
+  }
+
+  /**
+   * Read the `module` directive of every go.mod above a Go package
+   */
+  private loadGoModules(): void {
+    const candidates = new Set<string>();
+
+    for (const dir of this.goPackages.keys()) {
+      const segments = dir ? dir.split('/') : [];
+      for (let i = segments.length; i >= 0; i--) {
+        candidates.add(segments.slice(0, i).join('/'));
+      }
+    }
+
+    for (const dir of candidates) {
+      const goModPath = path.join(this.context.projectPath, dir, 'go.mod');
+      if (!fs.existsSync(goModPath)) continue;
+
+      const match = fs.readFileSync(goModPath, 'utf-8').match(/^\s*module\s+"?([^\s"]+)"?/m);
+      if (match) {
+        this.goModules.push({ modulePath: match[1], dir });
+      }
+    }
+
+    // Nested modules shadow their parents, so the longest module path wins
+    this.goModules.sort((a, b) => b.modulePath.length - a.modulePath.length);
+  }
+}
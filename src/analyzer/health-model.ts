@@ -0,0 +1,154 @@
+import { CharacterHealth, CharacterPersona, CodeModule, HealthFactor, HealthLevel, ProjectHealth } from './types.js';
+import { HealthConfig } from './config.js';
+
+/**
+ * Health Model - Scores characters and the project, keeping every deduction and bonus
+ *
+ * A character starts at 100 and each factor adds or takes points; its level follows from the score.
+ * The project score averages the character scores weighted by lines of code and fan-in, so a fragile
+ * module everyone imports costs more than a fragile script nobody does.
+ */
+export class HealthModel {
+  constructor(private readonly config: HealthConfig) {}
+
+  /**
+   * Score a module, explaining every point it lost or earned
+   */
+  assessCharacter(module: CodeModule): CharacterHealth {
+    const weights = this.config.character;
+    const { lines, complexity, diagnostics } = module.metadata;
+    const factors: HealthFactor[] = [];
+
+    if (diagnostics.length > 0) {
+      const first = diagnostics[0];
+      this.add(
+        factors,
+        'syntax-errors',
+        -weights.syntaxErrors,
+        `${plural(diagnostics.length, 'syntax error')}, first at line ${first.line}: ${first.message}`
+      );
+    }
+
+    this.add(
+      factors,
+      'functions',
+      -Math.min(module.functions.length * weights.functions, weights.maxFunctions),
+      plural(module.functions.length, 'top-level function')
+    );
+    this.add(
+      factors,
+      'classes',
+      -Math.min(module.classes.length * weights.classes, weights.maxClasses),
+      plural(module.classes.length, 'class', 'classes')
+    );
+
+    this.add(factors, 'complexity', -Math.min(complexity * weights.complexity, weights.maxComplexity), `complexity ${complexity}/10`);
+
+    if (lines > weights.largeFileLines) {
+      this.add(
+        factors,
+        'size',
+        -Math.min((lines - weights.largeFileLines) / weights.linesPerPoint, weights.maxSize),
+        `${lines} lines, ${lines - weights.largeFileLines} over ${weights.largeFileLines}`
+      );
+    }
+
+    // Methods count too, longest first so the reason names what to split
+    const longFunctions = [
+      ...module.functions,
+      ...module.classes.flatMap(cls => cls.methods.map(method => ({ ...method, name: `${cls.name}.${method.name}` }))),
+    ]
+      .filter(fn => fn.lines > weights.longFunctionLines)
+      .sort((a, b) => b.lines - a.lines);
+
+    if (longFunctions.length > 0) {
+      const named = longFunctions.slice(0, 3).map(fn => `${fn.name} (${fn.lines})`);
+      if (longFunctions.length > 3) named.push(`${longFunctions.length - 3} more`);
+      this.add(
+        factors,
+        'long-functions',
+        -Math.min(longFunctions.length * weights.longFunction, weights.maxLongFunctions),
+        `${plural(longFunctions.length, 'function')} over ${weights.longFunctionLines} lines: ${named.join(', ')}`
+      );
+    } else if (lines <= weights.focusedLines) {
+      this.add(factors, 'focused', weights.focusedBonus, `${lines} lines, no function over ${weights.longFunctionLines} lines`);
+    }
+
+    factors.sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+    const total = factors.reduce((sum, factor) => sum + factor.value, 100);
+
+    return { score: Math.max(0, Math.min(100, Math.round(total))), factors };
+  }
+
+  /**
+   * Bug risk 0-10 from the size and shape of a module; syntax errors max it out
+   */
+  bugRisk(module: CodeModule): number {
+    if (module.metadata.hasErrors) return 10;
+
+    let risk = module.functions.length * 0.3 + module.classes.length * 0.5;
+    if (module.metadata.lines > 500) risk += 2;
+
+    return Math.min(10, Math.round(risk));
+  }
+
+  /**
+   * Health level of a score
+   */
+  levelOf(score: number): HealthLevel {
+    const levels = this.config.levels;
+    if (score >= levels.excellent) return 'excellent';
+    if (score >= levels.good) return 'good';
+    if (score >= levels.fair) return 'fair';
+    if (score >= levels.poor) return 'poor';
+    return 'critical';
+  }
+
+  /**
+   * Average the character scores, weighting characters by size and centrality
+   *
+   * Each character weighs 1, plus its lines and fan-in relative to the project average times the
+   * configured weights. A character's cost is the points its shortfall from 100 takes off the average.
+   */
+  assessProject(characters: CharacterPersona[]): ProjectHealth {
+    if (characters.length === 0) return { score: 100, contributors: [] };
+
+    const weights = this.config.project;
+    const averageLines = characters.reduce((sum, char) => sum + char.stats.linesOfCode, 0) / characters.length;
+    const averageFanIn = characters.reduce((sum, char) => sum + char.stats.callCount, 0) / characters.length;
+
+    const weighted = characters.map(char => ({
+      char,
+      weight: 1 +
+        (averageLines > 0 ? weights.size * char.stats.linesOfCode / averageLines : 0) +
+        (averageFanIn > 0 ? weights.centrality * char.stats.callCount / averageFanIn : 0),
+    }));
+    const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+    const score = weighted.reduce((sum, entry) => sum + entry.weight * entry.char.healthReport.score, 0) / totalWeight;
+
+    const contributors = weighted
+      .map(({ char, weight }) => ({
+        characterId: char.characterId,
+        score: char.healthReport.score,
+        weight: round(weight, 2),
+        cost: round(weight * (100 - char.healthReport.score) / totalWeight, 1),
+      }))
+      .sort((a, b) => b.cost - a.cost);
+
+    return { score: Math.round(score), contributors };
+  }
+
+  private add(factors: HealthFactor[], factor: string, value: number, reason: string): void {
+    const rounded = round(value, 1);
+    if (rounded !== 0) factors.push({ factor, value: rounded, reason });
+  }
+}
+
+function plural(count: number, noun: string, plural = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : plural}`;
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
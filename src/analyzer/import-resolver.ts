@@ -0,0 +1,101 @@
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext, LanguagePlugin, LanguageRegistry } from './language-plugin.js';
+import { builtinImportHooks } from './builtin-plugins.js';
+import { RustResolver } from './rust-resolver.js';
+
+/**
+ * Outcome of resolving one import specifier
+ */
+export interface ImportTarget {
+  moduleId?: string;               // Canonical module id when the import points inside the project
+  moduleIds?: string[];            // Member modules when the import names a whole package
+  external: boolean;               // Package or runtime builtin, not part of the project
+}
+
+/**
+ * Import Resolver - Maps raw import specifiers to canonical module ids
+ *
+ * The rules live in the language plugins (`indexImports`/`resolveImport`); this class hands them the
+ * project and keeps each plugin's index for the whole analysis.
+ */
+export class ImportResolver {
+  private readonly context: ImportContext;
+  private readonly fileToModuleId = new Map<string, string>();
+  private readonly indexes = new Map<NonNullable<LanguagePlugin['indexImports']>, unknown>();
+
+  constructor(
+    projectPath: string,
+    modules: CodeModule[],
+    private readonly registry: LanguageRegistry,
+    includeDirs: string[] = []
+  ) {
+    this.context = {
+      projectPath: path.resolve(projectPath),
+      modules,
+      includeDirs,
+      moduleIdForFile: file => this.fileToModuleId.get(path.posix.normalize(this.toPosix(file))),
+      resolveAs: (language, specifier, importer) => this.resolveAs(language, specifier, importer),
+    };
+
+    for (const module of modules) {
+      this.fileToModuleId.set(this.toPosix(module.path), module.id);
+      // Merged modules answer for each of their files
+      for (const file of module.files || []) {
+        this.fileToModuleId.set(this.toPosix(file), module.id);
+      }
+    }
+  }
+
+  /**
+   * Name of the crate a Rust module belongs to
+   */
+  getRustCrate(module: CodeModule): string | undefined {
+    const index = this.indexOf(builtinImportHooks('rust')!);
+    return index instanceof RustResolver ? index.crateOf(module) : undefined;
+  }
+
+  /**
+   * Resolve specifier imported by the given module (through its language plugin when it resolves imports)
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    const plugin = this.registry.forLanguage(importer.language);
+    if (plugin?.resolveImport) {
+      return plugin.resolveImport(specifier, importer, this.context, this.indexOf(plugin));
+    }
+
+    return this.resolveAs(importer.language, specifier, importer);
+  }
+
+  /**
+   * Built-in resolution rules of a language
+   */
+  private resolveAs(language: string, specifier: string, importer: CodeModule): ImportTarget {
+    const hooks = builtinImportHooks(language);
+    if (!hooks?.resolveImport) return { external: false };
+
+    return hooks.resolveImport(specifier, importer, this.context, this.indexOf(hooks));
+  }
+
+  /**
+   * Index built by a plugin's `indexImports`, once per analysis
+   *
+   * Plugins sharing the hook share the index (Java and Kotlin see each other's packages).
+   */
+  private indexOf(plugin: Pick<LanguagePlugin, 'indexImports'>): unknown {
+    const indexImports = plugin.indexImports;
+    if (!indexImports) return undefined;
+
+    if (!this.indexes.has(indexImports)) {
+      this.indexes.set(indexImports, indexImports(this.context));
+    }
+    return this.indexes.get(indexImports);
+  }
+
+  /**
+   * Normalize path separators
+   */
+  private toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+  }
+}
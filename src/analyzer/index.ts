@@ -4,10 +4,17 @@
  * Responsible for analyzing codebase structure, generating character personas and relationship networks
  */
 
-import { CodeParser } from './parser.js';
+import { CodeParser, ParserOptions } from './parser.js';
 import { CharacterGenerator } from './character-generator.js';
 import { RelationAnalyzer } from './relation-analyzer.js';
-import { AnalysisResult, CharacterPersona, DependencyRelation } from './types.js';
+import { HealthModel } from './health-model.js';
+import { AnalysisResult, CharacterIndex, CharacterPersona, CodeModule, DependencyRelation } from './types.js';
+import { defaultConfig, loadConfig, ResolvedConfig } from './config.js';
+import { loadLanguagePlugins } from './language-plugin.js';
+
+export interface AnalyzerOptions extends ParserOptions {
+  config?: ResolvedConfig;         // Project configuration (defaults when omitted); explicit parser options win
+}
 
 /**
  * Code Analyzer
@@ -16,13 +23,41 @@ export class CodeAnalyzer {
   private parser: CodeParser;
   private characterGenerator: CharacterGenerator;
   private relationAnalyzer: RelationAnalyzer;
-
-  constructor() {
-    this.parser = new CodeParser();
-    this.characterGenerator = new CharacterGenerator();
+  private healthModel: HealthModel;
+  readonly config: ResolvedConfig;
+
+  constructor(options: AnalyzerOptions = {}) {
+    const { config = defaultConfig, ...parserOptions } = options;
+    this.config = config;
+    this.parser = new CodeParser({
+      include: config.include,
+      exclude: config.exclude,
+      languages: config.languages,
+      gitignore: config.gitignore,
+      maxFileSize: config.maxFileSize,
+      ...parserOptions,
+    });
+    this.healthModel = new HealthModel(config.health);
+    this.characterGenerator = new CharacterGenerator(config.personality, this.healthModel, config.names);
     this.relationAnalyzer = new RelationAnalyzer();
   }
 
+  /**
+   * Create an analyzer honouring the project's `codeactor.config.{json,ts}`, including its plugins
+   *
+   * Plugins given in the options are registered after the config's, so they win.
+   */
+  static async forProject(projectPath: string, options: ParserOptions = {}): Promise<CodeAnalyzer> {
+    const config = await loadConfig(projectPath);
+    const configPlugins = await loadLanguagePlugins(config.plugins, projectPath);
+
+    return new CodeAnalyzer({
+      ...options,
+      plugins: [...configPlugins, ...(options.plugins || [])],
+      config,
+    });
+  }
+
   /**
    * Analyze project directory
    */
@@ -33,14 +68,16 @@ export class CodeAnalyzer {
     // 2. Generate character personas
     const characters = this.characterGenerator.generatePersonas(modules);
 
-    // 3. Analyze dependency relationships
+    // 3. Detect dependency cycles and analyze dependency relationships
+    const cycles = this.relationAnalyzer.detectCycles(modules, characters);
     const relations = this.relationAnalyzer.generateRelations(
       modules,
-      characters
+      characters,
+      cycles
     );
 
     // 4. Calculate project health score
-    const healthScore = this.calculateHealthScore(characters);
+    const health = this.healthModel.assessProject(characters);
 
     // 5. Identify main character
     const mainCharacter = this.identifyMainCharacter(characters, relations);
@@ -50,48 +87,43 @@ export class CodeAnalyzer {
       modules,
       characters,
       relations,
+      cycles,
+      characterIndex: this.buildCharacterIndex(modules, characters),
+      skippedFiles: this.parser.skippedFiles,
       summary: {
         totalModules: modules.length,
         totalRelations: relations.length,
-        healthScore,
+        healthScore: health.score,
+        health,
         mainCharacter,
       },
     };
   }
 
   /**
-   * Calculate project health score
+   * Build lookup tables so consumers can join characters, modules and relations
    */
-  private calculateHealthScore(characters: CharacterPersona[]): number {
-    if (characters.length === 0) return 100;
-
-    let totalScore = 0;
-    let totalWeight = 0;
-
-    for (const char of characters) {
-      // Bug risk weight (max deduction 40 points)
-      const bugRiskWeight = Math.min(char.stats.bugRisk * 4, 40);
-
-      // Complexity weight (max deduction 20 points)
-      const complexityWeight = Math.min(char.stats.complexity * 2, 20);
-
-      // Lines of code weight (deduction starts after 500 lines)
-      const sizeWeight = Math.max(
-        0,
-        Math.min((char.stats.linesOfCode - 500) / 50, 10)
-      );
-
-      // Call count bonus (max +10 points)
-      const callBonus = Math.min(char.stats.callCount, 10);
-
-      const charScore = 100 - bugRiskWeight - complexityWeight - sizeWeight + callBonus;
-      const weight = 1;
-
-      totalScore += charScore * weight;
-      totalWeight += weight;
+  private buildCharacterIndex(modules: CodeModule[], characters: CharacterPersona[]): CharacterIndex {
+    const index: CharacterIndex = { byFile: {}, byModuleId: {}, positions: {} };
+
+    characters.forEach((char, position) => {
+      index.byFile[char.originalFile] = char.characterId;
+      index.positions[char.characterId] = position;
+    });
+
+    for (const module of modules) {
+      const characterId = index.byFile[module.path];
+      if (characterId) {
+        index.byModuleId[module.id] = characterId;
+
+        // Package-level characters answer for each of their files
+        for (const file of module.files || []) {
+          index.byFile[file] = characterId;
+        }
+      }
     }
 
-    return Math.round(totalScore / totalWeight);
+    return index;
   }
 
   /**
@@ -112,16 +144,17 @@ export class CodeAnalyzer {
     }
 
     let maxDeps = 0;
-    let mainChar = '';
+    let mainCharId = '';
 
-    for (const [char, count] of dependencyCount) {
+    for (const [characterId, count] of dependencyCount) {
       if (count > maxDeps) {
         maxDeps = count;
-        mainChar = char;
+        mainCharId = characterId;
       }
     }
 
-    return mainChar || characters[0]?.name || '';
+    const mainChar = characters.find(c => c.characterId === mainCharId);
+    return mainChar?.name || characters[0]?.name || '';
   }
 
   /**
@@ -148,8 +181,9 @@ export class CodeAnalyzer {
     // Add nodes (characters)
     for (const char of analysis.characters) {
       const healthIcon = char.health === 'excellent' || char.health === 'good' ? '' : char.health === 'fair' ? '🤒' : char.health === 'poor' ? '🟠' : '🚨';
-      const label = `${healthIcon}${char.name}\\n${char.role}\\nLoC: ${char.stats.linesOfCode}`;
-      const safeId = char.originalFile.replace(/[\/\\.-]/g, '_');
+      const injuryIcon = char.diagnostics.length > 0 ? '🩹' : '';
+      const label = `${healthIcon}${injuryIcon}${char.name}\\n${char.role}\\nLoC: ${char.stats.linesOfCode}\\nHealth: ${char.healthReport.score}`;
+      const safeId = this.toMermaidId(char.characterId);
       output += `  ${safeId}["${label}"]\n`;
     }
 
@@ -162,19 +196,34 @@ export class CodeAnalyzer {
         secret: '#3498DB',
         fan: '#2ECC71',
         contract: '#95A5A6',
+        parent_child: '#F1C40F',
+        mentor: '#1ABC9C',
+        stage_parent: '#E91E63',
       };
 
       const color = colors[rel.relationType] || '#999999';
-      const fromId = rel.from.replace(/[\/\\.-]/g, '_');
-      const toId = rel.to.replace(/[\/\\.-]/g, '_');
+      const fromId = this.toMermaidId(rel.from);
+      const toId = this.toMermaidId(rel.to);
       const style = rel.strength > 0.7 ? ' style="bold,stroke-width:3"' : '';
 
-      output += `  ${fromId} -->|${style}${color}|${rel.description}|${toId}\n`;
+      // Class hierarchies and component trees use dotted arrows to stand apart from imports
+      const isFamily = rel.relationType === 'parent_child' || rel.relationType === 'mentor' ||
+        rel.relationType === 'stage_parent';
+      const arrow = isFamily ? '-.->' : '-->';
+
+      output += `  ${fromId} ${arrow}|${style}${color}|${rel.description}|${toId}\n`;
     }
 
     return output;
   }
 
+  /**
+   * Convert characterId to a Mermaid-safe node id
+   */
+  private toMermaidId(characterId: string): string {
+    return characterId.replace(/[^A-Za-z0-9_]/g, '_');
+  }
+
   /**
    * Export as narrative text
    */
@@ -226,16 +275,73 @@ export class CodeAnalyzer {
       output += '\n';
     }
 
+    const familyRelations = analysis.relations.filter(r =>
+      r.relationType === 'parent_child' || r.relationType === 'mentor' || r.relationType === 'stage_parent'
+    );
+
+    if (familyRelations.length > 0) {
+      output += '### 👪 Family Trees\n';
+      for (const rel of familyRelations) {
+        output += `- ${rel.description}\n`;
+      }
+      output += '\n';
+    }
+
+    if (analysis.cycles.length > 0) {
+      output += `### 💥 Drama Circles (${analysis.cycles.length} cycles)\n`;
+      for (const cycle of analysis.cycles) {
+        const names = cycle.members.map(id => {
+          const position = analysis.characterIndex.positions[id];
+          return analysis.characters[position]?.name || id;
+        });
+        output += `- **${cycle.label}** (${cycle.length} characters): ${names.join(', ')}\n`;
+      }
+      output += '\n';
+    }
+
+    const injuredCharacters = analysis.characters.filter(c => c.diagnostics.length > 0);
+    if (injuredCharacters.length > 0) {
+      output += `### 🩹 Injured Characters (${injuredCharacters.length})\n`;
+      for (const char of injuredCharacters) {
+        output += `- **${char.name}** (${char.originalFile}):\n`;
+        for (const diagnostic of char.diagnostics) {
+          output += `  - line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}\n`;
+        }
+      }
+      output += '\n';
+    }
+
+    if (analysis.skippedFiles.length > 0) {
+      output += `### 🙈 Skipped Files (${analysis.skippedFiles.length})\n`;
+      for (const skipped of analysis.skippedFiles) {
+        output += `- ${skipped.path}: ${skipped.reason} (${skipped.detail})\n`;
+      }
+      output += '\n';
+    }
+
     output += `## 🏥 Project Health: ${analysis.summary.healthScore}%\n`;
     output += `## 🎭 Main Character: ${analysis.summary.mainCharacter}\n`;
 
-    // Add characters needing attention
+    // Characters costing the project the most points, weighted by size and centrality
+    const costly = analysis.summary.health.contributors.filter(contributor => contributor.cost > 0).slice(0, 5);
+    if (costly.length > 0) {
+      output += '\n### 📉 Costing the Most Health:\n';
+      for (const contributor of costly) {
+        const char = analysis.characters[analysis.characterIndex.positions[contributor.characterId]];
+        output += `- ${char?.name || contributor.characterId}: -${contributor.cost} points (scores ${contributor.score}, weight ${contributor.weight})\n`;
+      }
+    }
+
+    // Add characters needing attention, with what to fix
     const unhealthyCharacters = analysis.characters.filter(c => c.health !== 'excellent' && c.health !== 'good');
     if (unhealthyCharacters.length > 0) {
       output += '\n### 🚑 Needs Attention:\n';
       for (const char of unhealthyCharacters) {
         const status = char.health === 'fair' ? 'Fair' : char.health === 'poor' ? 'Poor' : 'Critical';
-        output += `- ${char.name}: ${status}\n`;
+        output += `- ${char.name}: ${status} (${char.healthReport.score}/100)\n`;
+        for (const factor of char.healthReport.factors) {
+          output += `  - ${factor.value > 0 ? '+' : ''}${factor.value} ${factor.factor}: ${factor.reason}\n`;
+        }
       }
     }
 
@@ -245,3 +351,20 @@ export class CodeAnalyzer {
 
 // Re-export all types
 export * from './types.js';
+export type { ParserOptions } from './parser.js';
+
+// Project configuration
+export { loadConfig, resolveConfig, findConfigFile, defaultConfig, configFileNames } from './config.js';
+export type {
+  CodeActorConfig, ResolvedConfig, PersonalityConfig, NamesConfig, HealthConfig,
+  CharacterHealthWeights, ProjectHealthWeights, ExportFormat,
+} from './config.js';
+export { PersonalityEngine, createBuiltinPersonalityRules } from './personality-engine.js';
+export { HealthModel } from './health-model.js';
+export type { PersonalityRule, RuleConditions, ModuleFacts } from './personality-engine.js';
+
+// Language plugin API
+export { LanguageRegistry, loadLanguagePlugins } from './language-plugin.js';
+export type { LanguagePlugin, ImportContext } from './language-plugin.js';
+export type { ImportTarget } from './import-resolver.js';
+export type { SourceExtraction } from './typescript-extractor.js';
@@ -0,0 +1,361 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Type declaration with the extent of its body
+ */
+interface TypeDeclaration {
+  info: ClassInfo;
+  open: number;
+  close: number;
+  topLevel: boolean;
+}
+
+/**
+ * Java Extractor - Packages, imports, classes, interfaces, enums, records, methods and annotations
+ */
+export class JavaExtractor {
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'for', 'while', 'catch'],
+    switches: ['switch'],
+    cases: ['case'],
+  };
+
+  private readonly modifiers = '(?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp|synchronized|native|default|transient|volatile)\\s+)*';
+
+  // Statements that look like `type name(` but are not method declarations
+  private readonly notMethodNames = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'new', 'throw', 'else', 'synchronized']);
+
+  // Return types of methods that complete asynchronously
+  private readonly asyncReturnTypes = /^(?:CompletableFuture|CompletionStage|Future|ListenableFuture|Mono|Flux|Publisher|Single|Observable|Uni|Multi)\b/;
+
+  /**
+   * Extract package structure from Java source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const packageMatch = masked.match(/^\s*package\s+([\w.]+)\s*;/m);
+    const packageName = packageMatch ? packageMatch[1] : undefined;
+
+    const declarations = this.extractTypes(masked);
+    for (const declaration of declarations) {
+      declaration.info.methods = this.extractMethods(content, masked, declaration, declarations);
+    }
+
+    const classes = declarations.map(d => d.info);
+    const topLevel = declarations.filter(d => d.topLevel).map(d => d.info);
+
+    const importRanges: Array<[number, number]> = [];
+    const importBindings = this.extractImports(masked, importRanges);
+
+    // References are counted outside the import declarations
+    let body = masked;
+    for (const [start, end] of importRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+
+    const localNames = new Set(classes.map(c => c.name));
+    const explicitNames = new Set<string>();
+    for (const binding of importBindings) {
+      for (const symbol of binding.symbols) {
+        this.countReferences(body, symbol);
+        if (symbol.localName) explicitNames.add(symbol.localName);
+      }
+    }
+
+    // Wildcard imports and the own package expose every type they contain: offer each type
+    // name used here, resolution keeps those the package actually declares
+    const candidates = this.collectTypeNames(body).filter(name => !localNames.has(name) && !explicitNames.has(name));
+    const packageBindings = importBindings.filter(b => b.wildcard);
+    if (packageName) {
+      packageBindings.push({ specifier: `${packageName}.*`, symbols: [], wildcard: true });
+      importBindings.push(packageBindings[packageBindings.length - 1]);
+    }
+    for (const binding of packageBindings) {
+      binding.symbols = candidates.map(name => {
+        const symbol = this.createSymbol(name, name);
+        this.countReferences(body, symbol);
+        return symbol;
+      });
+    }
+
+    const whole = this.complexityAnalyzer.measureBlock(masked, this.controlFlow);
+    const methodCount = classes.reduce((sum, cls) => sum + cls.methods.filter(m => m.cyclomaticComplexity).length, 0);
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      // A wildcard nobody uses binds nothing
+      importBindings: importBindings.filter(b => !b.wildcard || b.symbols.length > 0),
+      exports: topLevel.map(cls => cls.name),
+      typeExports: topLevel
+        .filter(cls => cls.kind === 'interface' || cls.kind === 'annotation')
+        .map(cls => cls.name),
+      functions: [],
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, methodCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+      namespace: packageName,
+    };
+  }
+
+  /**
+   * `import a.b.C;`, `import a.b.*;`, `import static a.b.C.m;`, `import static a.b.C.*;`
+   */
+  private extractImports(masked: string, ranges: Array<[number, number]>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /^\s*import\s+(static\s+)?([\w.]+?)(\.\*)?\s*;/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+      const [, isStatic, name, wildcard] = match;
+
+      if (isStatic) {
+        // Static members live in the class named by all but the last segment
+        const owner = wildcard ? name : name.slice(0, name.lastIndexOf('.'));
+        const member = wildcard ? '*' : name.slice(name.lastIndexOf('.') + 1);
+        bindings.push({
+          specifier: owner,
+          symbols: [this.createSymbol(member, member === '*' ? '' : member)],
+        });
+      } else if (wildcard) {
+        // Symbols are filled in once the file's type references are known
+        bindings.push({ specifier: `${name}.*`, symbols: [], wildcard: true });
+      } else {
+        const simpleName = name.slice(name.lastIndexOf('.') + 1);
+        bindings.push({ specifier: name, symbols: [this.createSymbol(simpleName, simpleName)] });
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Capitalised identifiers that may name types from another file
+   */
+  private collectTypeNames(body: string): string[] {
+    const names = new Set<string>();
+    const regex = /(?<![\w.])([A-Z]\w*)\b/g;
+
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      // Constants such as MAX_SIZE are not types
+      if (!/^[A-Z0-9_]+$/.test(match[1]) || match[1].length === 1) {
+        names.add(match[1]);
+      }
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Count references, separating type positions from value uses
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName) return;
+
+    const regex = new RegExp(`(?<![\\w.])${symbol.localName}\\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 20), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 40);
+
+      // `new X(`, `X.call()`, `X::ref` and calls of static imports are value uses
+      if (/\bnew\s+$/.test(before) || /^\s*(?:\(|\.|::)/.test(after)) continue;
+      if (before.endsWith('@')) continue;
+
+      // A superclass is constructed with every instance (`class User extends Base`), unlike interfaces
+      const header = body.slice(Math.max(0, match.index - 200), match.index);
+      if (/\bclass\s+\w+\s*(?:<(?:[^<>]|<[^<>]*>)*>\s*)?extends\s+$/.test(header)) continue;
+
+      symbol.typeReferences++;
+    }
+  }
+
+  /**
+   * Find class, interface, enum, record and annotation declarations
+   */
+  private extractTypes(masked: string): TypeDeclaration[] {
+    const declarations: TypeDeclaration[] = [];
+    const regex = new RegExp(
+      `((?:@[\\w.]+(?:\\s*\\([^)]*\\))?\\s*)*)${this.modifiers}(class|interface|enum|record|@interface)\\s+(\\w+)([^{;]*)\\{`,
+      'g'
+    );
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      // `.class` literals and `record` used as an identifier are not declarations
+      const previous = masked[match.index - 1];
+      if (previous === '.' || (previous && /\w/.test(previous))) continue;
+
+      const [, annotations, keyword, name, header] = match;
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      // Record components and generic parameters would hide the real `extends`
+      const heritage = this.stripGenerics(header).replace(/^\s*\([^)]*\)/, '');
+
+      const kind = keyword === '@interface' ? 'annotation' : keyword as 'class' | 'interface' | 'enum' | 'record';
+      const extendsNames = this.readTypeList(heritage, 'extends');
+      const implementsNames = this.readTypeList(heritage, 'implements');
+
+      const info: ClassInfo = {
+        name,
+        kind,
+        // Interfaces extend interfaces, which is implementing a contract
+        extends: kind === 'interface' ? undefined : extendsNames[0],
+        implements: kind === 'interface' ? extendsNames : implementsNames,
+        methods: [],
+        annotations: this.readAnnotations(annotations),
+      };
+
+      declarations.push({
+        info,
+        open,
+        close: close === -1 ? masked.length : close,
+        topLevel: !declarations.some(d => open > d.open && open < d.close),
+      });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Methods and constructors declared directly in a type body
+   */
+  private extractMethods(
+    content: string,
+    masked: string,
+    declaration: TypeDeclaration,
+    declarations: TypeDeclaration[]
+  ): FunctionInfo[] {
+    const methods: FunctionInfo[] = [];
+    const regex = new RegExp(
+      `((?:@[\\w.]+(?:\\s*\\([^)]*\\))?\\s*)*)${this.modifiers}(?:<[^>]*>\\s+)?(?:([\\w.$]+(?:\\s*<[^;{()]*>)?(?:\\s*\\[\\s*\\])*)\\s+)?(\\w+)\\s*\\(`,
+      'g'
+    );
+
+    // Nested type bodies belong to their own declaration
+    const nested = declarations.filter(d => d !== declaration && d.open > declaration.open && d.close < declaration.close);
+    const depthAt = this.braceDepths(masked, declaration.open, declaration.close);
+
+    regex.lastIndex = declaration.open + 1;
+    let match;
+    while ((match = regex.exec(masked)) !== null && match.index < declaration.close) {
+      const [, annotations, returnType, name] = match;
+      const nameIndex = match.index + match[0].lastIndexOf(name);
+
+      if (depthAt(nameIndex) !== 1) continue;
+      if (nested.some(d => nameIndex > d.open && nameIndex < d.close)) continue;
+      if (this.notMethodNames.has(name) || (returnType && this.notMethodNames.has(returnType))) continue;
+
+      // Constructors have no return type and carry the type's name
+      const isConstructor = !returnType && name === declaration.info.name;
+      if (!returnType && !isConstructor) continue;
+
+      const paramsOpen = match.index + match[0].length - 1;
+      const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      const tail = masked.slice(paramsClose + 1);
+      const terminator = tail.search(/[{;=]/);
+      if (terminator === -1 || tail[terminator] === '=') continue;
+
+      const methodAnnotations = this.readAnnotations(annotations);
+      const info: FunctionInfo = {
+        name,
+        params: this.scanner.splitParams(masked.slice(paramsOpen + 1, paramsClose)),
+        async: this.asyncReturnTypes.test(returnType || '') || methodAnnotations.includes('Async'),
+        lines: 1,
+        kind: isConstructor ? 'constructor' : 'method',
+        annotations: methodAnnotations,
+      };
+
+      if (tail[terminator] === '{') {
+        const bodyOpen = paramsClose + 1 + terminator;
+        const bodyClose = this.scanner.findClosing(masked, bodyOpen);
+        const end = bodyClose === -1 ? declaration.close : bodyClose;
+        const measure = this.complexityAnalyzer.measureBlock(masked.slice(bodyOpen, end + 1), this.controlFlow);
+
+        info.lines = this.scanner.lineAt(content, end) - this.scanner.lineAt(content, match.index) + 1;
+        info.cyclomaticComplexity = measure.cyclomatic;
+        info.cognitiveComplexity = measure.cognitive;
+        regex.lastIndex = end;
+      }
+
+      methods.push(info);
+    }
+
+    return methods;
+  }
+
+  /**
+   * Brace depth lookup for positions inside [open, close], relative to the type body
+   */
+  private braceDepths(masked: string, open: number, close: number): (index: number) => number {
+    const depths = new Int32Array(close - open + 1);
+    let depth = 0;
+    for (let i = open; i <= close; i++) {
+      if (masked[i] === '{') depth++;
+      depths[i - open] = depth;
+      if (masked[i] === '}') depth--;
+    }
+    return index => depths[index - open] ?? -1;
+  }
+
+  /**
+   * Read `extends A, B<C>` / `implements D` lists from a declaration header
+   */
+  private readTypeList(header: string, keyword: string): string[] {
+    const match = header.match(new RegExp(`\\b${keyword}\\s+(.+?)(?=\\b(?:extends|implements|permits)\\b|$)`, 's'));
+    if (!match) return [];
+
+    return this.scanner.splitParams(match[1])
+      .map(type => type.replace(/<[\s\S]*$/, '').trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Remove `<...>` generic parameters (nested ones included)
+   */
+  private stripGenerics(text: string): string {
+    let result = text;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * Annotation names without arguments (`@Service`, `@RequestMapping("/x")` -> RequestMapping)
+   */
+  private readAnnotations(text: string | undefined): string[] {
+    if (!text) return [];
+    return [...text.matchAll(/@([\w.]+)/g)]
+      .map(match => match[1].split('.').pop()!)
+      .filter(name => name !== 'interface');
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,96 @@
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * Java Resolver - Maps imports to the project's Java and Kotlin packages
+ *
+ * Kotlin and Java share packages and see each other's declarations, so both languages use one index.
+ */
+export class JavaResolver extends LanguageResolver {
+  private readonly javaTypes = new Map<string, string>();
+  private readonly javaPackages = new Map<string, string[]>();
+
+  // Conventional source roots for files that declare no package
+  private readonly javaSourceRoots = ['src/main/java', 'src/test/java', 'src/main/kotlin', 'src/test/kotlin', 'src', 'java'];
+  private readonly jdkPrefixes = ['java.', 'javax.', 'jdk.', 'sun.', 'com.sun.', 'org.w3c.', 'org.xml.', 'org.ietf.', 'kotlin.', 'kotlinx.'];
+
+  constructor(context: ImportContext) {
+    super(context);
+    this.indexJavaTypes(this.modulesOf('java', 'kotlin'));
+  }
+
+  /**
+   * Resolve a fully qualified type (or `pkg.*`) against the project's Java packages
+   */
+  resolve(specifier: string): ImportTarget {
+    if (this.jdkPrefixes.some(prefix => specifier.startsWith(prefix))) {
+      return { external: true };
+    }
+
+    if (specifier.endsWith('.*')) {
+      const packageName = specifier.slice(0, -2);
+      const moduleIds = this.javaPackages.get(packageName) || this.javaTypes.has(packageName) && [this.javaTypes.get(packageName)!];
+      if (moduleIds) return { moduleIds, external: false };
+      return { external: !this.isProjectJavaPackage(packageName) };
+    }
+
+    // Nested types and static members: drop trailing segments until a type matches
+    const segments = specifier.split('.');
+    for (let length = segments.length; length >= 2; length--) {
+      const moduleId = this.javaTypes.get(segments.slice(0, length).join('.'));
+      if (moduleId) return { moduleId, external: false };
+    }
+
+    return { external: !this.isProjectJavaPackage(specifier) };
+  }
+
+  /**
+   * Whether a name lies inside a package the project declares (third-party code does not)
+   */
+  private isProjectJavaPackage(name: string): boolean {
+    return [...this.javaPackages.keys()].some(packageName =>
+      name === packageName || name.startsWith(packageName + '.') || packageName.startsWith(name + '.')
+    );
+  }
+
+  /**
+   * Index Java types by fully qualified name and files by package
+   *
+   * The package declaration is authoritative; files without one are placed by their path below
+   * a source root (learned from files whose package matches their directory, or a convention).
+   */
+  private indexJavaTypes(modules: CodeModule[]): void {
+    const roots = new Set<string>();
+
+    for (const module of modules) {
+      if (!module.namespace) continue;
+      const dir = path.posix.dirname(this.toPosix(module.path));
+      const packagePath = module.namespace.replace(/\./g, '/');
+      if (dir === packagePath) roots.add('');
+      else if (dir.endsWith('/' + packagePath)) roots.add(dir.slice(0, -packagePath.length - 1));
+    }
+
+    const sourceRoots = [...roots, ...this.javaSourceRoots].sort((a, b) => b.length - a.length);
+
+    for (const module of modules) {
+      const filePath = this.toPosix(module.path);
+      let packageName = module.namespace;
+
+      if (packageName === undefined) {
+        const dir = path.posix.dirname(filePath);
+        const root = sourceRoots.find(r => r === '' || dir === r || dir.startsWith(r + '/'));
+        const relative = root === undefined || root === dir ? '' : dir.slice(root ? root.length + 1 : 0);
+        packageName = relative.replace(/\//g, '.');
+      }
+
+      const typeNames = new Set([path.posix.basename(filePath, path.posix.extname(filePath)), ...module.exports]);
+      for (const typeName of typeNames) {
+        this.javaTypes.set(packageName ? `${packageName}.${typeName}` : typeName, module.id);
+      }
+      this.javaPackages.set(packageName, [...(this.javaPackages.get(packageName) || []), module.id]);
+    }
+  }
+}
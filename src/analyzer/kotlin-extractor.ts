@@ -0,0 +1,459 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Type declaration with the extent of its body
+ */
+interface TypeDeclaration {
+  info: ClassInfo;
+  open: number;                    // Index of `{` (-1 for declarations without a body)
+  close: number;
+  topLevel: boolean;
+  visible: boolean;                // Not `private` to its file
+}
+
+/**
+ * Kotlin Extractor - Packages, imports, classes, objects, interfaces, functions and `suspend` calls
+ */
+export class KotlinExtractor {
+  // Raw strings are listed as block comments so they are blanked in one piece
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/'], ['"""', '"""']],
+    quotes: ['"', "'"],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  // `when` arms are the cases; arrows outside `when` (lambdas, function types) are blanked first
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'for', 'while', 'catch'],
+    switches: ['when'],
+    cases: ['->'],
+  };
+
+  private readonly modifiers = '(?:(?:public|protected|private|internal|open|final|abstract|sealed|data|enum|annotation|inner|value|inline|expect|actual|companion|fun|external)\\s+)*';
+  private readonly functionModifiers = '(?:(?:public|protected|private|internal|open|final|abstract|override|suspend|inline|operator|infix|tailrec|external|expect|actual)\\s+)*';
+
+  // Return types of functions that complete asynchronously
+  private readonly asyncReturnTypes = /^(?:Deferred|Flow|StateFlow|SharedFlow|Job|CompletableFuture|Mono|Flux|Single|Observable)\b/;
+
+  private readonly keywords = new Set([
+    'if', 'for', 'while', 'when', 'catch', 'return', 'throw', 'fun', 'object', 'super', 'this', 'constructor', 'init',
+    'listOf', 'mapOf', 'setOf', 'println', 'require', 'check', 'error', 'run', 'let', 'apply', 'also', 'with', 'lazy',
+  ]);
+
+  /**
+   * Extract package structure from Kotlin source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const packageMatch = masked.match(/^\s*package\s+([\w.`]+)/m);
+    const packageName = packageMatch ? packageMatch[1].replace(/`/g, '') : undefined;
+
+    const declarations = this.extractTypes(content, masked);
+    const functions: FunctionInfo[] = [];
+    const topLevelFunctions: string[] = [];
+
+    for (const { info, open, visible } of this.extractFunctions(content, masked)) {
+      const owner = declarations
+        .filter(d => d.open !== -1 && open > d.open && open < d.close)
+        .sort((a, b) => b.open - a.open)[0];
+
+      if (!owner) {
+        info.kind = 'function';
+        functions.push(info);
+        if (visible) topLevelFunctions.push(info.name);
+      } else if (this.depthWithin(masked, owner.open, open) === 1) {
+        owner.info.methods.push(info);
+      }
+    }
+
+    const classes = declarations.map(d => d.info);
+    const topLevel = declarations.filter(d => d.topLevel && d.visible).map(d => d.info);
+    const typeAliases = [...masked.matchAll(/^\s*(?:(?:public|internal)\s+)?typealias\s+(\w+)/gm)].map(m => m[1]);
+
+    const importRanges: Array<[number, number]> = [];
+    const importBindings = this.extractImports(masked, importRanges);
+
+    // References are counted outside the import directives
+    let body = masked;
+    for (const [start, end] of importRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+
+    const localNames = new Set([...classes.map(c => c.name), ...functions.map(f => f.name)]);
+    const explicitNames = new Set<string>();
+    for (const binding of importBindings) {
+      for (const symbol of binding.symbols) {
+        this.countReferences(body, symbol);
+        if (symbol.localName) explicitNames.add(symbol.localName);
+      }
+    }
+
+    // Star imports and the own package expose types and top-level functions: offer each name
+    // used here, resolution keeps those the package actually declares
+    const candidates = this.collectNames(body).filter(name => !localNames.has(name) && !explicitNames.has(name));
+    const packageBindings = importBindings.filter(b => b.wildcard);
+    if (packageName) {
+      packageBindings.push({ specifier: `${packageName}.*`, symbols: [], wildcard: true });
+      importBindings.push(packageBindings[packageBindings.length - 1]);
+    }
+    for (const binding of packageBindings) {
+      binding.symbols = candidates.map(name => {
+        const symbol = this.createSymbol(name, name);
+        this.countReferences(body, symbol);
+        return symbol;
+      });
+    }
+
+    const whole = this.complexityAnalyzer.measureBlock(this.blankLambdaArrows(masked), this.controlFlow);
+    const bodies = [...functions, ...classes.flatMap(cls => cls.methods)].filter(fn => fn.cyclomaticComplexity).length;
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      // A star import nobody uses binds nothing
+      importBindings: importBindings.filter(b => !b.wildcard || b.symbols.length > 0),
+      exports: [...topLevel.map(cls => cls.name), ...topLevelFunctions, ...typeAliases],
+      typeExports: [
+        ...topLevel.filter(cls => cls.kind === 'interface' || cls.kind === 'annotation').map(cls => cls.name),
+        ...typeAliases,
+      ],
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, bodies + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+      namespace: packageName,
+    };
+  }
+
+  /**
+   * `import a.b.C`, `import a.b.*`, `import a.b.C as D`, `import a.b.topLevelFunction`
+   */
+  private extractImports(masked: string, ranges: Array<[number, number]>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /^[ \t]*import\s+([\w.`]+?)(\.\*)?(?:\s+as\s+(\w+))?[ \t]*;?[ \t]*$/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+      const [, rawName, wildcard, alias] = match;
+      const name = rawName.replace(/`/g, '');
+
+      if (wildcard) {
+        // Symbols are filled in once the file's references are known
+        bindings.push({ specifier: `${name}.*`, symbols: [], wildcard: true });
+      } else {
+        const simpleName = name.slice(name.lastIndexOf('.') + 1);
+        bindings.push({ specifier: name, symbols: [this.createSymbol(simpleName, alias || simpleName)] });
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Capitalised types and called functions that may come from another file of a package
+   */
+  private collectNames(body: string): string[] {
+    const names = new Set<string>();
+
+    for (const match of body.matchAll(/(?<![\w.])([A-Z]\w*)\b/g)) {
+      // Constants such as MAX_SIZE are not types
+      if (!/^[A-Z0-9_]+$/.test(match[1]) || match[1].length === 1) names.add(match[1]);
+    }
+
+    for (const match of body.matchAll(/(?<![\w.])([a-z_]\w*)\s*\(/g)) {
+      if (!this.keywords.has(match[1])) names.add(match[1]);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Count references, separating type positions from value uses
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName) return;
+
+    const regex = new RegExp(`(?<![\\w.])${symbol.localName}\\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 20), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 40);
+
+      // Constructor calls `X(` or `X<T>(` (a superclass too), `X.member`, `X::ref` and annotations are value uses
+      if (/^\s*(?:<(?:[^<>]|<[^<>]*>)*>\s*)?\(|^\s*(?:\.|::|\{)/.test(after) || before.endsWith('@')) continue;
+
+      symbol.typeReferences++;
+    }
+  }
+
+  /**
+   * Find class, interface, object, enum and annotation declarations with their supertypes
+   */
+  private extractTypes(content: string, masked: string): TypeDeclaration[] {
+    const declarations: TypeDeclaration[] = [];
+    const regex = new RegExp(
+      `((?:@[\\w.]+(?:\\s*\\([^)]*\\))?\\s*)*)(${this.modifiers})(class|interface|object)\\b(?:\\s+(\\w+))?`,
+      'g'
+    );
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      // `X::class` literals and `object :` expressions are not declarations
+      const previous = masked.slice(0, match.index).trimEnd().slice(-1);
+      if (previous === ':' || previous === '.' || /\w/.test(masked[match.index - 1] || '')) continue;
+
+      const [, annotations, modifiers, keyword, declaredName] = match;
+      const isCompanion = /\bcompanion\b/.test(modifiers);
+      if (!declaredName && !isCompanion) continue;
+
+      let cursor = match.index + match[0].length;
+      const { headerEnd, open } = this.findHeaderEnd(masked, cursor);
+      const close = open === -1 ? headerEnd : this.scanner.findClosing(masked, open);
+
+      const info: ClassInfo = {
+        name: declaredName || 'Companion',
+        kind: this.typeKind(keyword, modifiers),
+        implements: [],
+        methods: [],
+        annotations: this.readAnnotations(annotations),
+      };
+
+      const generics = masked.slice(cursor, headerEnd).match(/^\s*</);
+      if (generics) {
+        const end = this.scanner.findClosing(masked, cursor + generics[0].length - 1);
+        if (end !== -1 && end < headerEnd) cursor = end + 1;
+      }
+
+      // The primary constructor declares the properties the class is built from
+      const constructor = masked.slice(cursor, headerEnd)
+        .match(/^\s*(?:(?:@\w+\s*)*(?:public|private|protected|internal)?\s*constructor\s*)?\(/);
+      if (constructor) {
+        const paramsOpen = cursor + constructor[0].length - 1;
+        const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+        if (paramsClose !== -1) {
+          info.methods.push({
+            name: info.name,
+            params: this.scanner.splitParams(content.slice(paramsOpen + 1, paramsClose)),
+            async: false,
+            lines: 1,
+            kind: 'constructor',
+          });
+          cursor = paramsClose + 1;
+        }
+      }
+
+      this.readSupertypes(this.stripGenerics(masked.slice(cursor, headerEnd)), info);
+
+      declarations.push({
+        info,
+        open,
+        close: close === -1 ? masked.length : close,
+        topLevel: !declarations.some(d => d.open !== -1 && match!.index > d.open && match!.index < d.close),
+        visible: !/\bprivate\b/.test(modifiers),
+      });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Map the declaration keyword and modifiers to a class kind
+   */
+  private typeKind(keyword: string, modifiers: string): ClassInfo['kind'] {
+    if (keyword === 'interface') return 'interface';
+    if (/\benum\b/.test(modifiers)) return 'enum';
+    if (/\bannotation\b/.test(modifiers)) return 'annotation';
+    if (/\bdata\b/.test(modifiers)) return 'record';
+    return 'class';
+  }
+
+  /**
+   * `: Base(args), Iface, Other by delegate` - the supertype that is called is the superclass
+   */
+  private readSupertypes(heritage: string, info: ClassInfo): void {
+    const match = heritage.match(/^\s*:\s*([\s\S]*?)(?:\bwhere\b|$)/);
+    if (!match) return;
+
+    for (const entry of this.scanner.splitParams(match[1])) {
+      const name = entry.match(/^[\w.]+/)?.[0];
+      if (!name) continue;
+
+      const simpleName = name.slice(name.lastIndexOf('.') + 1);
+      if (info.kind !== 'interface' && /^[\w.]+\s*(?:<(?:[^<>]|<[^<>]*>)*>\s*)?\(/.test(entry) && !info.extends) {
+        info.extends = simpleName;
+      } else {
+        info.implements.push(simpleName);
+      }
+    }
+  }
+
+  /**
+   * Find where a declaration header ends: its body `{`, or the end of its statement
+   */
+  private findHeaderEnd(masked: string, from: number): { headerEnd: number; open: number } {
+    let depth = 0;
+
+    for (let i = from; i < masked.length; i++) {
+      const char = masked[i];
+      if ('(<['.includes(char)) depth++;
+      else if (')>]'.includes(char) && masked[i - 1] !== '-') depth--;
+      else if (depth === 0 && char === '{') return { headerEnd: i, open: i };
+      else if (depth === 0 && (char === '}' || char === ';')) return { headerEnd: i, open: -1 };
+      else if (depth === 0 && char === '\n') {
+        // Supertype lists and `where` clauses may continue on the next line
+        const before = masked.slice(from, i).trimEnd();
+        const next = masked.slice(i + 1).match(/^\s*(\S+)/)?.[1] || '';
+        if (!/[:,]$/.test(before) && !/^(?:[:,{]|where\b)/.test(next)) return { headerEnd: i, open: -1 };
+      }
+    }
+
+    return { headerEnd: masked.length, open: -1 };
+  }
+
+  /**
+   * Functions with a block or expression body and abstract/interface signatures
+   */
+  private extractFunctions(content: string, masked: string): Array<{ info: FunctionInfo; open: number; visible: boolean }> {
+    const functions: Array<{ info: FunctionInfo; open: number; visible: boolean }> = [];
+    const regex = new RegExp(
+      `((?:@[\\w.]+(?:\\s*\\([^)]*\\))?\\s*)*)(${this.functionModifiers})fun\\s+(?:<[^>]*>\\s*)?(?:[\\w?.<>*, ]*?\\.)?(\\w+|\`[^\`]+\`)\\s*\\(`,
+      'g'
+    );
+    const flow = this.blankLambdaArrows(masked);
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      if (/\w/.test(masked[match.index - 1] || '')) continue;
+
+      const [, annotations, modifiers, rawName] = match;
+      const paramsOpen = match.index + match[0].length - 1;
+      const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      // The return type runs up to the body (`{` or `=`) or the end of the line
+      const tail = masked.slice(paramsClose + 1);
+      const terminator = tail.search(/[{=\n;}]/);
+      const returnType = tail.slice(0, terminator === -1 ? tail.length : terminator).replace(/^\s*:\s*/, '').trim();
+
+      const info: FunctionInfo = {
+        name: rawName.replace(/`/g, ''),
+        params: this.scanner.splitParams(content.slice(paramsOpen + 1, paramsClose)),
+        async: /\bsuspend\b/.test(modifiers) || this.asyncReturnTypes.test(returnType),
+        lines: 1,
+        kind: 'method',
+        annotations: this.readAnnotations(annotations),
+      };
+
+      const bodyStart = terminator === -1 ? -1 : paramsClose + 1 + terminator;
+      const bodyEnd = bodyStart === -1 ? -1
+        : tail[terminator] === '{' ? this.scanner.findClosing(masked, bodyStart)
+        : tail[terminator] === '=' ? this.expressionEnd(masked, bodyStart + 1)
+        : -1;
+
+      if (bodyEnd !== -1) {
+        const measure = this.complexityAnalyzer.measureBlock(flow.slice(bodyStart, bodyEnd + 1), this.controlFlow);
+        info.lines = this.scanner.lineAt(content, bodyEnd) - this.scanner.lineAt(content, match.index) + 1;
+        info.cyclomaticComplexity = measure.cyclomatic;
+        info.cognitiveComplexity = measure.cognitive;
+      }
+
+      functions.push({ info, open: paramsOpen, visible: !/\bprivate\b/.test(modifiers) });
+    }
+
+    return functions;
+  }
+
+  /**
+   * End of an expression body: the first line break outside brackets
+   */
+  private expressionEnd(masked: string, from: number): number {
+    let depth = 0;
+    for (let i = from; i < masked.length; i++) {
+      const char = masked[i];
+      if ('({['.includes(char)) depth++;
+      else if (')}]'.includes(char)) {
+        // The enclosing class body ends the expression too
+        if (depth === 0) return i - 1;
+        depth--;
+      } else if (char === '\n' && depth === 0 && !/^\s*[.?:]/.test(masked.slice(i + 1, i + 20))) {
+        return i;
+      }
+    }
+    return masked.length - 1;
+  }
+
+  /**
+   * Brace depth of index relative to the body opened at open (1 = directly inside)
+   */
+  private depthWithin(masked: string, open: number, index: number): number {
+    let depth = 0;
+    for (let i = open; i < index; i++) {
+      if (masked[i] === '{') depth++;
+      if (masked[i] === '}') depth--;
+    }
+    return depth;
+  }
+
+  /**
+   * Blank `->` everywhere except directly inside `when` bodies, where it separates the arms
+   */
+  private blankLambdaArrows(masked: string): string {
+    const output = masked.split('');
+    const arms = new Set<number>();
+
+    for (const match of masked.matchAll(/\bwhen\b\s*(?:\([^)]*\)\s*)?\{/g)) {
+      const open = match.index! + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      let depth = 0;
+      for (let i = open; i < (close === -1 ? masked.length : close); i++) {
+        if ('({['.includes(masked[i])) depth++;
+        if (')}]'.includes(masked[i])) depth--;
+        if (depth === 1 && masked.startsWith('->', i)) arms.add(i);
+      }
+    }
+
+    for (let i = masked.indexOf('->'); i !== -1; i = masked.indexOf('->', i + 2)) {
+      if (!arms.has(i)) output[i] = output[i + 1] = ' ';
+    }
+
+    return output.join('');
+  }
+
+  /**
+   * Remove `<...>` generic parameters (nested ones included)
+   */
+  private stripGenerics(text: string): string {
+    let result = text;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * Annotation names without arguments (`@Composable`, `@GetMapping("/x")` -> GetMapping)
+   */
+  private readAnnotations(text: string | undefined): string[] {
+    if (!text) return [];
+    return [...text.matchAll(/@([\w.]+)/g)].map(match => match[1].split('.').pop()!);
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,157 @@
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { CodeModule } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { ImportTarget } from './import-resolver.js';
+
+/**
+ * What a plugin may use while resolving an import
+ */
+export interface ImportContext {
+  projectPath: string;             // Absolute project root
+  modules: CodeModule[];           // Every parsed module
+  includeDirs: string[];           // Extra C/C++ include directories (project-relative or absolute)
+  moduleIdForFile(projectRelativePath: string): string | undefined;  // Module id of a project file (posix path)
+  resolveAs(language: string, specifier: string, importer: CodeModule): ImportTarget;  // Built-in resolution of a language
+}
+
+/**
+ * Language Plugin - Everything CodeParser needs to know about one language
+ *
+ * Plugins without `resolveImport` use the built-in resolution of their language id, if there is one;
+ * otherwise their imports are neither resolved nor reported as unresolved. `indexImports` runs once per
+ * analysis, before the first import is resolved, and its result is handed to every `resolveImport` call.
+ */
+export interface LanguagePlugin<Index = unknown> {
+  id: string;                      // Language id stored on modules ('ruby', 'workflow-yaml')
+  extensions: string[];            // File name endings, compound ones allowed ('.rb', '.workflow.yml')
+  parse(content: string, filePath: string): SourceExtraction;
+  indexImports?(context: ImportContext): Index;
+  resolveImport?(specifier: string, importer: CodeModule, context: ImportContext, index: Index): ImportTarget;
+  moduleType?(relativePath: string, extraction: SourceExtraction): string | undefined;  // Overrides the path-based type
+}
+
+/**
+ * Language Registry - Looks plugins up by file name and language id
+ *
+ * Later registrations win, so a third-party plugin can replace a built-in language or extension.
+ */
+export class LanguageRegistry {
+  private readonly plugins: LanguagePlugin[] = [];
+
+  constructor(plugins: LanguagePlugin[] = []) {
+    plugins.forEach(plugin => this.register(plugin));
+  }
+
+  /**
+   * Add a plugin, validating its shape
+   */
+  register(plugin: LanguagePlugin): void {
+    this.plugins.unshift(validatePlugin(plugin, 'registered plugin'));
+  }
+
+  /**
+   * Plugin handling a file, by its longest matching extension
+   */
+  forFile(fileName: string): LanguagePlugin | undefined {
+    return this.match(fileName)?.[0];
+  }
+
+  /**
+   * Extension of a file as registered by its plugin ('.vue', '.workflow.yml'), in the file's own case
+   */
+  extensionOf(fileName: string): string | undefined {
+    const match = this.match(fileName);
+    return match ? fileName.slice(fileName.length - match[1]) : undefined;
+  }
+
+  /**
+   * Plugin with the longest extension matching a file name, and that extension's length
+   */
+  private match(fileName: string): [LanguagePlugin, number] | undefined {
+    const lowerName = fileName.toLowerCase();
+    let best: [LanguagePlugin, number] | undefined;
+
+    for (const plugin of this.plugins) {
+      for (const extension of plugin.extensions) {
+        if (lowerName.endsWith(extension.toLowerCase()) && extension.length > (best?.[1] || 0)) {
+          best = [plugin, extension.length];
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Ids of every registered language
+   */
+  get languages(): string[] {
+    return [...new Set(this.plugins.map(plugin => plugin.id))];
+  }
+
+  /**
+   * Plugin registered for a language id
+   */
+  forLanguage(id: string): LanguagePlugin | undefined {
+    return this.plugins.find(plugin => plugin.id === id);
+  }
+}
+
+/**
+ * Load plugins by npm package name or path, resolved from the project like its own dependencies
+ *
+ * A module may export a plugin, an array of plugins, or a function returning either
+ * (as its default export or as `plugin`/`plugins`).
+ */
+export async function loadLanguagePlugins(specifiers: string[], projectPath: string): Promise<LanguagePlugin[]> {
+  const projectRequire = createRequire(path.join(path.resolve(projectPath), 'package.json'));
+  const plugins: LanguagePlugin[] = [];
+
+  for (const specifier of specifiers) {
+    let resolved: string;
+    try {
+      const local = specifier.startsWith('.') || path.isAbsolute(specifier);
+      resolved = projectRequire.resolve(local ? path.resolve(projectPath, specifier) : specifier);
+    } catch {
+      throw new Error(`Language plugin "${specifier}" not found (install it in the project or give a path)`);
+    }
+
+    const loaded = await import(pathToFileURL(resolved).href);
+    let exported = loaded.default ?? loaded.plugins ?? loaded.plugin;
+    if (typeof exported === 'function') exported = await exported();
+
+    const candidates = Array.isArray(exported) ? exported : [exported];
+    plugins.push(...candidates.map(candidate => validatePlugin(candidate, `"${specifier}"`)));
+  }
+
+  return plugins;
+}
+
+/**
+ * Check that a value implements LanguagePlugin, naming the offending field otherwise
+ */
+function validatePlugin(candidate: unknown, source: string): LanguagePlugin {
+  const plugin = candidate as Partial<LanguagePlugin> | undefined;
+
+  if (!plugin || typeof plugin !== 'object') {
+    throw new Error(`Language plugin ${source} does not export a plugin object`);
+  }
+  if (typeof plugin.id !== 'string' || !plugin.id) {
+    throw new Error(`Language plugin ${source} needs a string "id"`);
+  }
+  if (!Array.isArray(plugin.extensions) || plugin.extensions.some(ext => typeof ext !== 'string' || !ext.startsWith('.'))) {
+    throw new Error(`Language plugin "${plugin.id}" needs "extensions" like [".ext"]`);
+  }
+  if (typeof plugin.parse !== 'function') {
+    throw new Error(`Language plugin "${plugin.id}" needs a "parse(content, filePath)" function`);
+  }
+  for (const hook of ['indexImports', 'resolveImport', 'moduleType'] as const) {
+    if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+      throw new Error(`Language plugin "${plugin.id}": "${hook}" must be a function`);
+    }
+  }
+
+  return plugin as LanguagePlugin;
+}
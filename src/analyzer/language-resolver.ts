@@ -0,0 +1,57 @@
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+
+/**
+ * Language Resolver - Base of the built-in import resolution rules
+ *
+ * A subclass indexes what its language needs in the constructor (run once per analysis) and then
+ * maps each specifier to the module ids it names.
+ */
+export abstract class LanguageResolver {
+  constructor(protected readonly context: ImportContext) {}
+
+  /**
+   * Resolve specifier imported by the given module
+   */
+  abstract resolve(specifier: string, importer: CodeModule): ImportTarget;
+
+  /**
+   * Module id of a project-relative file path
+   */
+  protected moduleIdForFile(filePath: string): string | undefined {
+    return this.context.moduleIdForFile(filePath);
+  }
+
+  /**
+   * Project modules written in one of the given languages
+   */
+  protected modulesOf(...languages: string[]): CodeModule[] {
+    return this.context.modules.filter(module => languages.includes(module.language));
+  }
+
+  /**
+   * Project-relative directory of a file ('' for the project root)
+   */
+  protected dirOf(filePath: string): string {
+    const dir = path.posix.dirname(this.toPosix(filePath));
+    return dir === '.' ? '' : dir;
+  }
+
+  /**
+   * Convert absolute path to project-relative posix path (null when outside the project)
+   */
+  protected toProjectPath(absolutePath: string): string | null {
+    const relative = path.relative(this.context.projectPath, absolutePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return this.toPosix(relative);
+  }
+
+  /**
+   * Normalize path separators
+   */
+  protected toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+  }
+}
@@ -1,17 +1,66 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { CodeModule, FunctionInfo, ClassInfo } from './types.js';
+import { CodeModule, FunctionInfo, ImportBinding, ImportedSymbol, SkippedFile } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { LanguagePlugin, LanguageRegistry } from './language-plugin.js';
+import { createBuiltinPlugins } from './builtin-plugins.js';
+import { ImportResolver } from './import-resolver.js';
+import { ComplexityAnalyzer, ComplexityMeasure } from './complexity-analyzer.js';
+import { GlobSet } from './glob.js';
+import { configFileNames, defaultConfig } from './config.js';
+import { FileDiscovery } from './file-discovery.js';
+
+/**
+ * Options controlling how source files become modules
+ */
+export interface ParserOptions {
+  goPackageCharacters?: boolean;   // One character per Go package instead of per file
+  includeDirs?: string[];          // Extra C/C++ include directories (project-relative or absolute)
+  mergeHeaderPairs?: boolean;      // One character per C/C++ header + implementation pair
+  plugins?: LanguagePlugin[];      // Extra languages, registered after (and overriding) the built-in ones
+  include?: string[];              // Globs of files to analyze (every supported file when empty)
+  exclude?: string[];              // Globs of files and directories to skip (replaces the built-in ignore list)
+  languages?: string[];            // Language ids to analyze (every registered language when empty)
+  gitignore?: boolean;             // Honour .gitignore files (default true; .codeactorignore always applies)
+  maxFileSize?: number;            // Bytes above which a file is skipped (default 1 MiB)
+}
 
 /**
  * Code Parser - Supports multiple programming languages
  */
 export class CodeParser {
+  private readonly registry: LanguageRegistry;
+  private readonly include: GlobSet;
+  private readonly discovery: FileDiscovery;
+  private skipped: SkippedFile[] = [];
+
+  private readonly headerExtensions = ['.h', '.hh', '.hpp', '.hxx'];
+  private readonly implementationExtensions = ['.c', '.cc', '.cpp', '.cxx'];
+
+  constructor(private readonly options: ParserOptions = {}) {
+    // Third-party plugins are registered last so they can take over built-in extensions
+    this.registry = new LanguageRegistry([...createBuiltinPlugins(), ...(options.plugins || [])]);
+    this.include = new GlobSet(options.include || []);
+    this.discovery = new FileDiscovery({
+      isCodeFile: relativePath => this.isAnalyzed(relativePath),
+      exclude: options.exclude || defaultConfig.exclude,
+      gitignore: options.gitignore ?? defaultConfig.gitignore,
+      maxFileSize: options.maxFileSize ?? defaultConfig.maxFileSize,
+    });
+
+    const unknown = (options.languages || []).filter(id => !this.registry.forLanguage(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown language ${unknown.map(id => `"${id}"`).join(', ')} (available: ${this.registry.languages.join(', ')})`);
+    }
+  }
+
   /**
    * Parse entire project directory
    */
   parseProject(projectPath: string): CodeModule[] {
-    const modules: CodeModule[] = [];
-    const files = this.getAllCodeFiles(projectPath);
+    let modules: CodeModule[] = [];
+    const { files, skipped } = this.discovery.discover(projectPath);
+    this.skipped = skipped;
 
     for (const file of files) {
       try {
@@ -24,375 +73,431 @@ export class CodeParser {
       }
     }
 
+    if (this.options.goPackageCharacters) {
+      modules = this.mergeGoPackages(modules);
+    }
+
+    if (this.options.mergeHeaderPairs) {
+      modules = this.mergeHeaderPairs(modules);
+    }
+
+    this.ensureUniqueIds(modules);
+    this.resolveImports(modules, projectPath);
+
     return modules;
   }
 
   /**
-   * Get all code files in project
+   * Replace raw import specifiers with canonical module ids
    */
-  private getAllCodeFiles(dir: string, baseDir?: string): string[] {
-    const files: string[] = [];
-    const basePath = baseDir || dir;
-
-    try {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-      // Filter out node_modules, dist, and other directories
-      const ignoreDirs = ['node_modules', 'dist', 'build', '.git', 'coverage', 'target', '__pycache__', '.venv', 'venv'];
+  private resolveImports(modules: CodeModule[], projectPath: string): void {
+    const resolver = new ImportResolver(projectPath, modules, this.registry, this.options.includeDirs);
+    const moduleById = new Map(modules.map(m => [m.id, m]));
 
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
+    for (const module of modules) {
+      const bindings: ImportBinding[] = [];
+      const unresolved: string[] = [];
 
-        if (entry.isDirectory()) {
-          if (!ignoreDirs.includes(entry.name)) {
-            files.push(...this.getAllCodeFiles(fullPath, basePath));
-          }
-        } else if (entry.isFile()) {
-          const ext = path.extname(entry.name).toLowerCase();
-          const codeExtensions = ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rs', '.cs', '.php'];
+      // Each crate of a Cargo workspace forms its own cluster
+      if (module.language === 'rust') {
+        module.cluster = resolver.getRustCrate(module);
+      }
 
-          if (codeExtensions.includes(ext)) {
-            files.push(fullPath);
-          }
+      for (const binding of module.importBindings) {
+        const target = resolver.resolve(binding.specifier, module);
+
+        if (target.moduleIds) {
+          bindings.push(...this.splitPackageBinding(binding, target.moduleIds, moduleById));
+        } else if (target.moduleId && binding.wildcard) {
+          // An include stays even when none of the guessed names is declared by the header
+          const targetModule = moduleById.get(target.moduleId);
+          const symbols = binding.symbols.filter(symbol => this.declares(targetModule, symbol.name));
+          bindings.push({ ...binding, moduleId: target.moduleId, symbols });
+        } else if (target.moduleId) {
+          bindings.push({ ...binding, moduleId: target.moduleId });
+        } else if (!target.external) {
+          unresolved.push(binding.specifier);
         }
       }
-    } catch (error) {
-      // Ignore directories without permission
-    }
 
-    return files;
+      // Only bindings into the project are kept
+      module.importBindings = bindings.filter(b => b.moduleId !== module.id);
+      module.imports = [...new Set(module.importBindings.map(b => b.moduleId!))];
+      module.unresolvedImports = [...new Set(unresolved)];
+    }
   }
 
   /**
-   * Parse single file
+   * Split a package import into one binding per member file that declares the used symbols
    */
-  private parseFile(filePath: string, basePath: string): CodeModule | null {
-    const ext = path.extname(filePath).toLowerCase();
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const relativePath = path.relative(basePath, filePath);
-    const language = this.detectLanguage(ext);
+  private splitPackageBinding(
+    binding: ImportBinding,
+    moduleIds: string[],
+    moduleById: Map<string, CodeModule>
+  ): ImportBinding[] {
+    // Guessed wildcard symbols are kept only where a member file declares them
+    if (moduleIds.length === 1 && !binding.wildcard) {
+      return [{ ...binding, moduleId: moduleIds[0] }];
+    }
 
-    if (!content.trim()) {
-      return null;
+    const perModule = new Map<string, ImportedSymbol[]>();
+
+    // Imported only for side effects: every file of the package is involved
+    if (binding.symbols.length === 0) {
+      moduleIds.forEach(id => perModule.set(id, []));
     }
 
-    const module: CodeModule = {
-      id: this.generateModuleId(relativePath),
-      path: relativePath,
-      type: this.detectModuleType(relativePath),
-      language,
-      imports: this.extractImports(content, language),
-      exports: this.extractExports(content, language),
-      functions: this.extractFunctions(content, language),
-      classes: this.extractClasses(content, language),
-      metadata: {
-        lines: content.split('\n').length,
-        hasErrors: false,
-        complexity: this.calculateComplexity(content),
-      },
-    };
+    // A name declared in several files (C# partial types) binds to every part
+    for (const symbol of binding.symbols) {
+      const targets = symbol.name === '*'
+        ? moduleIds
+        : moduleIds.filter(id => this.declares(moduleById.get(id), symbol.name));
 
-    return module;
+      for (const id of targets) {
+        perModule.set(id, [...(perModule.get(id) || []), symbol]);
+      }
+    }
+
+    return [...perModule].map(([moduleId, symbols]) => ({ ...binding, moduleId, symbols }));
   }
 
   /**
-   * Generate unique module ID
+   * Check whether a module declares a top-level name
    */
-  private generateModuleId(path: string): string {
-    return path.replace(/[\/\\]/g, '.').replace(/\.(ts|js|py|java|go|rs|tsx|jsx|cs|php)$/, '');
+  private declares(module: CodeModule | undefined, name: string): boolean {
+    // Swift extensions add to a type declared elsewhere
+    return !!module && (
+      module.exports.includes(name) ||
+      module.classes.some(cls => cls.name === name && cls.kind !== 'extension')
+    );
   }
 
   /**
-   * Detect programming language
+   * Merge the files of each Go package into a single module
    */
-  private detectLanguage(ext: string): string {
-    const langMap: Record<string, string> = {
-      '.ts': 'typescript',
-      '.tsx': 'typescript',
-      '.js': 'javascript',
-      '.jsx': 'javascript',
-      '.py': 'python',
-      '.java': 'java',
-      '.go': 'go',
-      '.rs': 'rust',
-      '.cs': 'csharp',
-      '.php': 'php',
-    };
+  private mergeGoPackages(modules: CodeModule[]): CodeModule[] {
+    const packages = new Map<string, CodeModule[]>();
+    for (const module of modules) {
+      if (module.language !== 'go') continue;
+      const dir = path.dirname(module.path);
+      packages.set(dir, [...(packages.get(dir) || []), module]);
+    }
 
-    return langMap[ext] || 'unknown';
-  }
+    const merged: CodeModule[] = [];
+    const emitted = new Set<string>();
 
-  /**
-   * Detect module type
-   */
-  private detectModuleType(path: string): string {
-    const lowerPath = path.toLowerCase();
+    for (const module of modules) {
+      if (module.language !== 'go') {
+        merged.push(module);
+        continue;
+      }
 
-    if (lowerPath.includes('controller') || lowerPath.includes('handler') || lowerPath.includes('router')) {
-      return 'controller';
-    }
-    if (lowerPath.includes('service') || lowerPath.includes('manager')) {
-      return 'service';
-    }
-    if (lowerPath.includes('model') || lowerPath.includes('schema') || lowerPath.includes('entity')) {
-      return 'model';
-    }
-    if (lowerPath.includes('repository') || lowerPath.includes('dao')) {
-      return 'repository';
-    }
-    if (lowerPath.includes('util') || lowerPath.includes('helper') || lowerPath.includes('common')) {
-      return 'utility';
-    }
-    if (lowerPath.includes('config') || lowerPath.includes('constant')) {
-      return 'config';
-    }
-    if (lowerPath.includes('middleware') || lowerPath.includes('interceptor') || lowerPath.includes('guard')) {
-      return 'middleware';
-    }
-    if (lowerPath.includes('test') || lowerPath.includes('spec')) {
-      return 'test';
+      const dir = path.dirname(module.path);
+      if (emitted.has(dir)) continue;
+      emitted.add(dir);
+
+      const members = packages.get(dir)!;
+      const id = dir === '.' ? (members[0].namespace || members[0].id) : dir.replace(/[\/\\]/g, '.');
+      merged.push(this.mergeModules(id, dir, members));
     }
 
-    return 'module';
+    return merged;
   }
 
   /**
-   * Extract import statements
+   * Merge each C/C++ header with its implementation file (`widget.h` + `widget.cpp`)
+   *
+   * The pair is found in the same directory first; otherwise a stem that names exactly one
+   * header and one implementation in the project pairs them (`include/widget.h` + `src/widget.cpp`).
    */
-  private extractImports(content: string, language: string): string[] {
-    const imports: string[] = [];
-
-    switch (language) {
-      case 'typescript':
-      case 'javascript':
-        // ES6 imports
-        const es6ImportRegex = /import\s+(?:(?:\{[^}]*\}|\*\s+as\s+\w+|\w+)\s+from\s+)?['"]([^'"]+)['"]/g;
-        let match;
-        while ((match = es6ImportRegex.exec(content)) !== null) {
-          if (!match[1].startsWith('.')) continue; // Keep only relative imports
-          imports.push(match[1]);
-        }
-        // CommonJS
-        const cjsImportRegex = /require\(['"]([^'"]+)['"]\)/g;
-        while ((match = cjsImportRegex.exec(content)) !== null) {
-          if (!match[1].startsWith('.')) continue;
-          imports.push(match[1]);
-        }
-        break;
-
-      case 'python':
-        const pyImportRegex = /from\s+(\S+)\s+import|^import\s+(\S+)/gm;
-        while ((match = pyImportRegex.exec(content)) !== null) {
-          const imp = match[1] || match[2];
-          if (imp && !imp.startsWith('.')) {
-            // Python relative imports start with .
-          } else if (imp) {
-            imports.push(imp.replace(/\./g, '/'));
-          }
-        }
-        break;
+  private mergeHeaderPairs(modules: CodeModule[]): CodeModule[] {
+    const stemOf = (module: CodeModule): string => path.basename(module.path, path.extname(module.path));
+    const headers = modules.filter(m => this.headerExtensions.includes(path.extname(m.path).toLowerCase()));
+    const implementations = modules.filter(m => this.implementationExtensions.includes(path.extname(m.path).toLowerCase()));
+    const pairs = new Map<CodeModule, CodeModule>();
+
+    for (const implementation of implementations) {
+      const stem = stemOf(implementation);
+      const sameDir = headers.find(h => stemOf(h) === stem && path.dirname(h.path) === path.dirname(implementation.path));
+      const candidates = headers.filter(h => stemOf(h) === stem);
+      const unique = candidates.length === 1 && implementations.filter(i => stemOf(i) === stem).length === 1
+        ? candidates[0]
+        : undefined;
+
+      const header = sameDir || unique;
+      if (header && ![...pairs.values()].includes(header)) pairs.set(implementation, header);
+    }
 
-      case 'java':
-        const javaImportRegex = /import\s+([^;]+);/g;
-        while ((match = javaImportRegex.exec(content)) !== null) {
-          imports.push(match[1].replace(/\./g, '/'));
-        }
-        break;
+    const paired = new Set(pairs.values());
+    const merged: CodeModule[] = [];
+
+    for (const module of modules) {
+      if (paired.has(module)) continue;
+
+      const header = pairs.get(module);
+      if (!header) {
+        merged.push(module);
+        continue;
+      }
+
+      const stemPath = module.path.slice(0, -path.extname(module.path).length);
+      merged.push(this.mergeModules(this.generateModuleId(stemPath), module.path, [module, header]));
     }
 
-    return [...new Set(imports)]; // Remove duplicates
+    return merged;
   }
 
   /**
-   * Extract exports
+   * Combine several files (a Go package, a header with its implementation) into one module
    */
-  private extractExports(content: string, language: string): string[] {
-    const exports: string[] = [];
-
-    if (language === 'typescript' || language === 'javascript') {
-      const exportRegex = /export\s+(?:default\s+)?(?:class|function|const|let|var)\s+(\w+)/g;
-      let match;
-      while ((match = exportRegex.exec(content)) !== null) {
-        exports.push(match[1]);
-      }
+  private mergeModules(id: string, modulePath: string, members: CodeModule[]): CodeModule {
+    const first = members[0];
+    const classes = members.flatMap(m => m.classes);
+    const functions: FunctionInfo[] = [];
 
-      // export { xxx }
-      const namedExportRegex = /export\s+\{([^}]+)\}/g;
-      while ((match = namedExportRegex.exec(content)) !== null) {
-        const names = match[1].split(',').map(s => s.trim().split(' ')[0]);
-        exports.push(...names);
+    // Methods declared apart from their receiver type rejoin it (`Recv.Method`, `Class::method`)
+    for (const fn of members.flatMap(m => m.functions)) {
+      const qualifiers = fn.name.split(/\.|::/);
+      const method = qualifiers.length > 1 ? qualifiers[qualifiers.length - 1] : undefined;
+      const owner = method ? classes.find(cls => cls.name === qualifiers[qualifiers.length - 2]) : undefined;
+      if (owner) {
+        // A definition replaces its body-less declaration from the header
+        const declaration = owner.methods.findIndex(m => m.name === method && m.cyclomaticComplexity === undefined);
+        if (declaration === -1) owner.methods.push({ ...fn, name: method! });
+        else owner.methods[declaration] = { ...fn, name: method!, kind: owner.methods[declaration].kind };
+      } else {
+        functions.push(fn);
       }
     }
 
-    return exports;
+    return {
+      id,
+      path: modulePath,
+      type: this.detectModuleType(modulePath === '.' ? first.path : modulePath),
+      language: first.language,
+      imports: [...new Set(members.flatMap(m => m.imports))],
+      unresolvedImports: [],
+      importBindings: members.flatMap(m => m.importBindings),
+      exports: [...new Set(members.flatMap(m => m.exports))],
+      typeExports: [...new Set(members.flatMap(m => m.typeExports))],
+      functions,
+      classes,
+      namespace: first.namespace,
+      cluster: first.cluster,
+      files: members.map(m => m.path),
+      metadata: {
+        lines: members.reduce((sum, m) => sum + m.metadata.lines, 0),
+        hasErrors: members.some(m => m.metadata.hasErrors),
+        complexity: Math.max(...members.map(m => m.metadata.complexity)),
+        cyclomaticComplexity: members.reduce((sum, m) => sum + m.metadata.cyclomaticComplexity, 0),
+        cognitiveComplexity: members.reduce((sum, m) => sum + m.metadata.cognitiveComplexity, 0),
+        diagnostics: members.flatMap(m => m.metadata.diagnostics.map(d => ({ ...d, file: m.path }))),
+      },
+    };
   }
 
   /**
-   * Extract functions
+   * Files and directories the last parseProject left out, with the reason
    */
-  private extractFunctions(content: string, language: string): FunctionInfo[] {
-    const functions: FunctionInfo[] = [];
+  get skippedFiles(): SkippedFile[] {
+    return this.skipped;
+  }
 
-    switch (language) {
-      case 'typescript':
-      case 'javascript':
-        // function name(...)
-        const funcRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\(([^)]*)\)/g;
-        let match;
-        while ((match = funcRegex.exec(content)) !== null) {
-          functions.push({
-            name: match[1],
-            params: match[2] ? match[2].split(',').map(p => p.trim()) : [],
-            async: content.substring(match.index - 20, match.index).includes('async'),
-            lines: this.estimateFunctionLines(content, match.index),
-          });
-        }
+  /**
+   * Check whether a file has a selected language and passes the include globs
+   *
+   * The project's own CodeActor config is tooling, not a character.
+   */
+  private isAnalyzed(relativePath: string): boolean {
+    if (configFileNames.includes(relativePath)) return false;
 
-        // Arrow function: const name = (...) => { or const name: Type = (...) => {
-        const arrowFuncRegex = /(?:const|let|var)\s+(\w+)\s*(?::\s*[^=]+)?\s*=\s*(?:async\s+)?\(([^)]*)\)\s*=>/g;
-        while ((match = arrowFuncRegex.exec(content)) !== null) {
-          functions.push({
-            name: match[1],
-            params: match[2] ? match[2].split(',').map(p => p.trim()) : [],
-            async: content.substring(match.index - 10, match.index + 50).includes('async'),
-            lines: this.estimateFunctionLines(content, match.index),
-          });
-        }
+    const plugin = this.registry.forFile(path.posix.basename(relativePath));
+    if (!plugin) return false;
 
-        // Class methods
-        const methodRegex = /(?:async\s+)?(\w+)\s*\(([^)]*)\)\s*(?::\s*[^{]+)?\s*\{/g;
-        let methodMatch;
-        const classRegex = /class\s+\w+/g;
-        let classMatch;
-        let inClass = false;
+    const languages = this.options.languages || [];
+    if (languages.length > 0 && !languages.includes(plugin.id)) return false;
 
-        // Simple check if in class
-        while ((classMatch = classRegex.exec(content)) !== null) {
-          inClass = true;
-        }
+    return this.include.size === 0 || this.include.matches(relativePath);
+  }
 
-        if (inClass) {
-          // Simplified handling, actual implementation needs more precise parsing
-        }
+  /**
+   * Parse single file
+   */
+  private parseFile(filePath: string, basePath: string): CodeModule | null {
+    const plugin = this.registry.forFile(path.basename(filePath));
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const relativePath = path.relative(basePath, filePath);
 
-        break;
-
-      case 'python':
-        const pyFuncRegex = /def\s+(\w+)\s*\(([^)]*)\)/g;
-        while ((match = pyFuncRegex.exec(content)) !== null) {
-          functions.push({
-            name: match[1],
-            params: match[2] ? match[2].split(',').map(p => p.trim()) : [],
-            async: match[1].startsWith('async_'),
-            lines: this.estimateFunctionLines(content, match.index),
-          });
-        }
-        break;
+    if (!plugin || !content.trim()) {
+      return null;
     }
 
-    return functions;
+    const language = plugin.id;
+    const extraction = this.safeExtractStructure(plugin, content, filePath);
+    const complexity = extraction.complexity || this.estimateComplexity(content);
+
+    const module: CodeModule = {
+      id: this.generateModuleId(relativePath),
+      path: relativePath,
+      type: plugin.moduleType?.(relativePath, extraction) || this.detectModuleType(relativePath),
+      language,
+      imports: extraction.imports,
+      unresolvedImports: [],
+      importBindings: extraction.importBindings,
+      exports: extraction.exports,
+      typeExports: extraction.typeExports,
+      functions: extraction.functions,
+      classes: extraction.classes,
+      namespace: extraction.namespace,
+      cluster: this.detectCluster(relativePath, language, extraction.namespace),
+      metadata: {
+        lines: content.split('\n').length,
+        hasErrors: extraction.diagnostics.length > 0,
+        complexity: this.normalizeComplexity(complexity, extraction),
+        cyclomaticComplexity: complexity.cyclomatic,
+        cognitiveComplexity: complexity.cognitive,
+        // Plugins may report in any order, readers expect the first error first
+        diagnostics: [...extraction.diagnostics].sort((a, b) => a.line - b.line || a.column - b.column),
+      },
+    };
+
+    return module;
   }
 
   /**
-   * Extract classes
+   * Extract module structure, keeping files the extractor chokes on as injured modules
    */
-  private extractClasses(content: string, language: string): ClassInfo[] {
-    const classes: ClassInfo[] = [];
-
-    if (language === 'typescript' || language === 'javascript') {
-      const classRegex = /class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+([^{]+))?/g;
-      let match;
-
-      while ((match = classRegex.exec(content)) !== null) {
-        const methods: FunctionInfo[] = [];
-
-        // Simple extraction of methods in class
-        const classContent = content.slice(match.index);
-        const methodRegex = /(\w+)\s*\(([^)]*)\)\s*(?::\s*[^{]+)?\s*\{/g;
-        let methodMatch;
-        let braceCount = 0;
-        let classEnd = 0;
-
-        // Find class end position
-        for (let i = classContent.indexOf('{'); i < classContent.length; i++) {
-          if (classContent[i] === '{') braceCount++;
-          if (classContent[i] === '}') braceCount--;
-          if (braceCount === 0) {
-            classEnd = i;
-            break;
-          }
-        }
+  private safeExtractStructure(plugin: LanguagePlugin, content: string, filePath: string): SourceExtraction {
+    try {
+      return plugin.parse(content, filePath);
+    } catch (error) {
+      return {
+        imports: [],
+        importBindings: [],
+        exports: [],
+        typeExports: [],
+        functions: [],
+        classes: [],
+        diagnostics: [{
+          message: error instanceof Error ? error.message : String(error),
+          line: 1,
+          column: 1,
+        }],
+      };
+    }
+  }
 
-        const classBody = classContent.slice(0, classEnd);
-
-        while ((methodMatch = methodRegex.exec(classBody)) !== null) {
-          if (methodMatch[1] !== 'constructor' && methodMatch[1] !== 'if' && methodMatch[1] !== 'for' && methodMatch[1] !== 'while') {
-            methods.push({
-              name: methodMatch[1],
-              params: methodMatch[2] ? methodMatch[2].split(',').map(p => p.trim()) : [],
-              async: false,
-              lines: 5,
-            });
-          }
-        }
+  /**
+   * Module id of a project-relative path, dropping the extension its language plugin registered
+   */
+  private generateModuleId(relativePath: string): string {
+    const extension = this.registry.extensionOf(path.basename(relativePath)) || '';
+    return relativePath.slice(0, relativePath.length - extension.length).replace(/[\/\\]/g, '.');
+  }
+
+  /**
+   * Give modules sharing an id (`a.ts` and `a.js`, a Go package next to `pkg.ts`) distinct ones
+   *
+   * Clashing modules keep their extension in the id; whatever still clashes is numbered in path order.
+   */
+  private ensureUniqueIds(modules: CodeModule[]): void {
+    const groups = new Map<string, CodeModule[]>();
+    modules.forEach(module => groups.set(module.id, [...(groups.get(module.id) || []), module]));
+
+    const used = new Set([...groups].filter(([, group]) => group.length === 1).map(([id]) => id));
+
+    for (const [id, group] of groups) {
+      if (group.length === 1) continue;
+
+      group.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+      for (const module of group) {
+        const base = module.files ? id : `${id}${path.extname(module.path)}`;
+        let unique = base;
+        for (let number = 2; used.has(unique); number++) unique = `${base}-${number}`;
 
-        classes.push({
-          name: match[1],
-          extends: match[2],
-          implements: match[3] ? match[3].split(',').map(s => s.trim()) : [],
-          methods,
-        });
+        used.add(unique);
+        module.id = unique;
       }
     }
+  }
 
-    if (language === 'python') {
-      const pyClassRegex = /class\s+(\w+)(?:\(([^)]*)\))?:/g;
-      let match;
+  /**
+   * Detect the group a module is laid out with (Go files cluster by package directory)
+   */
+  private detectCluster(relativePath: string, language: string, namespace?: string): string | undefined {
+    if (language !== 'go') return undefined;
 
-      while ((match = pyClassRegex.exec(content)) !== null) {
-        classes.push({
-          name: match[1],
-          implements: match[2] ? match[2].split(',').map(s => s.trim()) : [],
-          methods: [],
-        });
-      }
+    const dir = path.dirname(relativePath).split(path.sep).join('/');
+    return dir === '.' ? namespace : dir;
+  }
+
+  /**
+   * Detect module type
+   */
+  private detectModuleType(path: string): string {
+    // Whole words of the path, camelCase split ('src/UserController.java' → src, user, controller, java)
+    const words = new Set(
+      path.split(/[\/\\._-]+/)
+        .flatMap(part => part.split(/(?<=[a-z0-9])(?=[A-Z])/))
+        .map(word => word.toLowerCase())
+    );
+    const has = (...names: string[]) => names.some(name => words.has(name) || words.has(`${name}s`));
+
+    if (has('controller', 'handler', 'router')) {
+      return 'controller';
+    }
+    if (has('service', 'manager')) {
+      return 'service';
+    }
+    if (has('model', 'schema', 'entity', 'entities')) {
+      return 'model';
+    }
+    if (has('repository', 'repositories', 'dao')) {
+      return 'repository';
+    }
+    if (has('util', 'utilities', 'helper', 'common')) {
+      return 'utility';
+    }
+    if (has('config', 'constant')) {
+      return 'config';
+    }
+    if (has('middleware', 'interceptor', 'guard')) {
+      return 'middleware';
+    }
+    if (has('test', 'spec')) {
+      return 'test';
     }
 
-    return classes;
+    return 'module';
   }
 
   /**
-   * Estimate function lines (simplified version)
+   * Normalize raw complexity to 1-10 (per-function values when the AST provided them)
    */
-  private estimateFunctionLines(content: string, startIndex: number): number {
-    const afterFunc = content.substring(startIndex);
-    const firstBrace = afterFunc.indexOf('{');
-    if (firstBrace === -1) return 5;
-
-    let braceCount = 0;
-    let lines = 0;
-
-    for (let i = firstBrace; i < afterFunc.length && i < firstBrace + 1000; i++) {
-      if (afterFunc[i] === '{') braceCount++;
-      if (afterFunc[i] === '}') braceCount--;
-      if (afterFunc[i] === '\n') lines++;
-      if (braceCount === 0) break;
+  private normalizeComplexity(complexity: ComplexityMeasure, extraction: SourceExtraction): number {
+    if (!extraction.complexity) {
+      return Math.min(10, Math.max(1, Math.round(complexity.cyclomatic / 10)));
     }
 
-    return Math.max(1, lines);
+    const functionMeasures = [
+      ...extraction.functions,
+      ...extraction.classes.flatMap(cls => cls.methods),
+    ]
+      .filter(fn => fn.cyclomaticComplexity !== undefined)
+      .map(fn => ({ cyclomatic: fn.cyclomaticComplexity!, cognitive: fn.cognitiveComplexity || 0 }));
+
+    return ComplexityAnalyzer.normalize(complexity, functionMeasures);
   }
 
   /**
-   * Calculate complexity (simplified cyclomatic complexity)
+   * Estimate complexity by counting control flow keywords (languages without an AST extractor)
    */
-  private calculateComplexity(content: string): number {
-    // Count control flow keywords
-    const keywords = /\b(if|else|for|while|switch|case|catch|try|throw|\?|\|\||&&)\b/g;
+  private estimateComplexity(content: string): ComplexityMeasure {
+    const keywords = /\b(?:if|else|for|while|switch|case|catch)\b|\?|\|\||&&/g;
     const matches = content.match(keywords);
-    const baseComplexity = 1;
-    const complexity = baseComplexity + (matches ? matches.length : 0);
+    const cyclomatic = 1 + (matches ? matches.length : 0);
 
-    // Normalize to 1-10
-    return Math.min(10, Math.max(1, Math.round(complexity / 10)));
+    // Without structure there is no nesting to weigh, so cognitive mirrors the decision count
+    return { cyclomatic, cognitive: cyclomatic - 1 };
   }
 }
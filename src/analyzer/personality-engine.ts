@@ -0,0 +1,240 @@
+import { CastingDecision, CodeModule, PersonalityType } from './types.js';
+
+/**
+ * Conditions of a personality rule; every given condition must hold
+ */
+export interface RuleConditions {
+  path?: string;                   // Regular expression tested against the project-relative path (case-insensitive)
+  basename?: string;               // Regular expression tested against the file name (case-insensitive)
+  type?: string[];                 // Module types ('controller', 'component'...)
+  language?: string[];             // Language ids
+  exports?: string;                // Regular expression at least one export name must match
+  minFanIn?: number;               // Modules importing this one
+  maxFanIn?: number;
+  minFanOut?: number;              // Modules this one imports
+  maxFanOut?: number;
+  minComplexity?: number;          // Normalized complexity 1-10
+  maxComplexity?: number;
+  minLines?: number;
+  maxLines?: number;
+  minExports?: number;
+  maxExports?: number;
+}
+
+/**
+ * Declarative casting rule
+ *
+ * A rule whose conditions all hold scores its priority plus one point per condition, so a more
+ * specific rule beats a broader one of the same priority. The best score wins; ties go to the
+ * rule listed first.
+ */
+export interface PersonalityRule {
+  name: string;                    // Shown on the persona; a project rule replaces the built-in rule of the same name
+  personality: PersonalityType;
+  priority?: number;               // Added to the score (default 0)
+  when: RuleConditions;
+  disabled?: boolean;              // Drop the rule (to switch off a built-in one by name)
+}
+
+/**
+ * What the rules can see of a module
+ */
+export interface ModuleFacts {
+  path: string;
+  basename: string;
+  type: string;
+  language: string;
+  exports: string[];
+  fanIn: number;
+  fanOut: number;
+  complexity: number;
+  lines: number;
+}
+
+export const ruleConditionKeys: Array<keyof RuleConditions> = [
+  'path', 'basename', 'type', 'language', 'exports',
+  'minFanIn', 'maxFanIn', 'minFanOut', 'maxFanOut', 'minComplexity', 'maxComplexity',
+  'minLines', 'maxLines', 'minExports', 'maxExports',
+];
+
+/**
+ * Rules CodeActor casts with out of the box
+ */
+export function createBuiltinPersonalityRules(thresholds: { busyHelperCalls: number; fragileComplexity: number }): PersonalityRule[] {
+  const data = '(?:models?|schemas?|stores?|repositor(?:y|ies)|database|db|daos?)';
+  const helper = '(?:utils?|utilities|helpers?|common|shared|libs?)';
+  const middleware = '(?:middlewares?|interceptors?|guards?)';
+  const config = '(?:config|configs|configuration|constants?|env|settings?)';
+
+  // Whole words of a file name ('user.model.ts', 'string-utils.ts'), whole directories ('src/lib/'), or either;
+  // a word may end the path, as merged Go packages are named by their directory ('pkg/util')
+  const fileWord = (words: string) => `(?:^|[._-])${words}(?=[._-]|$)`;
+  const directory = (words: string) => `(?:^|/)${words}(?:/|$)`;
+  const pathWord = (words: string) => `(?:^|[/._-])${words}(?=[/._-]|$)`;
+
+  return [
+    { name: 'entry-point', personality: PersonalityType.HEROIC, priority: 3, when: { basename: '^(index|main|app|server|entry)\\.\\w+$' } },
+    // Go binaries live below cmd/ ('cmd/api/main.go', or the package 'cmd/api')
+    { name: 'go-command', personality: PersonalityType.HEROIC, priority: 3, when: { language: ['go'], path: directory('cmd') } },
+
+    // A file's own name says more than the directory it sits in
+    { name: 'data-file', personality: PersonalityType.RELIABLE, priority: 2, when: { basename: fileWord(data) } },
+    { name: 'helper-file', personality: PersonalityType.HELPFUL, priority: 2, when: { basename: fileWord(helper) } },
+    { name: 'middleware-file', personality: PersonalityType.QUIRKY, priority: 2, when: { basename: fileWord(middleware) } },
+    { name: 'config-file', personality: PersonalityType.MYSTERIOUS, priority: 2, when: { basename: fileWord(config) } },
+    { name: 'data-dir', personality: PersonalityType.RELIABLE, priority: 1, when: { path: directory(data) } },
+    { name: 'helper-dir', personality: PersonalityType.HELPFUL, priority: 1, when: { path: directory(helper) } },
+    { name: 'middleware-dir', personality: PersonalityType.QUIRKY, priority: 1, when: { path: directory(middleware) } },
+    { name: 'config-dir', personality: PersonalityType.MYSTERIOUS, priority: 1, when: { path: directory(config) } },
+
+    // Framework annotations (`@Repository`, `[ApiController]`) set the module type regardless of the path
+    { name: 'data-type', personality: PersonalityType.RELIABLE, priority: 2, when: { type: ['model', 'repository'] } },
+    { name: 'config-type', personality: PersonalityType.MYSTERIOUS, priority: 1, when: { type: ['config'] } },
+
+    // Popular helpers are too busy to stay in the background
+    {
+      name: 'busy-helper', personality: PersonalityType.BUSY, priority: 2,
+      when: { path: pathWord(helper), minFanIn: thresholds.busyHelperCalls + 1 },
+    },
+
+    { name: 'unused', personality: PersonalityType.LONELY, when: { maxFanIn: 0 } },
+    { name: 'complex', personality: PersonalityType.FRAGILE, when: { minComplexity: thresholds.fragileComplexity + 1 } },
+    { name: 'default', personality: PersonalityType.BUSY, when: {} },
+  ];
+}
+
+/**
+ * Personality Engine - Scores every rule against a module and casts the best one
+ */
+export class PersonalityEngine {
+  private readonly rules: PersonalityRule[];
+  private readonly patterns = new Map<string, RegExp>();
+
+  /**
+   * Project rules come first, so they win ties; a project rule named like a built-in one replaces it
+   */
+  constructor(builtinRules: PersonalityRule[], projectRules: PersonalityRule[] = []) {
+    const overridden = new Set(projectRules.map(rule => rule.name));
+    this.rules = [...projectRules, ...builtinRules.filter(rule => !overridden.has(rule.name))]
+      .filter(rule => !rule.disabled);
+  }
+
+  /**
+   * Facts about a module the rules are evaluated on
+   */
+  static factsOf(module: CodeModule, fanIn: number): ModuleFacts {
+    return {
+      path: module.path.split('\\').join('/'),
+      basename: module.path.split(/[\\/]/).pop() || '',
+      type: module.type,
+      language: module.language,
+      exports: module.exports,
+      fanIn,
+      fanOut: module.imports.length,
+      complexity: module.metadata.complexity,
+      lines: module.metadata.lines,
+    };
+  }
+
+  /**
+   * Pick a personality, recording the winning rule, its reasons and the runners-up
+   */
+  cast(facts: ModuleFacts): { personality: PersonalityType; casting: CastingDecision } {
+    const matches: Array<{ rule: PersonalityRule; score: number; reasons: string[] }> = [];
+
+    for (const rule of this.rules) {
+      const reasons = this.evaluate(rule.when, facts);
+      if (reasons) {
+        matches.push({ rule, score: (rule.priority || 0) + reasons.length, reasons });
+      }
+    }
+
+    // Stable sort keeps rule order for ties
+    matches.sort((a, b) => b.score - a.score);
+    const [winner, ...others] = matches;
+
+    if (!winner) {
+      return {
+        personality: PersonalityType.BUSY,
+        casting: { rule: 'none', score: 0, reasons: ['no rule matched'], candidates: [] },
+      };
+    }
+
+    return {
+      personality: winner.rule.personality,
+      casting: {
+        rule: winner.rule.name,
+        score: winner.score,
+        reasons: winner.reasons.length > 0 ? winner.reasons : ['fallback rule'],
+        candidates: others.map(match => ({
+          rule: match.rule.name,
+          personality: match.rule.personality,
+          score: match.score,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Reasons for every condition of a rule, or null when one does not hold
+   */
+  private evaluate(when: RuleConditions, facts: ModuleFacts): string[] | null {
+    const reasons: string[] = [];
+
+    if (when.path !== undefined) {
+      const match = facts.path.match(this.pattern(when.path));
+      if (!match) return null;
+      reasons.push(`path matches "${match[0]}"`);
+    }
+    if (when.basename !== undefined) {
+      const match = facts.basename.match(this.pattern(when.basename));
+      if (!match) return null;
+      reasons.push(`file name matches "${match[0]}"`);
+    }
+    if (when.type !== undefined) {
+      if (!when.type.includes(facts.type)) return null;
+      reasons.push(`module type is ${facts.type}`);
+    }
+    if (when.language !== undefined) {
+      if (!when.language.includes(facts.language)) return null;
+      reasons.push(`written in ${facts.language}`);
+    }
+    if (when.exports !== undefined) {
+      const pattern = this.pattern(when.exports);
+      const exported = facts.exports.find(name => pattern.test(name));
+      if (exported === undefined) return null;
+      reasons.push(`exports ${exported}`);
+    }
+
+    // [min, max, value, label]
+    const ranges: Array<[number | undefined, number | undefined, number, string]> = [
+      [when.minFanIn, when.maxFanIn, facts.fanIn, 'fan-in'],
+      [when.minFanOut, when.maxFanOut, facts.fanOut, 'fan-out'],
+      [when.minComplexity, when.maxComplexity, facts.complexity, 'complexity'],
+      [when.minLines, when.maxLines, facts.lines, 'lines'],
+      [when.minExports, when.maxExports, facts.exports.length, 'exports'],
+    ];
+
+    for (const [min, max, value, label] of ranges) {
+      if (min !== undefined) {
+        if (value < min) return null;
+        reasons.push(`${label} ${value} ≥ ${min}`);
+      }
+      if (max !== undefined) {
+        if (value > max) return null;
+        reasons.push(`${label} ${value} ≤ ${max}`);
+      }
+    }
+
+    return reasons;
+  }
+
+  private pattern(source: string): RegExp {
+    let pattern = this.patterns.get(source);
+    if (!pattern) {
+      pattern = new RegExp(source, 'i');
+      this.patterns.set(source, pattern);
+    }
+    return pattern;
+  }
+}
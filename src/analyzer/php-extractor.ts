@@ -0,0 +1,418 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Type declaration with the extent of its body
+ */
+interface TypeDeclaration {
+  info: ClassInfo;
+  open: number;
+  close: number;
+}
+
+/**
+ * PHP Extractor - Namespaces, use imports, require/include, classes, interfaces, traits and functions
+ */
+export class PhpExtractor {
+  private scanner = new SourceScanner({
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'elseif', 'for', 'foreach', 'while', 'catch'],
+    switches: ['switch', 'match'],
+    cases: ['case', '=>'],
+  };
+
+  // Call-like keywords and language constructs that are never project functions
+  private readonly notFunctionNames = new Set(['if', 'elseif', 'for', 'foreach', 'while', 'switch', 'match', 'catch', 'function', 'fn', 'array', 'list', 'isset', 'unset', 'empty', 'echo', 'print', 'return', 'new', 'require', 'require_once', 'include', 'include_once', 'use', 'declare', 'exit', 'die', 'eval']);
+
+  /**
+   * Extract namespace structure from PHP source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const namespaceMatch = masked.match(/^\s*namespace\s+([\w\\]+)\s*[{;]/m);
+    const namespace = namespaceMatch ? namespaceMatch[1] : undefined;
+
+    const declarations = this.extractTypes(masked);
+    for (const declaration of declarations) {
+      declaration.info.methods = this.extractMethods(content, masked, declaration);
+    }
+    const classes = declarations.map(d => d.info);
+    const functions = this.extractFunctions(content, masked, declarations);
+
+    const useRanges: Array<[number, number]> = [];
+    const importBindings = [
+      ...this.extractUses(masked, declarations, useRanges),
+      ...this.extractIncludes(content, masked),
+    ];
+
+    // References are counted outside the use statements
+    let body = masked;
+    for (const [start, end] of useRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+
+    const localNames = new Set([...classes.map(c => c.name), ...functions.map(f => f.name)]);
+    const explicitNames = new Set<string>();
+    for (const binding of importBindings) {
+      for (const symbol of binding.symbols) {
+        this.countReferences(body, symbol);
+        explicitNames.add(symbol.localName);
+      }
+    }
+
+    // Classes and functions of the own namespace are used without a `use` statement
+    if (namespace) {
+      const candidates = this.collectNames(body).filter(name => !localNames.has(name) && !explicitNames.has(name));
+      importBindings.push({
+        specifier: `${namespace}\\*`,
+        symbols: candidates.map(name => {
+          const symbol = this.createSymbol(name, name);
+          this.countReferences(body, symbol);
+          return symbol;
+        }),
+        wildcard: true,
+      });
+    }
+
+    const whole = this.complexityAnalyzer.measureBlock(masked, this.controlFlow);
+    const functionCount = functions.length + classes.reduce((sum, cls) => sum + cls.methods.filter(m => m.cyclomaticComplexity).length, 0);
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings: importBindings.filter(b => !b.wildcard || b.symbols.length > 0),
+      exports: [...new Set([...classes.map(cls => cls.name), ...functions.map(fn => fn.name)])],
+      typeExports: classes.filter(cls => cls.kind === 'interface').map(cls => cls.name),
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, functionCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+      namespace,
+    };
+  }
+
+  /**
+   * `use A\B\C;`, `use A\B\C as D;`, `use A\B\{C, D as E};`, `use function A\b\fmt;`
+   */
+  private extractUses(
+    masked: string,
+    declarations: TypeDeclaration[],
+    ranges: Array<[number, number]>
+  ): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /^\s*use\s+(?:(?:function|const)\s+)?([\w\\][^;]*);/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      // `use Trait;` inside a class body composes a trait, it imports nothing
+      if (declarations.some(d => match!.index > d.open && match!.index < d.close)) continue;
+      ranges.push([match.index, match.index + match[0].length]);
+
+      for (const [name, alias] of this.expandUseClause(match[1])) {
+        const simpleName = name.slice(name.lastIndexOf('\\') + 1);
+        bindings.push({
+          specifier: name,
+          symbols: [this.createSymbol(simpleName, alias || simpleName)],
+        });
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Flatten a use clause into fully qualified names with optional aliases
+   */
+  private expandUseClause(clause: string): Array<[string, string | undefined]> {
+    const entries: Array<[string, string | undefined]> = [];
+    const group = clause.match(/^\s*([\w\\]*)\\\s*\{([\s\S]*)\}\s*$/);
+    const prefix = group ? group[1] + '\\' : '';
+    const items = group ? group[2] : clause;
+
+    for (const item of items.split(',')) {
+      const [rawName, alias] = item.trim().replace(/^(?:function|const)\s+/, '').split(/\s+as\s+/);
+      const name = (prefix + rawName.trim()).replace(/^\\/, '');
+      if (rawName.trim()) entries.push([name, alias?.trim()]);
+    }
+
+    return entries;
+  }
+
+  /**
+   * `require`/`include` of a literal path, optionally anchored at `__DIR__` or `dirname(__FILE__)`
+   */
+  private extractIncludes(content: string, masked: string): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /\b(?:require|include)(?:_once)?\b([^;]*);/g;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const expression = match[1];
+      const start = match.index + match[0].length - 1 - expression.length;
+      const relativeToFile = /__DIR__|__FILE__/.test(expression);
+
+      // Only paths built from string literals and the file's directory can be followed
+      const remainder = expression
+        .replace(/__DIR__|dirname\s*\(\s*__FILE__\s*\)/g, '')
+        .replace(/(['"])\s*\1/g, '')
+        .replace(/[.()\s]/g, '');
+      if (remainder) continue;
+
+      const literal = [...masked.slice(start, start + expression.length).matchAll(/(['"])(\s*)\1/g)]
+        .map(string => content.slice(start + string.index! + 1, start + string.index! + 1 + string[2].length))
+        .join('');
+      if (!literal) continue;
+
+      bindings.push({
+        specifier: relativeToFile ? `./${literal.replace(/^\//, '')}` : literal,
+        symbols: [],
+      });
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Capitalised class names and called function names that may come from another file
+   */
+  private collectNames(body: string): string[] {
+    const names = new Set<string>();
+
+    // `$var`, `->prop`, `::CONST` and qualified `\Name` are not bare names
+    const typeRegex = /(?<![\w$\\>:])([A-Z]\w*)\b(?!\s*\\)/g;
+    let match;
+    while ((match = typeRegex.exec(body)) !== null) {
+      if (!/^[A-Z0-9_]+$/.test(match[1]) || match[1].length === 1) names.add(match[1]);
+    }
+
+    const callRegex = /(?<![\w$\\>:])([a-z_]\w*)\s*\(/g;
+    while ((match = callRegex.exec(body)) !== null) {
+      const previous = body.slice(Math.max(0, match.index - 12), match.index);
+      if (!this.notFunctionNames.has(match[1]) && !/\bfunction\s+&?$/.test(previous)) names.add(match[1]);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Count references, separating type positions from value uses
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName) return;
+
+    const regex = new RegExp(`(?<![\\w$\\\\>:])${symbol.localName}\\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 20), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 40);
+
+      // `new X(`, `X::call()` and `x()` are value uses; hints, `instanceof` and `catch` are types
+      if (/\bnew\s+$/.test(before) || /^\s*(?:\(|::)/.test(after)) continue;
+
+      // A parent class is loaded with every subclass (`class User extends Model`), unlike interfaces
+      if (/\bclass\s+\w+\s+extends\s+$/.test(body.slice(Math.max(0, match.index - 200), match.index))) continue;
+
+      symbol.typeReferences++;
+    }
+  }
+
+  /**
+   * Find class, interface, trait and enum declarations
+   */
+  private extractTypes(masked: string): TypeDeclaration[] {
+    const declarations: TypeDeclaration[] = [];
+    const regex = /((?:(?:abstract|final|readonly)\s+)*)(class|interface|trait|enum)\s+(\w+)([^{;]*)\{/g;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      // `Foo::class` and `$x->class` are not declarations
+      const previous = masked[match.index - 1];
+      if (previous && /[\w$:>]/.test(previous)) continue;
+
+      const [, , keyword, name, header] = match;
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      const end = close === -1 ? masked.length : close;
+
+      const kind = keyword as 'class' | 'interface' | 'trait' | 'enum';
+      const extendsNames = this.readNameList(header, 'extends');
+      const traits = this.readTraitUses(masked, open, end);
+
+      declarations.push({
+        info: {
+          name,
+          kind,
+          // Interfaces extend interfaces, which is implementing a contract
+          extends: kind === 'interface' ? undefined : extendsNames[0],
+          implements: [
+            ...(kind === 'interface' ? extendsNames : this.readNameList(header, 'implements')),
+            ...traits,
+          ],
+          methods: [],
+        },
+        open,
+        close: end,
+      });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Traits composed with `use A, B;` directly inside a class body
+   */
+  private readTraitUses(masked: string, open: number, close: number): string[] {
+    const traits: string[] = [];
+    const depthAt = this.braceDepths(masked, open, close);
+    const regex = /\buse\s+([\w\\\s,]+?)\s*[;{]/g;
+
+    regex.lastIndex = open + 1;
+    let match;
+    while ((match = regex.exec(masked)) !== null && match.index < close) {
+      if (depthAt(match.index) !== 1) continue;
+      traits.push(...match[1].split(',').map(name => name.trim().split('\\').pop()!).filter(Boolean));
+    }
+
+    return traits;
+  }
+
+  /**
+   * Methods declared directly in a type body
+   */
+  private extractMethods(content: string, masked: string, declaration: TypeDeclaration): FunctionInfo[] {
+    const methods: FunctionInfo[] = [];
+    const depthAt = this.braceDepths(masked, declaration.open, declaration.close);
+    const regex = /(?:(?:public|protected|private|static|abstract|final)\s+)*function\s+&?(\w+)\s*\(/g;
+
+    regex.lastIndex = declaration.open + 1;
+    let match;
+    while ((match = regex.exec(masked)) !== null && match.index < declaration.close) {
+      if (depthAt(match.index) !== 1) continue;
+
+      const paramsOpen = match.index + match[0].length - 1;
+      const result = this.readFunction(content, masked, match[1], match.index, paramsOpen, declaration.close);
+      if (!result) continue;
+
+      result.info.kind = result.info.name === '__construct' ? 'constructor' : 'method';
+      methods.push(result.info);
+      regex.lastIndex = result.end;
+    }
+
+    return methods;
+  }
+
+  /**
+   * Named functions outside classes and other functions
+   */
+  private extractFunctions(content: string, masked: string, declarations: TypeDeclaration[]): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+    const regex = /(?<![\w$>:])function\s+&?(\w+)\s*\(/g;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const index = match.index;
+      const container = declarations.find(d => index > d.open && index < d.close);
+      if (container) {
+        regex.lastIndex = container.close;
+        continue;
+      }
+
+      const paramsOpen = index + match[0].length - 1;
+      const result = this.readFunction(content, masked, match[1], index, paramsOpen, masked.length);
+      if (!result) continue;
+
+      result.info.kind = 'function';
+      functions.push(result.info);
+      // Functions declared inside this one are not top-level
+      regex.lastIndex = result.end;
+    }
+
+    return functions;
+  }
+
+  /**
+   * Parameters, size and complexity of a function, with the index where it ends
+   */
+  private readFunction(
+    content: string,
+    masked: string,
+    name: string,
+    start: number,
+    paramsOpen: number,
+    limit: number
+  ): { info: FunctionInfo; end: number } | null {
+    const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+    if (paramsClose === -1) return null;
+
+    const info: FunctionInfo = {
+      name,
+      params: this.scanner.splitParams(masked.slice(paramsOpen + 1, paramsClose)),
+      async: false,
+      lines: 1,
+    };
+
+    // Abstract and interface methods end at `;` after an optional return type
+    const tail = masked.slice(paramsClose + 1);
+    const terminator = tail.search(/[{;]/);
+    if (terminator === -1 || tail[terminator] === ';') {
+      return { info, end: paramsClose };
+    }
+
+    const bodyOpen = paramsClose + 1 + terminator;
+    const bodyClose = this.scanner.findClosing(masked, bodyOpen);
+    const end = bodyClose === -1 ? limit : bodyClose;
+    const measure = this.complexityAnalyzer.measureBlock(masked.slice(bodyOpen, end + 1), this.controlFlow);
+
+    info.lines = this.scanner.lineAt(content, end) - this.scanner.lineAt(content, start) + 1;
+    info.cyclomaticComplexity = measure.cyclomatic;
+    info.cognitiveComplexity = measure.cognitive;
+
+    return { info, end };
+  }
+
+  /**
+   * Brace depth lookup for positions inside [open, close], relative to the type body
+   */
+  private braceDepths(masked: string, open: number, close: number): (index: number) => number {
+    const depths = new Int32Array(close - open + 1);
+    let depth = 0;
+    for (let i = open; i <= close; i++) {
+      if (masked[i] === '{') depth++;
+      depths[i - open] = depth;
+      if (masked[i] === '}') depth--;
+    }
+    return index => depths[index - open] ?? -1;
+  }
+
+  /**
+   * Read `extends A, B` / `implements C` name lists from a declaration header
+   */
+  private readNameList(header: string, keyword: string): string[] {
+    const match = header.match(new RegExp(`\\b${keyword}\\s+([\\w\\\\\\s,]+?)\\s*(?=\\b(?:extends|implements)\\b|$)`));
+    if (!match) return [];
+
+    return match[1].split(',')
+      .map(name => name.trim().split('\\').pop()!)
+      .filter(Boolean);
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
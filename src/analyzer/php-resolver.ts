@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * PSR-4 autoload rule from composer.json
+ */
+interface Psr4Mapping {
+  prefix: string;                  // Namespace prefix with trailing backslash ('' matches all)
+  dirs: string[];                  // Project-relative base directories
+}
+
+/**
+ * PHP Resolver - Maps `use` names through PSR-4 autoloading and declared names, and include paths to files
+ */
+export class PhpResolver extends LanguageResolver {
+  private readonly phpNames = new Map<string, string>();
+  private readonly phpNamespaces = new Map<string, string[]>();
+  private readonly psr4Mappings: Psr4Mapping[] = [];
+
+  constructor(context: ImportContext) {
+    super(context);
+    const modules = this.modulesOf('php');
+
+    for (const module of modules) {
+      const namespace = module.namespace || '';
+      for (const name of module.exports) {
+        this.phpNames.set(namespace ? `${namespace}\\${name}` : name, module.id);
+      }
+      this.phpNamespaces.set(namespace, [...(this.phpNamespaces.get(namespace) || []), module.id]);
+    }
+
+    this.loadPsr4Mappings(modules);
+  }
+
+  /**
+   * Resolve a PHP `use` name through PSR-4 and declared names, or a require/include path
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    if (specifier.includes('/') || specifier.endsWith('.php')) {
+      if (/(?:^|\/)vendor\//.test(specifier)) return { external: true };
+
+      // Relative includes start at the including file, others at the project root
+      const importerDir = path.posix.dirname(this.toPosix(importer.path));
+      const candidates = specifier.startsWith('./') || specifier.startsWith('../')
+        ? [path.posix.join(importerDir, specifier)]
+        : [path.posix.join(importerDir, specifier), path.posix.normalize(specifier.replace(/^\//, ''))];
+
+      const moduleId = candidates.map(candidate => this.moduleIdForFile(candidate)).find(Boolean);
+      return { moduleId, external: false };
+    }
+
+    if (specifier.endsWith('\\*')) {
+      const moduleIds = this.phpNamespaces.get(specifier.slice(0, -2));
+      return moduleIds ? { moduleIds, external: false } : { external: false };
+    }
+
+    for (const mapping of this.psr4Mappings) {
+      if (!specifier.startsWith(mapping.prefix)) continue;
+
+      const relative = specifier.slice(mapping.prefix.length).replace(/\\/g, '/') + '.php';
+      for (const dir of mapping.dirs) {
+        const moduleId = this.moduleIdForFile(path.posix.join(dir, relative));
+        if (moduleId) return { moduleId, external: false };
+      }
+    }
+
+    // Classes outside PSR-4 and `use function` imports are found by their declared name
+    const moduleId = this.phpNames.get(specifier);
+    if (moduleId) return { moduleId, external: false };
+
+    const owned = this.psr4Mappings.some(mapping => mapping.prefix && specifier.startsWith(mapping.prefix)) ||
+      [...this.phpNamespaces.keys()].some(ns => ns && specifier.startsWith(ns + '\\'));
+    return { external: !owned };
+  }
+
+  /**
+   * Read `autoload` and `autoload-dev` PSR-4 rules from every composer.json above a PHP file
+   */
+  private loadPsr4Mappings(modules: CodeModule[]): void {
+    const candidates = new Set<string>();
+
+    for (const module of modules) {
+      const segments = path.posix.dirname(this.toPosix(module.path)).split('/').filter(s => s !== '.');
+      for (let i = segments.length; i >= 0; i--) {
+        candidates.add(segments.slice(0, i).join('/'));
+      }
+    }
+
+    for (const dir of candidates) {
+      const composerPath = path.join(this.context.projectPath, dir, 'composer.json');
+      if (!fs.existsSync(composerPath)) continue;
+
+      let composer;
+      try {
+        composer = JSON.parse(fs.readFileSync(composerPath, 'utf-8'));
+      } catch {
+        continue;
+      }
+
+      for (const section of [composer?.autoload, composer?.['autoload-dev']]) {
+        const rules = section?.['psr-4'];
+        if (!rules || typeof rules !== 'object') continue;
+
+        for (const [prefix, targets] of Object.entries(rules)) {
+          const dirs = (Array.isArray(targets) ? targets : [targets])
+            .filter((t): t is string => typeof t === 'string')
+            .map(t => path.posix.join(dir, t));
+          this.psr4Mappings.push({ prefix: prefix.replace(/^\\/, ''), dirs });
+        }
+      }
+    }
+
+    // Longest prefix wins, as in Composer's autoloader
+    this.psr4Mappings.sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+}
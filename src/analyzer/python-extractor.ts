@@ -0,0 +1,423 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityMeasure } from './complexity-analyzer.js';
+
+/**
+ * One logical line: physical lines joined while brackets are open or a backslash continues them
+ */
+interface LogicalLine {
+  text: string;                    // Masked text without the indentation
+  indent: number;
+  start: number;                   // Index of the first non-blank character
+  end: number;
+  line: number;                    // 1-based line of `start`
+}
+
+/**
+ * Open block while walking the indentation structure
+ */
+interface Scope {
+  indent: number;
+  kind: 'class' | 'def' | 'block';
+  info?: ClassInfo;
+  typeChecking?: boolean;          // `if TYPE_CHECKING:` block
+}
+
+/**
+ * Python Extractor - Imports, functions, classes, methods, decorators and indentation-based complexity
+ */
+export class PythonExtractor {
+  // Triple quotes are listed as block comments so docstrings are blanked in one piece
+  private scanner = new SourceScanner({
+    lineComments: ['#'],
+    blockComments: [['"""', '"""'], ["'''", "'''"]],
+    quotes: ['"', "'"],
+  });
+
+  // Base classes that mark a structural interface rather than a parent
+  private readonly protocolBases = new Set(['Protocol', 'typing.Protocol', 'typing_extensions.Protocol']);
+
+  /**
+   * Extract module structure from Python source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const lines = this.logicalLines(masked);
+
+    const functions: FunctionInfo[] = [];
+    const classes: ClassInfo[] = [];
+    const importBindings: ImportBinding[] = [];
+    const importRanges: Array<[number, number]> = [];
+    const scopes: Scope[] = [];
+    const topLevelNames: string[] = [];
+    let decorators: string[] = [];
+
+    lines.forEach((line, index) => {
+      while (scopes.length > 0 && scopes[scopes.length - 1].indent >= line.indent) scopes.pop();
+
+      if (line.text.startsWith('@')) {
+        decorators.push(line.text.slice(1).match(/^[\w.]+/)?.[0] || '');
+        return;
+      }
+
+      const owner = [...scopes].reverse().find(scope => scope.kind !== 'block');
+      const imports = this.readImport(line.text);
+      if (imports) {
+        importRanges.push([line.start, line.end]);
+        const typeOnly = scopes.some(scope => scope.typeChecking);
+        // Imports inside a function body run on first call
+        const lazy = scopes.some(scope => scope.kind === 'def');
+        for (const binding of imports) {
+          binding.symbols.forEach(symbol => { symbol.typeOnly = typeOnly; });
+          importBindings.push(lazy ? { ...binding, dynamic: true } : binding);
+        }
+      }
+
+      const classMatch = line.text.match(/^class\s+(\w+)\s*(\()?/);
+      const defMatch = line.text.match(/^(async\s+)?def\s+(\w+)\s*\(/);
+
+      if (classMatch) {
+        const info = this.readClass(masked, line, classMatch, decorators.filter(Boolean));
+        // Nested classes are listed too, like inner classes elsewhere
+        classes.push(info);
+        if (scopes.length === 0) topLevelNames.push(info.name);
+        scopes.push({ indent: line.indent, kind: 'class', info });
+      } else if (defMatch) {
+        const info = this.readFunction(masked, line, lines, index, defMatch, decorators.filter(Boolean));
+        if (owner?.kind === 'class') {
+          info.kind = this.methodKind(info);
+          owner.info!.methods.push(info);
+        } else if (!owner) {
+          info.kind = 'function';
+          functions.push(info);
+          if (scopes.length === 0) topLevelNames.push(info.name);
+        }
+        scopes.push({ indent: line.indent, kind: 'def' });
+      } else if (line.text.endsWith(':')) {
+        scopes.push({
+          indent: line.indent,
+          kind: 'block',
+          typeChecking: /^if\s+(?:typing\.)?TYPE_CHECKING\s*:$/.test(line.text),
+        });
+      }
+
+      decorators = [];
+    });
+
+    // References are counted outside the import statements
+    let body = masked;
+    for (const [start, end] of importRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+    for (const binding of importBindings) {
+      binding.symbols.forEach(symbol => this.countReferences(body, symbol));
+    }
+
+    const exports = this.extractExports(content, masked, lines, topLevelNames);
+    const whole = this.measureLines(lines);
+    const methodCount = classes.reduce((sum, cls) => sum + cls.methods.length, 0);
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings,
+      exports,
+      typeExports: classes
+        .filter(cls => cls.kind === 'interface' && exports.includes(cls.name))
+        .map(cls => cls.name),
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, functions.length + methodCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+    };
+  }
+
+  /**
+   * Join physical lines into statements and record their indentation
+   */
+  private logicalLines(masked: string): LogicalLine[] {
+    const lines: LogicalLine[] = [];
+    let depth = 0;
+    let lineNumber = 1;
+    let start = -1;
+    let startLine = 1;
+    let indent = 0;
+    let lineIndent = 0;
+    let atLineStart = true;
+
+    const flush = (end: number): void => {
+      if (start !== -1) {
+        const text = masked.slice(start, end).replace(/\\\n/g, ' ').trim();
+        if (text) lines.push({ text, indent, start, end, line: startLine });
+      }
+      start = -1;
+    };
+
+    for (let i = 0; i < masked.length; i++) {
+      const char = masked[i];
+
+      if (char === '\n') {
+        lineNumber++;
+        atLineStart = true;
+        lineIndent = 0;
+        // Open brackets and trailing backslashes continue the statement
+        if (depth === 0 && masked[i - 1] !== '\\') flush(i);
+        continue;
+      }
+
+      if (atLineStart && (char === ' ' || char === '\t')) {
+        lineIndent = char === '\t' ? lineIndent + 8 - (lineIndent % 8) : lineIndent + 1;
+        continue;
+      }
+
+      if (atLineStart) {
+        atLineStart = false;
+        if (start === -1) {
+          start = i;
+          startLine = lineNumber;
+          indent = lineIndent;
+        }
+      }
+
+      if ('([{'.includes(char)) depth++;
+      if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    }
+
+    flush(masked.length);
+    return lines;
+  }
+
+  /**
+   * Bindings of an `import` / `from ... import` statement (null for other statements)
+   *
+   * `from a.b import c` yields the specifier `a.b.c`: `c` may be a submodule, and the resolver
+   * falls back to `a.b` when it is a name defined inside that module.
+   */
+  private readImport(text: string): ImportBinding[] | null {
+    const fromMatch = text.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/s);
+    if (fromMatch) {
+      const [, source, names] = fromMatch;
+      const separator = /\.$/.test(source) || source === '' ? '' : '.';
+
+      return names.replace(/[()]/g, '').split(',')
+        .map(item => item.trim().split(/\s+as\s+/))
+        .filter(([name]) => name)
+        .map(([name, alias]) => name === '*'
+          ? { specifier: source, symbols: [this.createSymbol('*', '')] }
+          : { specifier: `${source}${separator}${name}`, symbols: [this.createSymbol(name, alias || name)] });
+    }
+
+    const importMatch = text.match(/^import\s+(.+)$/s);
+    if (importMatch) {
+      // `import a.b.c` binds `a` but code spells out the whole path
+      return importMatch[1].split(',')
+        .map(item => item.trim().split(/\s+as\s+/))
+        .filter(([name]) => name)
+        .map(([name, alias]) => ({ specifier: name, symbols: [this.createSymbol('*', alias || name)] }));
+    }
+
+    return null;
+  }
+
+  /**
+   * Class header: bases, decorators and kind
+   */
+  private readClass(masked: string, line: LogicalLine, match: RegExpMatchArray, decorators: string[]): ClassInfo {
+    let bases: string[] = [];
+
+    if (match[2]) {
+      const open = line.start + match.index! + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      bases = this.scanner.splitParams(masked.slice(open + 1, close === -1 ? line.end : close))
+        // `metaclass=...` and other keywords are not bases; generics are dropped
+        .filter(base => !/^\w+\s*=/.test(base))
+        .map(base => base.replace(/\[[\s\S]*$/, '').trim())
+        .filter(base => base && base !== 'object');
+    }
+
+    const isProtocol = bases.some(base => this.protocolBases.has(base));
+    const parents = bases.filter(base => !this.protocolBases.has(base) && base !== 'Generic' && base !== 'typing.Generic');
+
+    return {
+      name: match[1],
+      kind: isProtocol ? 'interface' : 'class',
+      extends: isProtocol ? undefined : parents[0],
+      implements: isProtocol ? parents : parents.slice(1),
+      methods: [],
+      annotations: decorators,
+    };
+  }
+
+  /**
+   * Function header and body measures
+   */
+  private readFunction(
+    masked: string,
+    line: LogicalLine,
+    lines: LogicalLine[],
+    index: number,
+    match: RegExpMatchArray,
+    decorators: string[]
+  ): FunctionInfo {
+    const open = line.start + match.index! + match[0].length - 1;
+    const close = this.scanner.findClosing(masked, open);
+    const params = this.scanner.splitParams(masked.slice(open + 1, close === -1 ? line.end : close))
+      .map(param => param.replace(/\s*:[\s\S]*$|\s*=[\s\S]*$/, ''))
+      .filter(param => param && param !== '/' && param !== '*');
+
+    // The body is every following line indented deeper than the header
+    let last = index;
+    while (last + 1 < lines.length && lines[last + 1].indent > line.indent) last++;
+    const bodyLines = lines.slice(index, last + 1);
+    const measure = this.measureLines(bodyLines);
+
+    return {
+      name: match[2],
+      params,
+      async: !!match[1],
+      lines: this.scanner.lineAt(masked, lines[last].end) - line.line + 1,
+      cyclomaticComplexity: measure.cyclomatic,
+      cognitiveComplexity: measure.cognitive,
+      annotations: decorators,
+    };
+  }
+
+  /**
+   * Constructor, property accessors or plain method
+   */
+  private methodKind(info: FunctionInfo): FunctionInfo['kind'] {
+    if (info.name === '__init__') return 'constructor';
+    if (info.annotations?.includes('property')) return 'getter';
+    if (info.annotations?.some(decorator => decorator.endsWith('.setter'))) return 'setter';
+    return 'method';
+  }
+
+  /**
+   * Cyclomatic and cognitive complexity from indentation
+   *
+   * Same rules as the AST walk: structures cost 1 plus their nesting, `elif`/`else` a flat 1,
+   * each run of `and`/`or` 1. Top-level functions start at nesting 0, nested ones deepen it.
+   */
+  private measureLines(lines: LogicalLine[]): ComplexityMeasure {
+    let cyclomatic = 1;
+    let cognitive = 0;
+    const stack: Array<{ indent: number; nests: boolean; fn: boolean }> = [];
+
+    for (const line of lines) {
+      while (stack.length > 0 && stack[stack.length - 1].indent >= line.indent) stack.pop();
+
+      const outerFunction = stack.findIndex(entry => entry.fn);
+      const nesting = stack.slice(outerFunction + 1).filter(entry => entry.nests).length;
+      const head = line.text.match(/^(?:async\s+)?(\w+)/);
+      const keyword = head?.[1] || '';
+      let nests = false;
+
+      switch (keyword) {
+        case 'if':
+        case 'for':
+        case 'while':
+        case 'except':
+          cyclomatic++;
+          cognitive += 1 + nesting;
+          nests = true;
+          break;
+        case 'match':
+          cognitive += 1 + nesting;
+          nests = true;
+          break;
+        case 'elif':
+          cyclomatic++;
+          cognitive++;
+          nests = true;
+          break;
+        case 'else':
+          cognitive++;
+          nests = true;
+          break;
+        case 'case':
+          cyclomatic++;
+          break;
+      }
+
+      // Conditional expressions and comprehension clauses after the statement keyword
+      const rest = line.text.slice(head?.[0].length || 0);
+      for (const inline of rest.matchAll(/\b(if|for)\b/g)) {
+        cyclomatic++;
+        if (inline[1] === 'if') cognitive += 1 + nesting;
+      }
+
+      let previous = '';
+      for (const operator of line.text.matchAll(/\b(and|or)\b/g)) {
+        cyclomatic++;
+        if (operator[1] !== previous) cognitive++;
+        previous = operator[1];
+      }
+
+      if (line.text.endsWith(':')) {
+        const fn = keyword === 'def';
+        stack.push({ indent: line.indent, nests: nests || (fn && outerFunction !== -1), fn });
+      }
+    }
+
+    return { cyclomatic, cognitive };
+  }
+
+  /**
+   * `__all__` when declared, otherwise the public top-level names
+   */
+  private extractExports(content: string, masked: string, lines: LogicalLine[], topLevelNames: string[]): string[] {
+    const allLine = lines.find(line => line.indent === 0 && /^__all__\s*(?::[^=]*)?=/.test(line.text));
+    if (allLine) {
+      const names: string[] = [];
+      const quotes = /(['"])(\s*)\1/g;
+      const segment = masked.slice(allLine.start, allLine.end);
+      let match;
+      while ((match = quotes.exec(segment)) !== null) {
+        const from = allLine.start + match.index + 1;
+        names.push(content.slice(from, from + match[2].length));
+      }
+      return names;
+    }
+
+    const names = [...topLevelNames];
+    for (const line of lines) {
+      const assignment = line.indent === 0 && line.text.match(/^([A-Za-z]\w*)\s*(?::[^=]*)?=(?!=)/);
+      if (assignment) names.push(assignment[1]);
+    }
+
+    return [...new Set(names)].filter(name => !name.startsWith('_'));
+  }
+
+  /**
+   * Count references, separating annotations from value uses
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName) return;
+
+    const escaped = symbol.localName.replace(/\./g, '\\.');
+    const regex = new RegExp(`(?<![\\w.])${escaped}\\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 30), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 40);
+
+      if (/\bawait\s+$/.test(before)) symbol.awaited++;
+
+      // Calls and attribute access are value uses, parameter and return annotations are types
+      if (/^\s*(?:\(|\.)/.test(after)) continue;
+      if (/(?:->|\w\s*:)\s*[\w.[, ]*$/.test(before)) symbol.typeReferences++;
+    }
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * Python Resolver - Maps dotted module paths against the project's package roots
+ */
+export class PythonResolver extends LanguageResolver {
+  private pythonRoots: string[] = [];
+  private readonly pythonTopLevel = new Set<string>();
+
+  constructor(context: ImportContext) {
+    super(context);
+    this.loadPythonRoots(this.modulesOf('python'));
+  }
+
+  /**
+   * Resolve a dotted Python module path, relative (`.mod`) or against the package roots
+   *
+   * `from a import b` arrives as `a.b`: when `b` is not a submodule the module `a` is meant.
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const segments = specifier.slice(dots).split('.').filter(Boolean);
+    const importerDir = this.dirOf(importer.path);
+
+    let bases: string[];
+    if (dots > 0) {
+      // One dot is the importer's package, each further dot one level up
+      let base = importerDir;
+      for (let i = 1; i < dots; i++) base = path.posix.dirname(base) === '.' ? '' : path.posix.dirname(base);
+      bases = [base];
+    } else {
+      // Scripts outside any package also see their own directory
+      bases = [...this.pythonRoots, importerDir];
+    }
+
+    for (const length of [segments.length, segments.length - 1]) {
+      if (length < 0 || (length === 0 && dots === 0)) continue;
+      const modulePath = segments.slice(0, length).join('/');
+
+      for (const base of bases) {
+        const stem = [base, modulePath].filter(Boolean).join('/');
+        const moduleId = this.moduleIdForFile(`${stem}.py`) || this.moduleIdForFile(`${stem ? stem + '/' : ''}__init__.py`);
+        if (moduleId) return { moduleId, external: false };
+      }
+    }
+
+    // Unknown top-level names are the standard library or installed packages
+    return { external: dots === 0 && !this.pythonTopLevel.has(segments[0]) };
+  }
+
+  /**
+   * Find the directories absolute imports start from
+   *
+   * A package root is the parent of the outermost directory holding `__init__.py`; pyproject.toml
+   * can name source roots (`where = ["src"]`, `package-dir = {"" = "src"}`, poetry `from = "src"`).
+   */
+  private loadPythonRoots(modules: CodeModule[]): void {
+    const roots = new Set<string>(['']);
+    const configDirs = new Set<string>(['']);
+
+    for (const module of modules) {
+      let dir = this.dirOf(module.path);
+
+      for (let current = dir; current; current = path.posix.dirname(current) === '.' ? '' : path.posix.dirname(current)) {
+        configDirs.add(current);
+      }
+
+      while (dir && fs.existsSync(path.join(this.context.projectPath, dir, '__init__.py'))) {
+        const parent = path.posix.dirname(dir);
+        dir = parent === '.' ? '' : parent;
+      }
+      roots.add(dir);
+    }
+
+    for (const dir of configDirs) {
+      const pyprojectPath = path.join(this.context.projectPath, dir, 'pyproject.toml');
+      if (!fs.existsSync(pyprojectPath)) continue;
+
+      const pyproject = fs.readFileSync(pyprojectPath, 'utf-8');
+      const sourceRoots = [
+        ...pyproject.matchAll(/\bwhere\s*=\s*\[([^\]]*)\]/g),
+        ...pyproject.matchAll(/\bpackage-dir\s*=\s*\{[^}]*""\s*=\s*("[^"]*")/g),
+        ...pyproject.matchAll(/\bfrom\s*=\s*("[^"]*")/g),
+      ].flatMap(match => [...match[1].matchAll(/"([^"]*)"/g)].map(quoted => quoted[1]));
+
+      for (const sourceRoot of sourceRoots) {
+        roots.add(path.posix.join(dir || '.', sourceRoot).replace(/^\.\/?|\/$/g, ''));
+      }
+    }
+
+    // Deeper roots first: `src/` must win over the project root for `src/pkg`
+    this.pythonRoots = [...roots].sort((a, b) => b.length - a.length);
+
+    for (const module of modules) {
+      const filePath = this.toPosix(module.path);
+      const root = this.pythonRoots.find(r => r === '' || filePath.startsWith(r + '/'));
+      if (root === undefined) continue;
+      this.pythonTopLevel.add(filePath.slice(root ? root.length + 1 : 0).split('/')[0].replace(/\.py$/, ''));
+    }
+  }
+}
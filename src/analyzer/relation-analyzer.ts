@@ -1,85 +1,444 @@
-import { SocialRelationType, DependencyRelation, CharacterPersona, CodeModule } from './types.js';
+import {
+  SocialRelationType,
+  AsyncFlavor,
+  DependencyRelation,
+  DependencyCycle,
+  CharacterPersona,
+  CodeModule,
+  ImportedSymbol,
+} from './types.js';
 
 /**
  * Relationship Analyzer - Converts code dependencies into social relationships
  */
 export class RelationAnalyzer {
+  // Module id to character maps, built once per character list (cycle detection and relations share it)
+  private characterMaps = new WeakMap<CharacterPersona[], Map<string, CharacterPersona>>();
   /**
    * Generate social relationships between all characters
    */
   generateRelations(
     modules: CodeModule[],
-    characters: CharacterPersona[]
+    characters: CharacterPersona[],
+    cycles: DependencyCycle[] = []
   ): DependencyRelation[] {
     const relations: DependencyRelation[] = [];
     const processedPairs = new Set<string>();
+    const moduleToCharacter = this.buildCharacterMap(modules, characters);
+    const moduleById = new Map(modules.map(m => [m.id, m]));
 
-    // Build module ID to character mapping
-    const moduleToCharacter = new Map<string, CharacterPersona>();
-    for (const char of characters) {
-      moduleToCharacter.set(char.originalFile, char);
+    // Every edge inside a strongly connected component lies on a cycle
+    const cycleByEdge = new Map<string, DependencyCycle>();
+    for (const cycle of cycles) {
+      for (const edge of cycle.edges) {
+        cycleByEdge.set(`${edge.from}->${edge.to}`, cycle);
+      }
     }
 
     // Analyze import relationships for each module
     for (const module of modules) {
+      const fromChar = moduleToCharacter.get(module.id);
+      if (!fromChar) continue;
+
       for (const imp of module.imports) {
-        const pairKey = `${module.id}->${imp}`;
-        const reverseKey = `${imp}->${module.id}`;
+        const toChar = moduleToCharacter.get(imp);
+        if (!toChar) continue;
+
+        const pairKey = `${fromChar.characterId}->${toChar.characterId}`;
+        const reverseKey = `${toChar.characterId}->${fromChar.characterId}`;
 
         // Avoid duplicate processing
         if (processedPairs.has(pairKey)) continue;
         processedPairs.add(pairKey);
 
-        // Check for circular dependencies
-        const hasReverse = modules.some(m =>
-          m.id === imp && m.imports.includes(module.id)
-        );
+        const cycle = cycleByEdge.get(pairKey);
 
-        if (hasReverse) {
-          if (!processedPairs.has(reverseKey)) {
-            relations.push({
-              from: module.id,
-              to: imp,
-              relationType: SocialRelationType.TOXIC_RELATIONSHIP,
-              strength: 0.9,
-              description: this.generateDescription(SocialRelationType.TOXIC_RELATIONSHIP, module.id, imp),
-            });
-            processedPairs.add(reverseKey);
-          }
+        if (cycle) {
+          // Mutual imports are drawn as a single bidirectional toxic pipe
+          if (processedPairs.has(reverseKey) && cycleByEdge.has(reverseKey)) continue;
+
+          relations.push({
+            from: fromChar.characterId,
+            to: toChar.characterId,
+            relationType: SocialRelationType.TOXIC_RELATIONSHIP,
+            strength: 0.9,
+            description: cycle.length > 2
+              ? `${fromChar.name} and ${toChar.name} are tangled in a ${cycle.label}`
+              : this.generateDescription(SocialRelationType.TOXIC_RELATIONSHIP, fromChar.name, toChar.name),
+            symbols: this.getImportedSymbols(module, imp),
+            cycleId: cycle.id,
+          });
         } else {
           // Unidirectional dependency
           const relation = this.analyzeSingleDependency(
             module,
-            imp,
-            moduleToCharacter
+            moduleById.get(imp)!,
+            fromChar,
+            toChar
           );
           relations.push(relation);
         }
       }
     }
 
+    // Class hierarchies are drawn next to the import network
+    relations.push(...this.generateFamilyRelations(modules, moduleById, moduleToCharacter));
+
     return relations;
   }
 
+  /**
+   * Generate parent/child (extends) and mentor/apprentice (implements) relations
+   */
+  private generateFamilyRelations(
+    modules: CodeModule[],
+    moduleById: Map<string, CodeModule>,
+    moduleToCharacter: Map<string, CharacterPersona>
+  ): DependencyRelation[] {
+    const relations: DependencyRelation[] = [];
+    const seen = new Set<string>();
+
+    for (const module of modules) {
+      const fromChar = moduleToCharacter.get(module.id);
+      if (!fromChar) continue;
+
+      for (const cls of module.classes) {
+        const heritage: Array<[string, SocialRelationType]> = [
+          ...(cls.extends ? [[cls.extends, SocialRelationType.PARENT_CHILD] as [string, SocialRelationType]] : []),
+          ...cls.implements.map(name => [name, SocialRelationType.MENTOR_APPRENTICE] as [string, SocialRelationType]),
+        ];
+
+        for (const [baseName, relationType] of heritage) {
+          const declaring = this.resolveDeclaringModule(module, baseName, modules, moduleById);
+          if (!declaring || declaring.id === module.id) continue;
+
+          const toChar = moduleToCharacter.get(declaring.id);
+          if (!toChar || toChar === fromChar) continue;
+
+          const key = `${relationType}:${fromChar.characterId}->${toChar.characterId}:${cls.name}:${baseName}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          const relationLabel = relationType === SocialRelationType.PARENT_CHILD ? 'extends' : 'implements';
+          relations.push({
+            from: fromChar.characterId,
+            to: toChar.characterId,
+            relationType,
+            strength: relationType === SocialRelationType.PARENT_CHILD ? 0.8 : 0.6,
+            description: `${this.generateDescription(relationType, fromChar.name, toChar.name)} (${cls.name} ${relationLabel} ${baseName})`,
+            symbols: this.getImportedSymbols(module, declaring.id).filter(s =>
+              s.localName === baseName || s.localName === this.qualifierOf(baseName)
+            ),
+          });
+        }
+      }
+    }
+
+    return relations;
+  }
+
+  /**
+   * Find the module declaring a base class or interface referenced by name
+   */
+  private resolveDeclaringModule(
+    module: CodeModule,
+    baseName: string,
+    modules: CodeModule[],
+    moduleById: Map<string, CodeModule>
+  ): CodeModule | undefined {
+    // Follow the import that binds the name, through barrel re-exports
+    for (const binding of module.importBindings) {
+      const symbol = binding.symbols.find(s =>
+        s.localName === baseName || s.localName === this.qualifierOf(baseName)
+      );
+      if (symbol && binding.moduleId) {
+        return this.followReExports(binding.moduleId, symbol.name, moduleById, new Set())
+          || moduleById.get(binding.moduleId);
+      }
+    }
+
+    // TS/JS names must be imported; other languages share names across a package
+    if (module.language === 'typescript' || module.language === 'javascript') {
+      return undefined;
+    }
+
+    const simpleName = baseName.split(/\.|::/).pop() || baseName;
+    const candidates = modules.filter(m =>
+      m.id !== module.id && m.classes.some(c => c.name === simpleName && c.kind !== 'extension')
+    );
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Leading segment of a qualified name (`fmt` in `fmt::Display`, `models` in `models.Base`)
+   */
+  private qualifierOf(name: string): string {
+    return name.split(/\.|::/)[0];
+  }
+
+  /**
+   * Walk `export { X } from` / `export * from` chains to the declaring module
+   *
+   * Returns undefined when no module along the chain declares the name.
+   */
+  private followReExports(
+    moduleId: string,
+    exportedName: string,
+    moduleById: Map<string, CodeModule>,
+    visited: Set<string>
+  ): CodeModule | undefined {
+    const module = moduleById.get(moduleId);
+    if (!module || visited.has(moduleId)) return undefined;
+    visited.add(moduleId);
+
+    // Declared here
+    if (module.classes.some(c => c.name === exportedName) || module.typeExports.includes(exportedName)) {
+      return module;
+    }
+
+    for (const binding of module.importBindings) {
+      if (!binding.moduleId) continue;
+
+      const forwarded = binding.symbols.find(s =>
+        (s.localName === '' && (s.name === exportedName || s.name === '*')) || s.localName === exportedName
+      );
+      if (forwarded) {
+        const target = this.followReExports(
+          binding.moduleId,
+          forwarded.name === '*' ? exportedName : forwarded.name,
+          moduleById,
+          visited
+        );
+        if (target) return target;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Detect dependency cycles as strongly connected components (Tarjan's algorithm)
+   *
+   * Only runtime imports count: a loop closed by `import type` edges is erased at compile time.
+   */
+  detectCycles(modules: CodeModule[], characters: CharacterPersona[]): DependencyCycle[] {
+    const moduleToCharacter = this.buildCharacterMap(modules, characters);
+
+    // Character-level adjacency list
+    const graph = new Map<string, string[]>();
+    for (const module of modules) {
+      const fromChar = moduleToCharacter.get(module.id);
+      if (!fromChar) continue;
+
+      const targets = graph.get(fromChar.characterId) || [];
+      for (const imp of this.runtimeImports(module)) {
+        const toChar = moduleToCharacter.get(imp);
+        if (toChar && toChar !== fromChar && !targets.includes(toChar.characterId)) {
+          targets.push(toChar.characterId);
+        }
+      }
+      graph.set(fromChar.characterId, targets);
+    }
+
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    const strongConnect = (node: string): void => {
+      indices.set(node, nextIndex);
+      lowLinks.set(node, nextIndex);
+      nextIndex++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const target of graph.get(node) || []) {
+        if (!indices.has(target)) {
+          strongConnect(target);
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(target)!));
+        } else if (onStack.has(target)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(target)!));
+        }
+      }
+
+      // Root of a component: pop all its members
+      if (lowLinks.get(node) === indices.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+
+        if (component.length > 1) {
+          components.push(component.reverse());
+        }
+      }
+    };
+
+    for (const node of graph.keys()) {
+      if (!indices.has(node)) {
+        strongConnect(node);
+      }
+    }
+
+    return components.map((members, i) => {
+      const memberSet = new Set(members);
+      const edges = members.flatMap(from =>
+        (graph.get(from) || [])
+          .filter(to => memberSet.has(to))
+          .map(to => ({ from, to }))
+      );
+
+      return {
+        id: `cycle-${i + 1}`,
+        members,
+        length: members.length,
+        edges,
+        label: this.getCycleLabel(members.length),
+      };
+    });
+  }
+
+  /**
+   * Imported modules some binding uses at runtime; modules imported without bindings count too
+   *
+   * Declaring a child module without using it only builds the tree, so it cannot close a cycle
+   * with the child's `use super::...`.
+   */
+  private runtimeImports(module: CodeModule): string[] {
+    const typeOnly = new Set<string>();
+    const runtime = new Set<string>();
+
+    for (const binding of module.importBindings) {
+      if (!binding.moduleId) continue;
+      const erased = (binding.symbols.length > 0 && binding.symbols.every(s => this.isTypeOnlyUse(s))) ||
+        (binding.declaration === true && binding.symbols.every(s => s.references === 0));
+      (erased ? typeOnly : runtime).add(binding.moduleId);
+    }
+
+    return module.imports.filter(imp => runtime.has(imp) || !typeOnly.has(imp));
+  }
+
+  /**
+   * Whether a symbol is declared type-only or only used in type positions
+   */
+  private isTypeOnlyUse(symbol: ImportedSymbol): boolean {
+    return symbol.typeOnly || (symbol.references > 0 && symbol.references === symbol.typeReferences);
+  }
+
+  /**
+   * Name a cycle after its cast size
+   */
+  private getCycleLabel(length: number): string {
+    if (length === 2) return 'Toxic Couple';
+    if (length === 3) return 'Love Triangle';
+    return 'Drama Circle';
+  }
+
+  /**
+   * Build module ID to character mapping (a character's id is its module's id)
+   */
+  private buildCharacterMap(
+    modules: CodeModule[],
+    characters: CharacterPersona[]
+  ): Map<string, CharacterPersona> {
+    let moduleToCharacter = this.characterMaps.get(characters);
+    if (!moduleToCharacter) {
+      const moduleIds = new Set(modules.map(m => m.id));
+      moduleToCharacter = new Map(
+        characters.filter(char => moduleIds.has(char.characterId)).map(char => [char.characterId, char])
+      );
+      this.characterMaps.set(characters, moduleToCharacter);
+    }
+    return moduleToCharacter;
+  }
+
   /**
    * Analyze unidirectional dependency relationship
    */
   private analyzeSingleDependency(
     fromModule: CodeModule,
-    toModuleId: string,
-    characters: Map<string, CharacterPersona>
+    toModule: CodeModule,
+    fromChar: CharacterPersona,
+    toChar: CharacterPersona
   ): DependencyRelation {
-    const fromChar = characters.get(fromModule.path);
-    const relationType = this.determineRelationType(fromModule, toModuleId, characters);
-    const strength = this.calculateStrength(fromModule, toModuleId);
+    const symbols = this.getImportedSymbols(fromModule, toModule.id);
+    const renders = symbols.reduce((sum, s) => sum + (s.renders || 0), 0);
+
+    // Rendering a component outranks any other use of its module
+    if (renders > 0) {
+      return this.analyzeRender(fromChar, toChar, symbols, renders);
+    }
 
-    return {
-      from: fromModule.id,
-      to: toModuleId,
+    const asyncFlavor = this.determineAsyncFlavor(fromModule, toModule.id, symbols);
+    const relationType = asyncFlavor
+      ? SocialRelationType.SECRET_ADMIRER
+      : this.determineRelationType(fromModule, toModule, symbols, fromChar, toChar);
+    const strength = this.calculateStrength(symbols);
+
+    const relation: DependencyRelation = {
+      from: fromChar.characterId,
+      to: toChar.characterId,
       relationType,
       strength,
-      description: this.generateDescription(relationType, fromChar?.name || 'Unknown', toModuleId),
+      description: asyncFlavor
+        ? this.generateAsyncDescription(asyncFlavor, fromChar.name, toChar.name)
+        : this.generateDescription(relationType, fromChar.name, toChar.name),
+      symbols,
     };
+
+    if (asyncFlavor) {
+      relation.asyncFlavor = asyncFlavor;
+    }
+
+    this.tagHooks(relation);
+    return relation;
+  }
+
+  /**
+   * Stage Parent relation of a component rendering another, strength growing with the render count
+   */
+  private analyzeRender(
+    fromChar: CharacterPersona,
+    toChar: CharacterPersona,
+    symbols: ImportedSymbol[],
+    renders: number
+  ): DependencyRelation {
+    const base = 0.5;
+    const strength = Math.round((base + (1 - base) * (1 - Math.exp(-renders / 4))) * 100) / 100;
+
+    const tags = symbols
+      .filter(s => (s.renders || 0) > 0)
+      .map(s => `<${s.localName}>${s.renders! > 1 ? ` ×${s.renders}` : ''}`);
+
+    const relation: DependencyRelation = {
+      from: fromChar.characterId,
+      to: toChar.characterId,
+      relationType: SocialRelationType.STAGE_PARENT,
+      strength,
+      description: `${this.generateDescription(SocialRelationType.STAGE_PARENT, fromChar.name, toChar.name)} (renders ${tags.join(', ')})`,
+      symbols,
+    };
+
+    this.tagHooks(relation);
+    return relation;
+  }
+
+  /**
+   * Tag the custom hooks (`useX`) a relation borrows from its target
+   */
+  private tagHooks(relation: DependencyRelation): void {
+    const hooks = relation.symbols
+      .filter(s => (s.hooks || 0) > 0)
+      .map(s => s.name === 'default' ? s.localName : s.name);
+    if (hooks.length > 0) {
+      relation.hooks = hooks;
+      relation.description += ` (hooks ${hooks.join(', ')})`;
+    }
   }
 
   /**
@@ -87,33 +446,25 @@ export class RelationAnalyzer {
    */
   private determineRelationType(
     fromModule: CodeModule,
-    toModuleId: string,
-    characters: Map<string, CharacterPersona>
+    toModule: CodeModule,
+    symbols: ImportedSymbol[],
+    fromChar: CharacterPersona,
+    toChar: CharacterPersona
   ): SocialRelationType {
-    const fromChar = characters.get(fromModule.path);
-    const toChar = characters.get(toModuleId);
-
-    // Check if async dependency (event listeners, pub-sub, etc.)
-    if (this.isAsyncDependency(fromModule, toModuleId)) {
-      return SocialRelationType.SECRET_ADMIRER;
-    }
-
     // Check if interface dependency (contract relationship)
-    if (this.isInterfaceDependency(fromModule, toModuleId)) {
+    if (this.isInterfaceDependency(fromModule, toModule, symbols)) {
       return SocialRelationType.CONTRACT;
     }
 
     // Determine based on personality type
-    if (fromChar && toChar) {
-      // Hero has strong dependency on everyone
-      if (fromChar.personality === 'heroic') {
-        return SocialRelationType.BEST_FRIEND;
-      }
+    // Hero has strong dependency on everyone
+    if (fromChar.personality === 'heroic') {
+      return SocialRelationType.BEST_FRIEND;
+    }
 
-      // Utility classes being called are usually weak dependencies
-      if (toChar.personality === 'helpful' || toChar.personality === 'busy') {
-        return SocialRelationType.FAN_FOLLOWING;
-      }
+    // Utility classes being called are usually weak dependencies
+    if (toChar.personality === 'helpful' || toChar.personality === 'busy') {
+      return SocialRelationType.FAN_FOLLOWING;
     }
 
     // Default to unidirectional dependency (unrequited love)
@@ -121,51 +472,103 @@ export class RelationAnalyzer {
   }
 
   /**
-   * Check if this is an async dependency
+   * Determine async communication style from how the imported symbols are used
    */
-  private isAsyncDependency(fromModule: CodeModule, toModuleId: string): boolean {
-    const asyncPatterns = [
-      /event/i,
-      /emitter/i,
-      /subscribe/i,
-      /observe/i,
-      /listener/i,
-      /hook/i,
+  private determineAsyncFlavor(
+    fromModule: CodeModule,
+    toModuleId: string,
+    symbols: ImportedSymbol[]
+  ): AsyncFlavor | null {
+    const bindings = fromModule.importBindings.filter(b => b.moduleId === toModuleId);
+
+    // Only reached through `import()`
+    if (bindings.length > 0 && bindings.every(b => b.dynamic)) {
+      return 'lazy-load';
+    }
+
+    const references = symbols.reduce((sum, s) => sum + s.references, 0);
+    const counts: Array<[AsyncFlavor, number]> = [
+      ['event', symbols.reduce((sum, s) => sum + s.events, 0)],
+      ['awaited', symbols.reduce((sum, s) => sum + s.awaited, 0)],
+      ['callback', symbols.reduce((sum, s) => sum + s.callbacks, 0)],
     ];
+    const asyncUses = counts.reduce((sum, [, count]) => sum + count, 0);
 
-    for (const func of fromModule.functions) {
-      if (func.async || asyncPatterns.some(p => p.test(func.name))) {
-        return true;
-      }
+    // Async usage must dominate, a single awaited call among many sync ones does not count
+    if (asyncUses === 0 || asyncUses * 2 < references) {
+      return null;
     }
 
-    return false;
+    counts.sort((a, b) => b[1] - a[1]);
+    return counts[0][0];
   }
 
   /**
    * Check if this is an interface dependency
    */
-  private isInterfaceDependency(fromModule: CodeModule, toModuleId: string): boolean {
-    const interfacePatterns = [/interface/i, /abstract/i, /protocol/i];
+  private isInterfaceDependency(
+    fromModule: CodeModule,
+    toModule: CodeModule,
+    symbols: ImportedSymbol[]
+  ): boolean {
+    // Interface-only module: nothing it exports exists at runtime
+    if (toModule.exports.length > 0 && toModule.exports.every(e => toModule.typeExports.includes(e))) {
+      return true;
+    }
+
+    // Every imported symbol is declared type-only or only used in type positions
+    if (symbols.length > 0 && symbols.every(s => this.isTypeOnlyUse(s))) {
+      return true;
+    }
 
-    return interfacePatterns.some(p => p.test(toModuleId));
+    // A class in this module implements an interface declared by the target
+    const importedNames = new Set(symbols.map(s => s.localName).filter(Boolean));
+    return fromModule.classes.some(c => c.implements.some(name =>
+      importedNames.has(name) || importedNames.has(this.qualifierOf(name))
+    ));
   }
 
   /**
-   * Calculate relationship strength
+   * Merge symbols imported from the target module across all import statements
    */
-  private calculateStrength(fromModule: CodeModule, toModuleId: string): number {
-    // Calculate based on call frequency and type
-    let strength = 0.5;
+  private getImportedSymbols(fromModule: CodeModule, toModuleId: string): ImportedSymbol[] {
+    const merged = new Map<string, ImportedSymbol>();
 
-    // Used in functions
-    const usedInFunctions = fromModule.functions.filter(f =>
-      f.name.toLowerCase().includes(toModuleId.toLowerCase().split('/').pop() || '')
-    ).length;
+    for (const binding of fromModule.importBindings) {
+      if (binding.moduleId !== toModuleId) continue;
 
-    strength += Math.min(0.5, usedInFunctions * 0.1);
+      for (const symbol of binding.symbols) {
+        const existing = merged.get(symbol.name);
+        if (existing) {
+          existing.typeOnly = existing.typeOnly && symbol.typeOnly;
+          existing.references += symbol.references;
+          existing.typeReferences += symbol.typeReferences;
+          existing.awaited += symbol.awaited;
+          existing.events += symbol.events;
+          existing.callbacks += symbol.callbacks;
+          if (symbol.renders) existing.renders = (existing.renders || 0) + symbol.renders;
+          if (symbol.hooks) existing.hooks = (existing.hooks || 0) + symbol.hooks;
+        } else {
+          merged.set(symbol.name, { ...symbol });
+        }
+      }
+    }
 
-    return Math.min(1, strength);
+    return [...merged.values()].sort((a, b) => b.references - a.references);
+  }
+
+  /**
+   * Calculate relationship strength from symbol usage
+   */
+  private calculateStrength(symbols: ImportedSymbol[]): number {
+    // Side-effect imports carry the weakest coupling
+    const base = 0.2;
+
+    // Each distinct symbol and each reference pulls the pair closer, saturating towards 1
+    const usage = symbols.length + symbols.reduce((sum, s) => sum + s.references, 0);
+    const strength = base + (1 - base) * (1 - Math.exp(-usage / 8));
+
+    return Math.round(Math.min(1, strength) * 100) / 100;
   }
 
   /**
@@ -185,8 +588,25 @@ export class RelationAnalyzer {
       [SocialRelationType.SECRET_ADMIRER]: `${fromName} sends Secret Admirer messages to ${toSimpleName}`,
       [SocialRelationType.FAN_FOLLOWING]: `${fromName} is a Fan Following of ${toSimpleName}`,
       [SocialRelationType.CONTRACT]: `${fromName} and ${toSimpleName} have a Contract Relationship`,
+      [SocialRelationType.PARENT_CHILD]: `${fromName} is the Child of ${toSimpleName}`,
+      [SocialRelationType.MENTOR_APPRENTICE]: `${fromName} is the Apprentice of ${toSimpleName}`,
+      [SocialRelationType.STAGE_PARENT]: `${fromName} is the Stage Parent of ${toSimpleName}`,
     };
 
     return descriptions[relationType];
   }
+
+  /**
+   * Generate social description for a Secret Admirer relationship
+   */
+  private generateAsyncDescription(flavor: AsyncFlavor, fromName: string, toName: string): string {
+    const descriptions: Record<AsyncFlavor, string> = {
+      awaited: `${fromName} patiently awaits Secret Admirer replies from ${toName}`,
+      event: `${fromName} sends Secret Admirer messages to ${toName}`,
+      callback: `${fromName} leaves Secret Admirer notes for ${toName} to call back`,
+      'lazy-load': `${fromName} is a Long-Distance Secret Admirer of ${toName}, only visiting when needed`,
+    };
+
+    return descriptions[flavor];
+  }
 }
@@ -0,0 +1,469 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityMeasure } from './complexity-analyzer.js';
+
+/**
+ * Keyword that shapes the block structure or the control flow
+ */
+interface RubyToken {
+  word: string;
+  index: number;
+  role: 'open' | 'close' | 'modifier' | 'inline';  // Opens a block closed by `end`, closes one, trails a statement, or neither
+}
+
+/**
+ * Block opened by a keyword and closed by its `end`
+ */
+interface Block {
+  token: RubyToken;
+  close: number;                   // Index of the closing `end` (content length when missing)
+  info?: ClassInfo;                // Class or module declared by the block
+  method?: FunctionInfo;           // Method defined by the block
+}
+
+/**
+ * Ruby Extractor - requires, classes, modules, mixins, methods and `end`-delimited complexity
+ */
+export class RubyExtractor {
+  private scanner = new SourceScanner({
+    lineComments: ['#'],
+    blockComments: [['=begin', '=end']],
+    quotes: ['"', "'", '`'],
+  });
+
+  // Keywords that open a block only when they start a statement (otherwise they are modifiers)
+  private readonly conditionalOpeners = new Set(['if', 'unless', 'while', 'until', 'for']);
+  private readonly alwaysOpeners = new Set(['class', 'module', 'def', 'begin', 'case', 'do']);
+  private readonly loops = new Set(['while', 'until', 'for']);
+  private readonly branches = new Set(['if', 'unless', 'while', 'until', 'for']);
+
+  // Method names: identifiers with `?`/`!`/`=` suffixes, `[]`/`[]=` and operators
+  private readonly methodName = '([\\w]+[?!=]?|\\[\\]=?|[+\\-*\\/%<>=!~^&|]+)';
+
+  private readonly keywords = new Set([
+    'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'defined', 'do', 'else', 'elsif', 'end', 'ensure',
+    'extend', 'false', 'for', 'if', 'in', 'include', 'lambda', 'loop', 'module', 'next', 'nil', 'not', 'or',
+    'prepend', 'proc', 'puts', 'raise', 'redo', 'require', 'require_relative', 'rescue', 'retry', 'return',
+    'self', 'super', 'then', 'true', 'undef', 'unless', 'until', 'when', 'while', 'yield',
+  ]);
+
+  /**
+   * Extract module structure from Ruby source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.maskHeredocs(content, this.scanner.mask(content));
+    const tokens = this.tokenize(masked);
+    const blocks = this.matchBlocks(content, masked, tokens);
+
+    const classes: ClassInfo[] = [];
+    const functions: FunctionInfo[] = [];
+    const topLevelNames: string[] = [];
+
+    for (const block of blocks) {
+      if (block.info) {
+        classes.push(block.info);
+        continue;
+      }
+      if (!block.method) continue;
+
+      // The innermost class or module around a method owns it (`class << self` included)
+      const owner = this.enclosing(blocks, block, b => !!b.info);
+      if (owner) {
+        owner.info!.methods.push(block.method);
+      } else if (!this.enclosing(blocks, block, b => !!b.method)) {
+        functions.push(block.method);
+        topLevelNames.push(block.method.name);
+      }
+    }
+
+    this.extractMixins(masked, blocks);
+
+    const importRanges: Array<[number, number]> = [];
+    const importBindings = this.extractRequires(content, masked, blocks, importRanges);
+
+    // References are counted outside the require calls
+    let body = masked;
+    for (const [start, end] of importRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+
+    // A required file defines constants and methods for the whole program: offer every name used
+    // here, resolution keeps those the required file actually declares
+    const localNames = new Set(classes.map(cls => cls.name));
+    const candidates = this.collectNames(body).filter(name => !localNames.has(name));
+    for (const binding of importBindings) {
+      binding.symbols = candidates.map(name => {
+        const symbol = this.createSymbol(name, name);
+        this.countReferences(body, symbol);
+        return symbol;
+      });
+    }
+
+    const whole = this.measure(tokens);
+    const methodCount = blocks.filter(block => block.method).length;
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings,
+      exports: [...new Set([...classes.map(cls => cls.name), ...topLevelNames])],
+      typeExports: [],
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, methodCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+    };
+  }
+
+  /**
+   * Find block keywords and classify them as openers, closers, modifiers or plain control flow
+   *
+   * `if`/`unless`/`while`/`until` open a block only at the start of a statement or expression;
+   * after other code they are modifiers (`return if done`). The `do` of `while x do` is part of the loop.
+   */
+  private tokenize(masked: string): RubyToken[] {
+    const tokens: RubyToken[] = [];
+    const regex = /(?<![.\w:$@])(class|module|def|begin|case|do|if|unless|while|until|for|end|elsif|else|when|rescue|ensure|and|or)(?![\w?!:])|&&|\|\||[;\n]/g;
+    let statementStart = 0;
+    let loopStatement = false;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const word = match[0];
+      const index = match.index;
+
+      if (word === '\n' || word === ';') {
+        // Lines ending in an operator or comma continue the statement
+        if (word === ';' || !/(?:[,(\[{|&+\-*\/=\\]|\band|\bor)\s*$/.test(masked.slice(statementStart, index))) {
+          statementStart = index + 1;
+          loopStatement = false;
+        }
+        continue;
+      }
+
+      const prefix = masked.slice(statementStart, index).trim();
+      const startsExpression = prefix === '' || /(?:[=(,\[{|&!]|\breturn|\bthen|\bdo|\belse|\bbegin)$/.test(prefix);
+
+      if (word === 'end') {
+        tokens.push({ word, index, role: 'close' });
+      } else if (word === 'do' && loopStatement) {
+        tokens.push({ word, index, role: 'inline' });
+      } else if (this.alwaysOpeners.has(word)) {
+        // Endless methods (`def full_name = "#{first} #{last}"`) have no `end`
+        const endless = word === 'def' && this.isEndlessDef(masked, index);
+        tokens.push({ word, index, role: endless ? 'inline' : 'open' });
+      } else if (this.conditionalOpeners.has(word)) {
+        tokens.push({ word, index, role: startsExpression ? 'open' : 'modifier' });
+        if (startsExpression && this.loops.has(word)) loopStatement = true;
+      } else if (word === 'rescue' && !startsExpression) {
+        tokens.push({ word, index, role: 'modifier' });
+      } else {
+        tokens.push({ word, index, role: 'inline' });
+      }
+
+      // Code after `do`/`else`/`begin` on the same line starts a new expression
+      if (word === 'do' || word === 'else' || word === 'begin') statementStart = index + word.length;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Whether a `def` at index is an endless method definition
+   */
+  private isEndlessDef(masked: string, index: number): boolean {
+    const head = masked.slice(index).match(new RegExp(`^def\\s+(?:self\\.)?${this.methodName}\\s*(\\()?`));
+    if (!head) return false;
+
+    let rest = index + head[0].length;
+    if (head[2]) {
+      const close = this.scanner.findClosing(masked, rest - 1);
+      if (close === -1) return false;
+      rest = close + 1;
+    }
+
+    return /^[ \t]*=(?![=~>])/.test(masked.slice(rest));
+  }
+
+  /**
+   * Pair openers with their `end` and read the classes, modules and methods they declare
+   */
+  private matchBlocks(content: string, masked: string, tokens: RubyToken[]): Block[] {
+    const blocks: Block[] = [];
+    const stack: Block[] = [];
+
+    for (const token of tokens) {
+      if (token.role === 'open') {
+        const block: Block = { token, close: masked.length };
+        this.readDeclaration(content, masked, block);
+        blocks.push(block);
+        stack.push(block);
+      } else if (token.role === 'close') {
+        const block = stack.pop();
+        if (block) block.close = token.index;
+      } else if (token.word === 'def') {
+        // Endless methods are complete on their line
+        const block: Block = { token, close: this.lineEnd(masked, token.index) };
+        this.readDeclaration(content, masked, block);
+        blocks.push(block);
+      }
+    }
+
+    for (const block of blocks) {
+      if (!block.method || block.method.cyclomaticComplexity !== undefined) continue;
+
+      // Control flow of nested methods belongs to them, so only this method's own range is walked
+      const inner = tokens.filter(t => t.index > block.token.index && t.index < block.close);
+      const measure = this.measure(inner);
+      block.method.lines = this.scanner.lineAt(content, block.close) - this.scanner.lineAt(content, block.token.index) + 1;
+      block.method.cyclomaticComplexity = measure.cyclomatic;
+      block.method.cognitiveComplexity = measure.cognitive;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Read `class A::B < Base`, `class << self`, `module M` and `def self.name(params)` heads
+   */
+  private readDeclaration(content: string, masked: string, block: Block): void {
+    const head = masked.slice(block.token.index, this.lineEnd(masked, block.token.index));
+    const { word } = block.token;
+
+    // `class << self` only changes where the methods below it live
+    if (word === 'class' && /^class\s*<</.test(head)) return;
+
+    if (word === 'class' || word === 'module') {
+      const match = head.match(/^(?:class|module)\s+((?:::)?[A-Z][\w:]*)(?:\s*<\s*((?:::)?[A-Z][\w:]*))?/);
+      if (!match) return;
+
+      block.info = {
+        name: this.lastSegment(match[1]),
+        kind: word === 'module' ? 'module' : 'class',
+        extends: match[2] ? this.lastSegment(match[2]) : undefined,
+        implements: [],
+        methods: [],
+      };
+      return;
+    }
+
+    if (word === 'def') {
+      const match = head.match(new RegExp(`^def\\s+(?:self\\.)?${this.methodName}\\s*(\\()?`));
+      if (!match) return;
+
+      const [, name, paren] = match;
+      let params: string[] = [];
+      if (paren) {
+        const open = block.token.index + match[0].length - 1;
+        const close = this.scanner.findClosing(masked, open);
+        params = this.scanner.splitParams(content.slice(open + 1, close === -1 ? open + 1 : close));
+      } else {
+        params = this.scanner.splitParams(head.slice(match[0].length).split(/[;=]/)[0]);
+      }
+
+      block.method = {
+        name,
+        params,
+        async: false,
+        lines: 1,
+        kind: name === 'initialize' ? 'constructor' : /\w=$/.test(name) ? 'setter' : 'method',
+      };
+    }
+  }
+
+  /**
+   * `include`, `extend` and `prepend` make a module part of a class's contract
+   */
+  private extractMixins(masked: string, blocks: Block[]): void {
+    const regex = /^[ \t]*(?:include|extend|prepend)[ \t(]+((?:::)?[A-Z][\w:]*(?:\s*,\s*(?:::)?[A-Z][\w:]*)*)/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const index = match.index;
+      const owner = blocks
+        .filter(b => b.info && b.token.index < index && b.close > index)
+        .sort((a, b) => b.token.index - a.token.index)[0];
+      if (!owner) continue;
+
+      for (const name of match[1].split(',')) {
+        owner.info!.implements.push(this.lastSegment(name.trim()));
+      }
+    }
+  }
+
+  /**
+   * `require`, `require_relative`, `load` and `autoload` with a literal path
+   *
+   * `require_relative 'x'` becomes `./x`; `require 'x'` is looked up on the load path.
+   */
+  private extractRequires(
+    content: string,
+    masked: string,
+    blocks: Block[],
+    ranges: Array<[number, number]>
+  ): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /(?<![.\w])(require_relative|require|load|autoload)\b[ \t(]*(?::\w+\s*,\s*)?(['"])/g;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const quoteIndex = match.index + match[0].length - 1;
+      const target = this.scanner.readString(content, masked, quoteIndex);
+      if (!target || target.includes('#{')) continue;
+
+      const end = masked.indexOf(match[2], quoteIndex + 1);
+      ranges.push([match.index, end === -1 ? masked.length : end + 1]);
+
+      const relative = match[1] === 'require_relative' && !target.startsWith('.') && !target.startsWith('/');
+      const binding: ImportBinding = { specifier: relative ? `./${target}` : target, symbols: [], wildcard: true };
+
+      // Requires inside a method body run on first call
+      if (blocks.some(b => b.method && b.token.index < match!.index && b.close > match!.index)) {
+        binding.dynamic = true;
+      }
+      bindings.push(binding);
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Constants and called methods that may come from a required file
+   */
+  private collectNames(body: string): string[] {
+    const names = new Set<string>();
+
+    for (const match of body.matchAll(/(?<![\w@$])([A-Z]\w*)\b/g)) {
+      // Screaming constants such as MAX_SIZE are values, not classes or modules
+      if (!/^[A-Z0-9_]+$/.test(match[1]) || match[1].length === 1) names.add(match[1]);
+    }
+
+    for (const match of body.matchAll(/(?<![\w.@$:])([a-z_]\w*[?!]?)\(/g)) {
+      if (!this.keywords.has(match[1])) names.add(match[1]);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Count references; mixins and rescued errors are type-position uses
+   *
+   * A superclass (`class Cart < Base`) is not: it is loaded and initialized with every instance.
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    const escaped = symbol.localName.replace(/[?!]/g, '\\$&');
+    const regex = new RegExp(`(?<![\\w@$])${escaped}(?![\\w?!])`, 'g');
+
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 60), match.index);
+      if (/\b(?:include|extend|prepend|rescue)[ \t(]+(?:[\w:]+\s*,\s*)*$/.test(before)) {
+        symbol.typeReferences++;
+      }
+    }
+  }
+
+  /**
+   * Cyclomatic and cognitive complexity from the classified keywords
+   *
+   * Same rules as the AST walk: structures cost 1 plus their nesting, `elsif`/`else` a flat 1,
+   * modifiers (`x if y`) 1 plus nesting without opening a level, each run of `and`/`&&` 1.
+   */
+  private measure(tokens: RubyToken[]): ComplexityMeasure {
+    let cyclomatic = 1;
+    let cognitive = 0;
+    let nesting = 0;
+    let previous = '';
+    const nests: boolean[] = [];
+
+    for (const { word, role } of tokens) {
+      if (role === 'open') {
+        const nested = this.branches.has(word) || word === 'case';
+        if (this.branches.has(word)) cyclomatic++;
+        if (nested) cognitive += 1 + nesting;
+        nests.push(nested);
+        if (nested) nesting++;
+      } else if (role === 'close') {
+        if (nests.pop()) nesting--;
+      } else if (role === 'modifier') {
+        cyclomatic++;
+        cognitive += 1 + nesting;
+      } else if (word === 'elsif') {
+        cyclomatic++;
+        cognitive++;
+      } else if (word === 'else') {
+        cognitive++;
+      } else if (word === 'when') {
+        cyclomatic++;
+      } else if (word === 'rescue') {
+        cyclomatic++;
+        cognitive += 1 + nesting;
+      } else if (word === 'and' || word === 'or' || word === '&&' || word === '||') {
+        cyclomatic++;
+        if (previous !== word) cognitive++;
+      }
+
+      previous = word;
+    }
+
+    return { cyclomatic, cognitive };
+  }
+
+  /**
+   * Blank heredoc bodies (`<<~SQL ... SQL`), which the scanner leaves as code
+   */
+  private maskHeredocs(content: string, masked: string): string {
+    const output = masked.split('');
+
+    for (const match of content.matchAll(/<<[~-]?(["'`]?)([A-Za-z_]\w*)\1/g)) {
+      if (masked[match.index!] !== '<') continue;
+
+      const bodyStart = this.lineEnd(content, match.index!) + 1;
+      const terminator = new RegExp(`^[ \\t]*${match[2]}[ \\t]*$`, 'm');
+      const found = terminator.exec(content.slice(bodyStart));
+      const bodyEnd = found ? bodyStart + found.index + found[0].length : content.length;
+
+      for (let i = bodyStart; i < bodyEnd; i++) {
+        if (output[i] !== '\n') output[i] = ' ';
+      }
+    }
+
+    return output.join('');
+  }
+
+  /**
+   * Index of the newline ending the line at index (content length on the last line)
+   */
+  private lineEnd(text: string, index: number): number {
+    const end = text.indexOf('\n', index);
+    return end === -1 ? text.length : end;
+  }
+
+  /**
+   * Innermost block around another one that satisfies a condition
+   */
+  private enclosing(blocks: Block[], block: Block, condition: (candidate: Block) => boolean): Block | undefined {
+    return blocks
+      .filter(b => b !== block && condition(b) && b.token.index < block.token.index && b.close >= block.close)
+      .sort((a, b) => b.token.index - a.token.index)[0];
+  }
+
+  /**
+   * `Bar` of `Foo::Bar`
+   */
+  private lastSegment(name: string): string {
+    return name.split('::').filter(Boolean).pop() || name;
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,52 @@
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * Ruby Resolver - Maps `require` and `require_relative` paths to project files
+ */
+export class RubyResolver extends LanguageResolver {
+  private rubyLoadPaths: string[] = [];
+
+  constructor(context: ImportContext) {
+    super(context);
+    this.loadRubyLoadPaths(this.modulesOf('ruby'));
+  }
+
+  /**
+   * Resolve `require_relative` paths (`./x`) against the requiring file, `require` against the load path
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    const file = specifier.endsWith('.rb') ? specifier : `${specifier}.rb`;
+
+    if (specifier.startsWith('./') || specifier.startsWith('../')) {
+      const importerDir = path.posix.dirname(this.toPosix(importer.path));
+      return { moduleId: this.moduleIdForFile(path.posix.join(importerDir, file)), external: false };
+    }
+
+    for (const root of this.rubyLoadPaths) {
+      const moduleId = this.moduleIdForFile(path.posix.join(root || '.', file));
+      if (moduleId) return { moduleId, external: false };
+    }
+
+    // Gems and the standard library
+    return { external: true };
+  }
+
+  /**
+   * Every `lib/` directory holding Ruby files is on the load path, followed by the project root
+   */
+  private loadRubyLoadPaths(modules: CodeModule[]): void {
+    const roots = new Set<string>();
+
+    for (const module of modules) {
+      const segments = path.posix.dirname(this.toPosix(module.path)).split('/');
+      const lib = segments.lastIndexOf('lib');
+      if (lib !== -1) roots.add(segments.slice(0, lib + 1).join('/'));
+    }
+
+    this.rubyLoadPaths = [...[...roots].sort((a, b) => b.length - a.length), ''];
+  }
+}
@@ -0,0 +1,427 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * `impl` / `trait` block owning the functions declared inside it
+ */
+interface ItemBlock {
+  open: number;
+  close: number;
+  owner: ClassInfo;
+}
+
+/**
+ * One path brought into scope by a `use` tree
+ */
+interface UsePath {
+  segments: string[];
+  alias?: string;
+}
+
+/**
+ * Rust Extractor - mod/use declarations, fns, structs, enums, traits and impl blocks
+ */
+export class RustExtractor {
+  // Lifetimes share the quote with char literals, so only double quotes delimit strings
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"'],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'for', 'while', 'loop'],
+    switches: ['match'],
+    cases: ['=>'],
+  };
+
+  private readonly visibility = String.raw`(?:pub(?:\s*\([^)]*\))?\s+)?`;
+
+  /**
+   * Extract module structure from Rust source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(this.maskCharLiterals(content));
+
+    const classes = this.extractTypes(masked);
+    const blocks = this.extractItemBlocks(masked, classes);
+    const functions = this.extractFunctions(content, masked, blocks);
+    const declarationRanges: Array<[number, number]> = [];
+    const modBindings = this.extractModDeclarations(masked, declarationRanges);
+    const useBindings = this.extractUses(masked, declarationRanges);
+
+    // References are counted outside the `mod`/`use` declarations that introduce them
+    const body = this.blankRanges(masked, declarationRanges);
+    for (const binding of [...modBindings, ...useBindings]) {
+      for (const symbol of binding.symbols) {
+        this.countReferences(body, symbol);
+      }
+    }
+
+    // Declared child modules are always linked to their parent, used or not
+    const importBindings = [...modBindings, ...useBindings];
+
+    const whole = this.complexityAnalyzer.measureBlock(masked, this.controlFlow);
+    const functionCount = functions.length
+      + classes.reduce((sum, cls) => sum + cls.methods.filter(m => m.cyclomaticComplexity).length, 0);
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings,
+      exports: this.extractExports(masked, importBindings),
+      typeExports: this.extractTypeExports(masked),
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, functionCount + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+    };
+  }
+
+  /**
+   * Blank char literals ('{', '"') so they cannot confuse string and brace matching
+   */
+  private maskCharLiterals(content: string): string {
+    return content.replace(/'(?:\\u\{[0-9a-fA-F]+\}|\\.|[^\\'\n])'/g, literal => `'${' '.repeat(literal.length - 2)}'`);
+  }
+
+  /**
+   * `mod foo;` declares the child module stored in foo.rs or foo/mod.rs
+   */
+  private extractModDeclarations(masked: string, ranges: Array<[number, number]>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = new RegExp(String.raw`^\s*${this.visibility}mod\s+(\w+)\s*;`, 'gm');
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+      bindings.push({
+        specifier: `self::${match[1]}`,
+        symbols: [this.createSymbol('*', match[1])],
+        declaration: true,
+      });
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Expand `use` trees into one binding per imported path
+   */
+  private extractUses(masked: string, ranges: Array<[number, number]>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = new RegExp(String.raw`^\s*${this.visibility}use\s+([^;]+);`, 'gm');
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+
+      for (const use of this.expandUseTree(this.normalizeUseTree(match[1]))) {
+        const last = use.segments[use.segments.length - 1];
+
+        // `use a::b::*` pulls in everything b exports
+        const isGlob = last === '*';
+        const segments = isGlob ? use.segments.slice(0, -1) : use.segments;
+        if (segments.length === 0) continue;
+
+        bindings.push({
+          specifier: segments.join('::'),
+          symbols: [isGlob
+            ? this.createSymbol('*', '')
+            : this.createSymbol(last, use.alias === '_' ? '' : use.alias || last)],
+        });
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Collapse whitespace around `::`, braces and commas, keeping the spaces around `as`
+   */
+  private normalizeUseTree(tree: string): string {
+    return tree
+      .replace(/\s+/g, ' ')
+      .replace(/\s*(::|[{},])\s*/g, '$1')
+      .trim();
+  }
+
+  /**
+   * Flatten `a::{b, c::{d as e}, self}` into full paths
+   */
+  private expandUseTree(tree: string, prefix: string[] = []): UsePath[] {
+    const braceIndex = tree.indexOf('{');
+
+    if (braceIndex === -1) {
+      const [pathText, alias] = tree.split(/\s+as\s+/);
+      const segments = pathText.split('::').filter(Boolean);
+
+      // `self` inside braces names the prefix itself
+      if (segments.length === 1 && segments[0] === 'self') {
+        return [{ segments: prefix, alias: alias || undefined }];
+      }
+      return [{ segments: [...prefix, ...segments], alias: alias || undefined }];
+    }
+
+    const head = tree.slice(0, braceIndex).split('::').filter(Boolean);
+    const close = this.scanner.findClosing(tree, braceIndex);
+    const inner = tree.slice(braceIndex + 1, close === -1 ? tree.length : close);
+
+    return this.scanner.splitParams(inner).flatMap(part => this.expandUseTree(part, [...prefix, ...head]));
+  }
+
+  /**
+   * Count references to a used name, separating type positions from value uses
+   */
+  private countReferences(body: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName) return;
+
+    const regex = new RegExp(String.raw`(?<![\w:])${symbol.localName}\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 40), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 80);
+
+      // `Name::fetch(x).await` / `fetch(x).await`
+      if (/^(?:::\w+)*\s*\([^;\n]*?\)\s*\.await\b/.test(after)) {
+        symbol.awaited++;
+      } else if (this.isTypePosition(before, after)) {
+        symbol.typeReferences++;
+      }
+    }
+  }
+
+  /**
+   * Heuristic: names after `:`, `->`, `<`, `&`, `dyn`, `impl` or `for` that are not called
+   */
+  private isTypePosition(before: string, after: string): boolean {
+    if (/^\s*(?:\(|\{|!)/.test(after)) return false;
+    if (/^\s*::\s*\w+\s*\(/.test(after)) return false;
+
+    return /(?::|->|<|&(?:'\w+\s+)?|\bdyn\s|\bimpl\s|\bfor\s|\bmut\s)\s*$/.test(before)
+      && !/(?:=|\breturn\s|\(\s*)$/.test(before);
+  }
+
+  /**
+   * Extract struct, enum and trait declarations
+   */
+  private extractTypes(masked: string): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    const regex = new RegExp(String.raw`^\s*${this.visibility}(?:unsafe\s+)?(struct|enum|trait)\s+(\w+)([^{;]*)`, 'gm');
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const kind = match[1] as 'struct' | 'enum' | 'trait';
+      const cls: ClassInfo = { name: match[2], implements: [], methods: [], kind };
+
+      // Supertraits (`trait Shape: Debug + Clone`) behave like extended interfaces
+      if (kind === 'trait') {
+        const bounds = this.stripGenerics(match[3]).match(/^\s*:\s*([^{]+?)(?:\bwhere\b|$)/);
+        if (bounds) {
+          cls.implements = bounds[1].split('+').map(b => b.trim()).filter(b => b && !b.startsWith("'"));
+        }
+      }
+
+      classes.push(cls);
+    }
+
+    return classes;
+  }
+
+  /**
+   * Find `impl` and `trait` blocks; `impl Trait for Type` records the trait on the type
+   */
+  private extractItemBlocks(masked: string, classes: ClassInfo[]): ItemBlock[] {
+    const blocks: ItemBlock[] = [];
+    const implRegex = /^\s*(?:unsafe\s+)?impl\b([^{;]*)\{/gm;
+
+    let match;
+    while ((match = implRegex.exec(masked)) !== null) {
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+
+      const header = this.stripGenerics(match[1]).replace(/\bwhere\b[\s\S]*$/, '').trim();
+      const forMatch = header.match(/^(.+?)\s+for\s+(.+)$/);
+      const typeName = this.simpleTypeName(forMatch ? forMatch[2] : header);
+      if (!typeName) continue;
+
+      let owner = classes.find(cls => cls.name === typeName && cls.kind !== 'trait');
+      if (!owner) {
+        // Type declared in another module
+        owner = { name: typeName, implements: [], methods: [] };
+        classes.push(owner);
+      }
+
+      if (forMatch) {
+        const traitName = forMatch[1].replace(/^[!?]/, '').trim();
+        if (!owner.implements.includes(traitName)) owner.implements.push(traitName);
+      }
+
+      blocks.push({ open, close: close === -1 ? masked.length : close, owner });
+    }
+
+    const traitRegex = new RegExp(String.raw`^\s*${this.visibility}(?:unsafe\s+)?trait\s+(\w+)[^{;]*\{`, 'gm');
+    while ((match = traitRegex.exec(masked)) !== null) {
+      const owner = classes.find(cls => cls.name === match![1] && cls.kind === 'trait');
+      if (!owner) continue;
+
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      blocks.push({ open, close: close === -1 ? masked.length : close, owner });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Extract fns; those inside impl/trait blocks become methods, nested fns are skipped
+   */
+  private extractFunctions(content: string, masked: string, blocks: ItemBlock[]): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+    const bodies: Array<[number, number]> = [];
+    const regex = new RegExp(
+      String.raw`${this.visibility}((?:(?:const|async|unsafe|default|extern(?:\s+"\s*[^"]*")?)\s+)*)fn\s+(\w+)\s*(?:<[^{;(]*>)?\s*\(`,
+      'g'
+    );
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const start = match.index;
+      if (bodies.some(([open, close]) => start > open && start < close)) continue;
+
+      const paramsOpen = start + match[0].length - 1;
+      const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      const info: FunctionInfo = {
+        name: match[2],
+        params: this.scanner.splitParams(masked.slice(paramsOpen + 1, paramsClose)),
+        async: /\basync\b/.test(match[1]),
+        lines: 1,
+        kind: 'function',
+      };
+
+      // Body starts at the first `{` unless a `;` ends a bodyless trait signature first
+      const tail = masked.slice(paramsClose);
+      const terminator = tail.search(/[{;]/);
+      if (terminator !== -1 && tail[terminator] === '{') {
+        const bodyOpen = paramsClose + terminator;
+        const bodyClose = this.scanner.findClosing(masked, bodyOpen);
+        const end = bodyClose === -1 ? masked.length : bodyClose;
+        const measure = this.complexityAnalyzer.measureBlock(masked.slice(bodyOpen, end + 1), this.controlFlow);
+
+        bodies.push([bodyOpen, end]);
+        info.lines = this.scanner.lineAt(content, end) - this.scanner.lineAt(content, start) + 1;
+        info.cyclomaticComplexity = measure.cyclomatic;
+        info.cognitiveComplexity = measure.cognitive;
+      }
+
+      const block = blocks
+        .filter(b => start > b.open && start < b.close)
+        .sort((a, b) => b.open - a.open)[0];
+
+      if (block) {
+        block.owner.methods.push({ ...info, kind: 'method' });
+      } else {
+        functions.push(info);
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * `pub` items declared at the top level, plus names re-exported with `pub use`
+   */
+  private extractExports(masked: string, bindings: ImportBinding[]): string[] {
+    const exports: string[] = [];
+    const regex = /^pub(?:\s*\([^)]*\))?\s+(?:(?:const|async|unsafe|extern(?:\s+"\s*[^"]*")?)\s+)*(?:fn|struct|enum|trait|type|const|static|mod|union)\s+(\w+)/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      exports.push(match[1]);
+    }
+
+    const reExportRegex = /^pub(?:\s*\([^)]*\))?\s+use\s+([^;]+);/gm;
+    while ((match = reExportRegex.exec(masked)) !== null) {
+      for (const use of this.expandUseTree(this.normalizeUseTree(match[1]))) {
+        const name = use.alias || use.segments[use.segments.length - 1];
+        if (name && name !== '*' && name !== '_') exports.push(name);
+      }
+    }
+
+    // Re-exported bindings forward their symbols to whoever imports this module
+    for (const binding of bindings) {
+      for (const symbol of binding.symbols) {
+        if (symbol.name !== '*' && exports.includes(symbol.localName) && symbol.references === 0) {
+          symbol.localName = '';
+        }
+      }
+    }
+
+    return [...new Set(exports)];
+  }
+
+  /**
+   * Traits and type aliases only exist at the type level
+   */
+  private extractTypeExports(masked: string): string[] {
+    const regex = /^pub(?:\s*\([^)]*\))?\s+(?:unsafe\s+)?(?:trait|type)\s+(\w+)/gm;
+    const names: string[] = [];
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      names.push(match[1]);
+    }
+
+    return names;
+  }
+
+  /**
+   * Remove `<...>` generic arguments (nested ones included)
+   */
+  private stripGenerics(text: string): string {
+    let result = text;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * Reduce `&'a mut crate::shapes::Circle` to `Circle`
+   */
+  private simpleTypeName(typeText: string): string {
+    const cleaned = typeText.replace(/&|'\w+|\bmut\b|\bdyn\b/g, ' ').trim();
+    const segments = cleaned.split('::');
+    return (segments[segments.length - 1] || '').trim().split(/\s+/)[0] || '';
+  }
+
+  /**
+   * Replace ranges with spaces, keeping offsets stable
+   */
+  private blankRanges(text: string, ranges: Array<[number, number]>): string {
+    let result = text;
+    for (const [start, end] of ranges) {
+      result = result.slice(0, start) + result.slice(start, end).replace(/[^\n]/g, ' ') + result.slice(end);
+    }
+    return result;
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
@@ -0,0 +1,152 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * Cargo package (crate) found in the project
+ */
+interface RustCrate {
+  name: string;                    // `[package] name` with dashes as underscores
+  dir: string;                     // Project-relative directory of Cargo.toml
+}
+
+/**
+ * Where a Rust file sits in its crate's module tree
+ */
+interface RustLocation {
+  crate: RustCrate;
+  segments: string[];              // Module path below the crate root (`crate::a::b`)
+}
+
+/**
+ * Rust Resolver - Maps `use`/`mod` paths through each crate's module tree
+ */
+export class RustResolver extends LanguageResolver {
+  private readonly rustCrates: RustCrate[] = [];
+  private readonly rustModules = new Map<string, string>();
+  private readonly rustLocations = new Map<string, RustLocation>();
+
+  constructor(context: ImportContext) {
+    super(context);
+    this.loadRustCrates(this.modulesOf('rust'));
+  }
+
+  /**
+   * Name of the crate a Rust module belongs to
+   */
+  crateOf(module: CodeModule): string | undefined {
+    return this.rustLocations.get(module.id)?.crate.name || undefined;
+  }
+
+  /**
+   * Resolve a `use`/`mod` path to the file of the deepest module it names
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    const location = this.rustLocations.get(importer.id);
+    if (!location) return { external: false };
+
+    const segments = specifier.split('::');
+    const head = segments[0];
+
+    if (head === 'crate') {
+      return this.toRustTarget(this.findRustModule(location.crate, segments.slice(1), 0));
+    }
+
+    if (head === 'self' || head === 'super') {
+      const ups = segments.filter(segment => segment === 'super').length;
+      const base = location.segments.slice(0, Math.max(0, location.segments.length - ups));
+      const rest = segments.filter(segment => segment !== 'self' && segment !== 'super');
+      return this.toRustTarget(this.findRustModule(location.crate, [...base, ...rest], 0));
+    }
+
+    // Another crate of the workspace
+    const sibling = this.rustCrates.find(crate => crate.name === head && crate !== location.crate);
+    if (sibling) {
+      return this.toRustTarget(this.findRustModule(sibling, segments.slice(1), 0));
+    }
+
+    // Bare paths may name a child module of the current module or of the crate root
+    const candidates = [[...location.segments, ...segments], segments];
+    for (const candidate of candidates) {
+      const minLength = candidate.length - segments.length + 1;
+      const moduleId = this.findRustModule(location.crate, candidate, minLength);
+      if (moduleId) return { moduleId, external: false };
+    }
+
+    return { external: true };
+  }
+
+  /**
+   * Longest module prefix of a path (the remainder names items inside that module)
+   */
+  private findRustModule(crate: RustCrate, segments: string[], minLength: number): string | undefined {
+    for (let length = segments.length; length >= minLength; length--) {
+      const moduleId = this.rustModules.get(`${crate.dir}#${segments.slice(0, length).join('::')}`);
+      if (moduleId) return moduleId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Project-local Rust paths that do not resolve stay unresolved rather than external
+   */
+  private toRustTarget(moduleId: string | undefined): ImportTarget {
+    return moduleId ? { moduleId, external: false } : { external: false };
+  }
+
+  /**
+   * Locate each Rust file's crate (nearest Cargo.toml with a [package]) and module path
+   */
+  private loadRustCrates(modules: CodeModule[]): void {
+    const crateByDir = new Map<string, RustCrate | null>();
+
+    const findCrate = (dir: string): RustCrate | null => {
+      if (crateByDir.has(dir)) return crateByDir.get(dir)!;
+
+      let crate: RustCrate | null = null;
+      const manifest = path.join(this.context.projectPath, dir, 'Cargo.toml');
+      if (fs.existsSync(manifest)) {
+        const name = fs.readFileSync(manifest, 'utf-8').match(/\[package\][^[]*?\bname\s*=\s*"([^"]+)"/);
+        if (name) crate = { name: name[1].replace(/-/g, '_'), dir };
+      }
+
+      if (!crate && dir) {
+        const parent = path.posix.dirname(dir);
+        crate = findCrate(parent === '.' ? '' : parent);
+      }
+
+      crateByDir.set(dir, crate);
+      return crate;
+    };
+
+    for (const module of modules) {
+      const filePath = this.toPosix(module.path);
+      const crate = findCrate(this.dirOf(filePath)) || { name: '', dir: '' };
+
+      if (!this.rustCrates.includes(crate)) {
+        this.rustCrates.push(crate);
+      }
+
+      // Only files below src/ belong to the library/binary module tree
+      const srcRoot = crate.dir ? `${crate.dir}/src/` : 'src/';
+      if (!filePath.startsWith(srcRoot)) {
+        this.rustLocations.set(module.id, { crate, segments: [] });
+        continue;
+      }
+
+      const segments = filePath.slice(srcRoot.length).replace(/\.rs$/, '').split('/');
+      if (segments[segments.length - 1] === 'mod') segments.pop();
+      if (segments.length === 1 && (segments[0] === 'lib' || segments[0] === 'main')) segments.pop();
+
+      const key = `${crate.dir}#${segments.join('::')}`;
+      // lib.rs wins over main.rs as the crate root others `use`
+      if (!this.rustModules.has(key) || segments.length > 0 || filePath.endsWith('lib.rs')) {
+        this.rustModules.set(key, module.id);
+      }
+      this.rustLocations.set(module.id, { crate, segments });
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { ImportedSymbol } from './types.js';
+import { SourceExtraction, TypeScriptExtractor } from './typescript-extractor.js';
+
+/**
+ * Script section of a single-file component
+ */
+interface ScriptBlock {
+  start: number;                   // Index of the first code character
+  end: number;                     // Index after the last code character
+  typescript: boolean;
+}
+
+/**
+ * SFC Extractor - Vue, Svelte and Astro single-file components
+ *
+ * The script blocks (`<script>`, `<script setup lang="ts">`, Astro's `---` frontmatter) are parsed
+ * by the TypeScript extractor in place: everything else is blanked so positions and line numbers
+ * still match the component file. Imported components used as tags in the template are counted
+ * as renders.
+ */
+export class SfcExtractor {
+  private scriptExtractor = new TypeScriptExtractor();
+
+  /**
+   * Extract script structure and template component usage from an SFC
+   */
+  extract(content: string, filePath: string): SourceExtraction {
+    const blocks = this.findScriptBlocks(content, filePath);
+
+    // Code outside the script blocks becomes whitespace, newlines are kept
+    const script = this.keepRanges(content, blocks.map(block => [block.start, block.end]));
+    const extension = blocks.some(block => block.typescript) ? '.ts' : '.js';
+    const extraction = this.scriptExtractor.extract(script, `${filePath}${extension}`);
+
+    const template = this.templateOf(content, blocks);
+    for (const binding of extraction.importBindings) {
+      binding.symbols.forEach(symbol => this.countTemplateUses(template, symbol));
+    }
+
+    // The component itself is what importers receive, with or without `export default`
+    if (!extraction.exports.includes('default')) {
+      extraction.exports.push('default');
+    }
+
+    return extraction;
+  }
+
+  /**
+   * `<script ...>` blocks, plus the `---` frontmatter of Astro components
+   */
+  private findScriptBlocks(content: string, filePath: string): ScriptBlock[] {
+    const blocks: ScriptBlock[] = [];
+
+    if (filePath.toLowerCase().endsWith('.astro')) {
+      const frontmatter = content.match(/^\s*---[ \t]*\r?\n([\s\S]*?)^---[ \t]*$/m);
+      if (frontmatter) {
+        const start = frontmatter.index! + frontmatter[0].indexOf('\n') + 1;
+        blocks.push({ start, end: start + frontmatter[1].length, typescript: true });
+      }
+    }
+
+    const withoutComments = this.blankComments(content);
+    for (const match of withoutComments.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi)) {
+      const attributes = match[1];
+      // JSON-LD and other data blocks are not code
+      if (/\btype\s*=\s*["'](?!module|text\/javascript|text\/typescript)/i.test(attributes)) continue;
+      // Astro ships scripts without a lang attribute through TypeScript too
+      const typescript = /\blang\s*=\s*["'](?:ts|tsx|typescript)["']/i.test(attributes) ||
+        filePath.toLowerCase().endsWith('.astro');
+
+      const start = match.index! + match[0].indexOf('>') + 1;
+      blocks.push({ start, end: start + match[2].length, typescript });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Markup outside the script and style blocks, where components are used as tags
+   */
+  private templateOf(content: string, blocks: ScriptBlock[]): string {
+    let template = this.blankComments(content);
+    const ranges: Array<[number, number]> = blocks.map(block => [block.start, block.end]);
+    for (const match of template.matchAll(/<style\b[^>]*>[\s\S]*?<\/style\s*>/gi)) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+
+    for (const [start, end] of ranges) {
+      template = template.slice(0, start) + ' '.repeat(end - start) + template.slice(end);
+    }
+    return template;
+  }
+
+  /**
+   * Count tags rendering a symbol (`<UserCard>`, Vue's `<user-card>`, `<Icons.Star>`, dynamic
+   * `:is="X"`/`this={X}`) as renders, and any other mention in the template as a reference
+   */
+  private countTemplateUses(template: string, symbol: ImportedSymbol): void {
+    if (!symbol.localName || !/^[A-Za-z_$][\w$]*$/.test(symbol.localName)) return;
+
+    const name = symbol.localName.replace(/\$/g, '\\$');
+    const kebab = name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+    const patterns = [
+      new RegExp(`<(?:${name}|${kebab})(?:\\.[\\w.]+)?(?=[\\s/>])`, 'g'),
+      new RegExp(`(?::is|\\bthis)\\s*=\\s*["{]\\s*${name}\\s*["}]`, 'g'),
+    ];
+
+    // Renders are blanked before counting the remaining mentions; closing tags are neither
+    let renders = 0;
+    let rest = template;
+    for (const pattern of patterns) {
+      rest = rest.replace(pattern, used => {
+        renders++;
+        return ' '.repeat(used.length);
+      });
+    }
+    rest = rest.replace(new RegExp(`</(?:${name}|${kebab})\\b`, 'g'), closing => ' '.repeat(closing.length));
+    const mentions = (rest.match(new RegExp(`(?<![\\w$.-])${name}(?![\\w$-])`, 'g')) || []).length;
+
+    if (renders > 0) symbol.renders = (symbol.renders || 0) + renders;
+    symbol.references += renders + mentions;
+  }
+
+  /**
+   * Blank HTML comments so commented-out markup and scripts are ignored
+   */
+  private blankComments(content: string): string {
+    return content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' '));
+  }
+
+  /**
+   * Keep only the given ranges of text, blanking the rest except newlines
+   */
+  private keepRanges(content: string, ranges: Array<[number, number]>): string {
+    const output = content.replace(/[^\n]/g, ' ').split('');
+    for (const [start, end] of ranges) {
+      for (let i = start; i < end; i++) output[i] = content[i];
+    }
+    return output.join('');
+  }
+}
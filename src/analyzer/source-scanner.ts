@@ -0,0 +1,136 @@
+/**
+ * Comment and string syntax of a language
+ */
+export interface LexicalSyntax {
+  lineComments: string[];                  // e.g. '//', '#'
+  blockComments: Array<[string, string]>;  // e.g. ['/*', '*/']
+  quotes: string[];                        // String delimiters honouring backslash escapes
+  rawQuotes?: string[];                    // String delimiters without escapes (Go backticks)
+}
+
+/**
+ * Source Scanner - Lexical helpers for languages parsed without a full AST
+ *
+ * `mask` blanks comments and string contents with spaces so that regexes and brace matching
+ * see only code, while every index and line number still lines up with the original text.
+ */
+export class SourceScanner {
+  constructor(private readonly syntax: LexicalSyntax) {}
+
+  /**
+   * Replace comments and string contents with spaces (quotes and newlines are kept)
+   */
+  mask(content: string): string {
+    const output = content.split('');
+    let i = 0;
+
+    const blank = (from: number, to: number): void => {
+      for (let j = from; j < to && j < output.length; j++) {
+        if (output[j] !== '\n') output[j] = ' ';
+      }
+    };
+
+    while (i < content.length) {
+      const lineComment = this.syntax.lineComments.find(marker => content.startsWith(marker, i));
+      if (lineComment) {
+        const end = content.indexOf('\n', i);
+        const stop = end === -1 ? content.length : end;
+        blank(i, stop);
+        i = stop;
+        continue;
+      }
+
+      const blockComment = this.syntax.blockComments.find(([open]) => content.startsWith(open, i));
+      if (blockComment) {
+        const end = content.indexOf(blockComment[1], i + blockComment[0].length);
+        const stop = end === -1 ? content.length : end + blockComment[1].length;
+        blank(i, stop);
+        i = stop;
+        continue;
+      }
+
+      const char = content[i];
+      const escapable = this.syntax.quotes.includes(char);
+      if (escapable || this.syntax.rawQuotes?.includes(char)) {
+        let j = i + 1;
+        while (j < content.length && content[j] !== char) {
+          // Unterminated single-line strings stop at the line end
+          if (escapable && content[j] === '\n') break;
+          if (escapable && content[j] === '\\') j++;
+          j++;
+        }
+        blank(i + 1, j);
+        i = j + 1;
+        continue;
+      }
+
+      i++;
+    }
+
+    return output.join('');
+  }
+
+  /**
+   * Read the string literal starting at a quote in the masked text
+   */
+  readString(content: string, masked: string, quoteIndex: number): string {
+    const quote = masked[quoteIndex];
+    const end = masked.indexOf(quote, quoteIndex + 1);
+    return content.slice(quoteIndex + 1, end === -1 ? content.length : end);
+  }
+
+  /**
+   * Find the index of the bracket closing the one at openIndex (-1 when unbalanced)
+   */
+  findClosing(masked: string, openIndex: number): number {
+    const open = masked[openIndex];
+    const close = ({ '{': '}', '(': ')', '[': ']', '<': '>' } as Record<string, string>)[open];
+    if (!close) return -1;
+
+    let depth = 0;
+    for (let i = openIndex; i < masked.length; i++) {
+      if (masked[i] === open) depth++;
+      if (masked[i] === close) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * 1-based line number of an index
+   */
+  lineAt(content: string, index: number): number {
+    let line = 1;
+    for (let i = 0; i < index && i < content.length; i++) {
+      if (content[i] === '\n') line++;
+    }
+    return line;
+  }
+
+  /**
+   * Split a parameter list on top-level commas
+   */
+  splitParams(params: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of params) {
+      if ('([{<'.includes(char)) depth++;
+      if (')]}>'.includes(char)) depth--;
+
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    if (current.trim()) parts.push(current.trim());
+    return parts.filter(Boolean);
+  }
+}
@@ -0,0 +1,381 @@
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol } from './types.js';
+import { SourceExtraction } from './typescript-extractor.js';
+import { SourceScanner } from './source-scanner.js';
+import { ComplexityAnalyzer, ControlFlowKeywords } from './complexity-analyzer.js';
+
+/**
+ * Type or extension declaration with the extent of its body
+ */
+interface TypeDeclaration {
+  info: ClassInfo;
+  open: number;
+  close: number;
+  topLevel: boolean;
+  visible: boolean;                // Not `private`/`fileprivate` to its file
+}
+
+/**
+ * Swift Extractor - Imports, classes, structs, enums, actors, protocols, extensions and `async` functions
+ *
+ * Files of one Swift module see each other's types without imports, so every capitalised name
+ * a file uses is offered to its own module (specifier `.`) and resolution finds the declaring file.
+ */
+export class SwiftExtractor {
+  // Multi-line strings are listed as block comments so they are blanked in one piece
+  private scanner = new SourceScanner({
+    lineComments: ['//'],
+    blockComments: [['/*', '*/'], ['"""', '"""']],
+    quotes: ['"'],
+  });
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  private readonly controlFlow: ControlFlowKeywords = {
+    branches: ['if', 'guard', 'for', 'while', 'catch'],
+    switches: ['switch'],
+    cases: ['case'],
+  };
+
+  private readonly modifiers = '(?:(?:public|private|fileprivate|internal|open|final|indirect|nonisolated|@\\w+(?:\\([^)]*\\))?)\\s+)*';
+
+  // Standard library and Foundation protocols a class conforms to (they never are its superclass)
+  private readonly knownProtocols = new Set([
+    'Codable', 'Decodable', 'Encodable', 'Equatable', 'Hashable', 'Comparable', 'Identifiable', 'Sendable', 'Error',
+    'CustomStringConvertible', 'CustomDebugStringConvertible', 'ObservableObject', 'View', 'App', 'Scene',
+    'CaseIterable', 'RawRepresentable', 'Sequence', 'Collection', 'IteratorProtocol', 'AnyObject', 'Actor',
+  ]);
+
+  // Names that follow `class` inside a type body without declaring a class (`class func`, `class var`)
+  private readonly notTypeNames = new Set(['func', 'var', 'let', 'subscript', 'override', 'final', 'static', 'private', 'public', 'internal', 'fileprivate', 'open']);
+
+  /**
+   * Extract module structure from Swift source
+   */
+  extract(content: string, _filePath: string): SourceExtraction {
+    const masked = this.scanner.mask(content);
+    const declarations = this.extractTypes(masked);
+    const functions: FunctionInfo[] = [];
+    const topLevelFunctions: string[] = [];
+
+    for (const { info, start, visible } of this.extractFunctions(content, masked)) {
+      const owner = declarations
+        .filter(d => start > d.open && start < d.close)
+        .sort((a, b) => b.open - a.open)[0];
+
+      if (!owner) {
+        info.kind = 'function';
+        functions.push(info);
+        if (visible) topLevelFunctions.push(info.name);
+      } else if (this.depthWithin(masked, owner.open, start) === 1) {
+        owner.info.methods.push(info);
+      }
+    }
+
+    const classes = this.mergeExtensions(declarations);
+    const topLevel = declarations
+      .filter(d => d.topLevel && d.visible && d.info.kind !== 'extension')
+      .map(d => d.info);
+
+    const importRanges: Array<[number, number]> = [];
+    const importBindings = this.extractImports(masked, importRanges);
+
+    // References are counted outside the import declarations
+    let body = masked;
+    for (const [start, end] of importRanges) {
+      body = body.slice(0, start) + ' '.repeat(end - start) + body.slice(end);
+    }
+
+    // Types of the own module and of imported project modules are used by name: offer each one,
+    // resolution keeps those the other files actually declare
+    const localNames = new Set(classes.filter(cls => cls.kind !== 'extension').map(cls => cls.name));
+    const superclasses = new Set(classes.map(cls => cls.extends).filter((name): name is string => !!name));
+    const candidates = this.collectTypeNames(body).filter(name => !localNames.has(name));
+    importBindings.push({ specifier: '.', symbols: [], wildcard: true });
+    for (const binding of importBindings) {
+      binding.symbols = candidates.map(name => {
+        const symbol = this.createSymbol(name, name);
+        this.countReferences(body, symbol, superclasses);
+        return symbol;
+      });
+    }
+
+    const whole = this.complexityAnalyzer.measureBlock(this.blankEnumCases(masked, declarations), this.controlFlow);
+    const bodies = [...functions, ...classes.flatMap(cls => cls.methods)].filter(fn => fn.cyclomaticComplexity).length;
+
+    return {
+      imports: importBindings.map(binding => binding.specifier),
+      importBindings: importBindings.filter(b => b.symbols.length > 0),
+      exports: [...topLevel.map(cls => cls.name), ...topLevelFunctions],
+      typeExports: topLevel.filter(cls => cls.kind === 'interface').map(cls => cls.name),
+      functions,
+      classes,
+      complexity: {
+        cyclomatic: Math.max(1, bodies + whole.cyclomatic - 1),
+        cognitive: whole.cognitive,
+      },
+      diagnostics: [],
+    };
+  }
+
+  /**
+   * `import Module`, `@testable import Module`, `import struct Module.Type`
+   */
+  private extractImports(masked: string, ranges: Array<[number, number]>): ImportBinding[] {
+    const bindings: ImportBinding[] = [];
+    const regex = /^[ \t]*(?:@\w+\s+)*import\s+(?:(?:typealias|struct|class|enum|protocol|let|var|func)\s+)?(\w+)[\w.]*/gm;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+      // Symbols are filled in once the file's type references are known
+      bindings.push({ specifier: match[1], symbols: [], wildcard: true });
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Capitalised identifiers that may name types from another file
+   */
+  private collectTypeNames(body: string): string[] {
+    const names = new Set<string>();
+    for (const match of body.matchAll(/(?<![\w.])([A-Z]\w*)\b/g)) {
+      if (!/^[A-Z0-9_]+$/.test(match[1]) || match[1].length === 1) names.add(match[1]);
+    }
+    return [...names];
+  }
+
+  /**
+   * Count references, separating type positions from value uses
+   *
+   * `superclasses` are the classes this file inherits from: naming one first in a class header is a value use.
+   */
+  private countReferences(body: string, symbol: ImportedSymbol, superclasses: Set<string>): void {
+    const regex = new RegExp(`(?<![\\w.])${symbol.localName}\\b`, 'g');
+    let match;
+    while ((match = regex.exec(body)) !== null) {
+      symbol.references++;
+
+      const before = body.slice(Math.max(0, match.index - 20), match.index);
+      const after = body.slice(regex.lastIndex, regex.lastIndex + 40);
+
+      if (/\bawait\s+(?:try[?!]?\s+)?$/.test(before)) symbol.awaited++;
+
+      // Initializer calls `X(`, static members `X.shared` and attributes `@X` are value uses
+      if (/^\s*(?:\(|\.(?!self\b|Type\b))/.test(after) || before.endsWith('@')) continue;
+
+      // A superclass is initialized with every instance, unlike the protocols listed after it
+      const header = body.slice(Math.max(0, match.index - 200), match.index);
+      if (superclasses.has(symbol.localName) && /\bclass\s+\w+\s*(?:<(?:[^<>]|<[^<>]*>)*>\s*)?:\s*$/.test(header)) continue;
+
+      symbol.typeReferences++;
+    }
+  }
+
+  /**
+   * Find class, struct, enum, actor, protocol and extension declarations
+   */
+  private extractTypes(masked: string): TypeDeclaration[] {
+    const declarations: TypeDeclaration[] = [];
+    const regex = new RegExp(`(${this.modifiers})(class|struct|enum|actor|protocol|extension)\\s+([\\w.]+)([^{]*)\\{`, 'g');
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      const [, modifiers, keyword, qualifiedName, header] = match;
+
+      // `X.self`-like member names, `class func`/`class var` and headers that run into code
+      // (a `;`, `=` or `}` before the brace) are no declarations; the scan resumes right after them
+      if (/[\w.]/.test(masked[match.index - 1] || '') ||
+        this.notTypeNames.has(qualifiedName) ||
+        /[;=}]/.test(header.replace(/==|->|<=|>=/g, ''))) {
+        regex.lastIndex = match.index + match[1].length + match[2].length;
+        continue;
+      }
+
+      const open = match.index + match[0].length - 1;
+      const close = this.scanner.findClosing(masked, open);
+      const name = qualifiedName.split('.').pop()!;
+      const kind = this.typeKind(keyword);
+
+      const info: ClassInfo = {
+        name,
+        kind,
+        implements: [],
+        methods: [],
+        annotations: [...modifiers.matchAll(/@(\w+)/g)].map(m => m[1]),
+      };
+      if (kind === 'extension') info.partial = true;
+
+      this.readInheritance(header, info, keyword, declarations);
+
+      declarations.push({
+        info,
+        open,
+        close: close === -1 ? masked.length : close,
+        topLevel: !declarations.some(d => open > d.open && open < d.close),
+        visible: !/\b(?:private|fileprivate)\b/.test(modifiers),
+      });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Map the declaration keyword to a class kind
+   */
+  private typeKind(keyword: string): ClassInfo['kind'] {
+    if (keyword === 'protocol') return 'interface';
+    if (keyword === 'struct' || keyword === 'enum' || keyword === 'extension') return keyword;
+    return 'class';
+  }
+
+  /**
+   * `: Superclass, Protocol` - only a class's first entry may be a superclass, and only when
+   * it does not look like a protocol (known, declared here as one, or named like one)
+   */
+  private readInheritance(header: string, info: ClassInfo, keyword: string, declarations: TypeDeclaration[]): void {
+    const list = this.stripGenerics(header).match(/^\s*:\s*([\s\S]*?)(?:\bwhere\b|$)/);
+    if (!list) return;
+
+    const names = this.scanner.splitParams(list[1])
+      .map(entry => entry.trim().split('.').pop()!.replace(/\W.*$/, ''))
+      .filter(Boolean);
+
+    const [first, ...rest] = names;
+    const protocolLike = (name: string): boolean =>
+      this.knownProtocols.has(name) ||
+      /(?:able|ible|Protocol|Delegate|DataSource|Convertible|Representable|Type)$/.test(name) ||
+      declarations.some(d => d.info.name === name && d.info.kind === 'interface');
+
+    if (keyword === 'class' && first && !protocolLike(first)) {
+      info.extends = first;
+      info.implements.push(...rest);
+    } else {
+      info.implements.push(...names);
+    }
+  }
+
+  /**
+   * Functions, initializers and subscripts with or without a body
+   */
+  private extractFunctions(content: string, masked: string): Array<{ info: FunctionInfo; start: number; visible: boolean }> {
+    const functions: Array<{ info: FunctionInfo; start: number; visible: boolean }> = [];
+    const regex = /((?:@\w+(?:\([^)]*\))?\s+)*)((?:(?:public|private|fileprivate|internal|open|final|static|class|override|mutating|nonmutating|convenience|required|nonisolated|dynamic|optional)\s+)*)(?:func\s+(\w+|[^\s(<]+)\s*(?:<[^>]*>\s*)?|(init)[?!]?\s*(?:<[^>]*>\s*)?|(subscript)\s*)\(/g;
+
+    let match;
+    while ((match = regex.exec(masked)) !== null) {
+      if (/[\w.]/.test(masked[match.index - 1] || '')) continue;
+
+      const [, attributes, modifiers, funcName, init, subscript] = match;
+      const paramsOpen = match.index + match[0].length - 1;
+      const paramsClose = this.scanner.findClosing(masked, paramsOpen);
+      if (paramsClose === -1) continue;
+
+      // `async` and `throws` come before the return type, the body follows it
+      const tail = masked.slice(paramsClose + 1);
+      const terminator = tail.search(/[{}\n;]/);
+      const signature = tail.slice(0, terminator === -1 ? tail.length : terminator);
+      const effects = signature.split('->')[0];
+
+      const info: FunctionInfo = {
+        name: funcName || init || subscript,
+        params: this.scanner.splitParams(content.slice(paramsOpen + 1, paramsClose)),
+        async: /\basync\b/.test(effects),
+        lines: 1,
+        kind: init ? 'constructor' : 'method',
+        annotations: [...attributes.matchAll(/@(\w+)/g)].map(m => m[1]),
+      };
+
+      if (tail[terminator] === '{') {
+        const bodyOpen = paramsClose + 1 + terminator;
+        const bodyClose = this.scanner.findClosing(masked, bodyOpen);
+        const end = bodyClose === -1 ? masked.length - 1 : bodyClose;
+        const measure = this.complexityAnalyzer.measureBlock(masked.slice(bodyOpen, end + 1), this.controlFlow);
+
+        info.lines = this.scanner.lineAt(content, end) - this.scanner.lineAt(content, match.index) + 1;
+        info.cyclomaticComplexity = measure.cyclomatic;
+        info.cognitiveComplexity = measure.cognitive;
+      }
+
+      functions.push({ info, start: match.index + match[0].length, visible: !/\b(?:private|fileprivate)\b/.test(modifiers) });
+    }
+
+    return functions;
+  }
+
+  /**
+   * Fold extensions of types declared in the same file into the type; others stay as extensions
+   */
+  private mergeExtensions(declarations: TypeDeclaration[]): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+
+    for (const { info } of declarations) {
+      const declared = info.kind === 'extension'
+        ? declarations.find(d => d.info.name === info.name && d.info.kind !== 'extension')
+        : undefined;
+
+      if (declared) {
+        declared.info.methods.push(...info.methods);
+        declared.info.implements.push(...info.implements.filter(name => !declared.info.implements.includes(name)));
+      } else {
+        classes.push(info);
+      }
+    }
+
+    return classes;
+  }
+
+  /**
+   * Blank enum `case` declarations so that only `switch` cases count as paths
+   */
+  private blankEnumCases(masked: string, declarations: TypeDeclaration[]): string {
+    const output = masked.split('');
+
+    for (const { info, open, close } of declarations) {
+      if (info.kind !== 'enum') continue;
+
+      let depth = 0;
+      for (let i = open; i < close; i++) {
+        if (masked[i] === '{') depth++;
+        if (masked[i] === '}') depth--;
+        if (depth === 1 && masked.startsWith('case', i) && !/\w/.test(masked[i - 1]) && !/\w/.test(masked[i + 4])) {
+          output.fill(' ', i, i + 4);
+        }
+      }
+    }
+
+    return output.join('');
+  }
+
+  /**
+   * Brace depth of index relative to the body opened at open (1 = directly inside)
+   */
+  private depthWithin(masked: string, open: number, index: number): number {
+    let depth = 0;
+    for (let i = open; i < index; i++) {
+      if (masked[i] === '{') depth++;
+      if (masked[i] === '}') depth--;
+    }
+    return depth;
+  }
+
+  /**
+   * Remove `<...>` generic parameters (nested ones included)
+   */
+  private stripGenerics(text: string): string {
+    let result = text;
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(/<[^<>]*>/g, '');
+    } while (result !== previous);
+    return result;
+  }
+
+  /**
+   * Create an empty symbol record
+   */
+  private createSymbol(name: string, localName: string): ImportedSymbol {
+    return { name, localName, typeOnly: false, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+}
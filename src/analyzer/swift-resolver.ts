@@ -0,0 +1,44 @@
+import path from 'node:path';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * Swift Resolver - Maps module imports to the files of a SwiftPM target
+ */
+export class SwiftResolver extends LanguageResolver {
+  private readonly swiftTargets = new Map<string, string[]>();
+
+  constructor(context: ImportContext) {
+    super(context);
+
+    for (const module of this.modulesOf('swift')) {
+      const target = this.swiftTargetOf(module.path);
+      this.swiftTargets.set(target, [...(this.swiftTargets.get(target) || []), module.id]);
+    }
+  }
+
+  /**
+   * Resolve the own Swift module (`.`) or an imported one to the files of that target
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    if (specifier === '.') {
+      return { moduleIds: this.swiftTargets.get(this.swiftTargetOf(importer.path)) || [], external: false };
+    }
+
+    const target = [...this.swiftTargets.keys()].find(dir => dir && path.posix.basename(dir) === specifier);
+    return target ? { moduleIds: this.swiftTargets.get(target)!, external: false } : { external: true };
+  }
+
+  /**
+   * SwiftPM target directory of a file (`Sources/<Target>`, `Tests/<Target>`), the project root otherwise
+   */
+  private swiftTargetOf(filePath: string): string {
+    const segments = this.toPosix(filePath).split('/');
+    const index = segments.findIndex((segment, i) =>
+      (segment === 'Sources' || segment === 'Tests') && i < segments.length - 2
+    );
+    return index === -1 ? '' : segments.slice(0, index + 2).join('/');
+  }
+}
@@ -22,33 +22,88 @@ export enum SocialRelationType {
   SECRET_ADMIRER = 'secret',         // Secret Admirer (Async communication)
   FAN_FOLLOWING = 'fan',             // Fan Following (Weak dependency)
   CONTRACT = 'contract',             // Contract Relationship (Interface dependency)
+  PARENT_CHILD = 'parent_child',     // Parent and Child (Class inheritance)
+  MENTOR_APPRENTICE = 'mentor',      // Mentor and Apprentice (Interface implementation)
+  STAGE_PARENT = 'stage_parent',     // Stage Parent and Child (Component rendering)
+}
+
+// How the personality engine cast a character
+export interface CastingDecision {
+  rule: string;                    // Name of the winning rule
+  score: number;                   // Priority plus one point per condition
+  reasons: string[];               // Conditions that held ('file name matches "database"', 'fan-in 12 ≥ 11')
+  candidates: Array<{ rule: string; personality: PersonalityType; score: number }>;  // Other matching rules, best first
+}
+
+export type HealthLevel = 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
+
+// One line of a health score breakdown
+export interface HealthFactor {
+  factor: string;                  // 'syntax-errors', 'functions', 'classes', 'complexity', 'size', 'long-functions', 'focused'
+  value: number;                   // Points, negative for a deduction and positive for a bonus
+  reason: string;                  // What caused it ('2 functions over 30 lines: parse (64), walk (41)')
+}
+
+// Health score of a character and how it was reached
+export interface CharacterHealth {
+  score: number;                   // 0-100, 100 plus the factors
+  factors: HealthFactor[];         // Biggest effect first
+}
+
+// Project health score, averaged over the characters weighted by size and centrality
+export interface ProjectHealth {
+  score: number;                   // 0-100
+  contributors: Array<{
+    characterId: string;
+    score: number;                 // The character's own score
+    weight: number;                // Share of the average, from lines of code and fan-in
+    cost: number;                  // Points the character takes off the project score
+  }>;                              // Costliest first
 }
 
 // Character persona
 export interface CharacterPersona {
+  characterId: string;            // Stable identifier referenced by relations
   name: string;                   // Character name
   originalFile: string;           // Original file path
   personality: PersonalityType;    // Personality type
+  casting: CastingDecision;        // Rule that chose the personality, and why
   traits: string[];                // Personality traits
   role: string;                    // Team role
   color: string;                   // Representative color
   icon: string;                    // Icon type (for 3D generation)
-  health: 'excellent' | 'good' | 'fair' | 'poor' | 'critical';  // Health level
+  health: HealthLevel;             // Health level
+  healthReport: CharacterHealth;   // Score and its deductions and bonuses
   stats: {
     linesOfCode: number;           // Lines of code
     complexity: number;             // Complexity 1-10
     callCount: number;             // Number of calls
     bugRisk: number;               // Bug risk 1-10
   };
+  diagnostics: ParseDiagnostic[];  // Syntax errors (an injured character)
+  cluster?: string;                // Group the character is laid out with (package, crate...)
 }
 
 // Dependency relation
 export interface DependencyRelation {
-  from: string;                    // Source module
-  to: string;                      // Target module
+  from: string;                    // Source characterId
+  to: string;                      // Target characterId
   relationType: SocialRelationType; // Relationship type
   strength: number;                // Relationship strength 0-1
   description: string;              // Socialized description
+  symbols: ImportedSymbol[];       // Symbols flowing from target to source
+  asyncFlavor?: AsyncFlavor;       // Communication style of SECRET_ADMIRER relations
+  hooks?: string[];                // Custom hooks the source borrows from the target
+  cycleId?: string;                 // Dependency cycle this relation belongs to
+}
+
+// Dependency cycle (strongly connected component of the import graph)
+export interface DependencyCycle {
+  id: string;                      // Cycle identifier referenced by relations
+  members: string[];               // Member characterIds
+  length: number;                  // Number of members
+  edges: Array<{ from: string; to: string }>;  // Edges that close the cycle
+  label: string;                   // Social label (Toxic Couple, Love Triangle, Drama Circle)
 }
 
 // Code module
@@ -57,31 +112,90 @@ export interface CodeModule {
   path: string;                    // File path
   type: string;                    // Module type (controller/model/util, etc.)
   language: string;                // Programming language
-  imports: string[];               // Imported modules
+  imports: string[];               // Imported module ids (resolved)
+  unresolvedImports: string[];     // Project-local import specifiers that could not be resolved
+  importBindings: ImportBinding[]; // Imported symbols per import statement
   exports: string[];                // Exported content
+  typeExports: string[];            // Exports that only exist as types (interfaces, type aliases)
   functions: FunctionInfo[];       // Function list
   classes: ClassInfo[];            // Class list
+  namespace?: string;              // Declared package / namespace
+  cluster?: string;                // Group of closely related modules (package, crate...)
+  files?: string[];                // Member files when one module spans several source files
   metadata: {
     lines: number;                 // Lines of code
     hasErrors: boolean;            // Whether there are syntax errors
-    complexity: number;            // Cyclomatic complexity
+    complexity: number;            // Normalized complexity 1-10
+    cyclomaticComplexity: number;  // Raw cyclomatic complexity of the whole file
+    cognitiveComplexity: number;   // Raw cognitive complexity of the whole file
+    diagnostics: ParseDiagnostic[]; // Syntax errors reported while parsing
   };
 }
 
+// Syntax error found while parsing a module
+export interface ParseDiagnostic {
+  message: string;
+  file?: string;                   // Source file when the module spans several files
+  line: number;                    // 1-based line
+  column: number;                  // 1-based column
+}
+
+// Symbol brought in by an import
+export interface ImportedSymbol {
+  name: string;                    // Exported name ('default', '*' for namespace/module object)
+  localName: string;               // Local binding ('' for re-exports)
+  typeOnly: boolean;               // Imported with `import type` / `export type`
+  references: number;              // Number of references in the importing file
+  typeReferences: number;          // References in type positions only
+  awaited: number;                 // References awaited or chained with `.then`
+  events: number;                  // Event API calls (`.on/.emit/.subscribe`...)
+  callbacks: number;               // Calls that register a callback with the target
+  renders?: number;                // Times rendered as a component (JSX element or template tag)
+  hooks?: number;                  // Calls as a React hook (`useX(...)`)
+}
+
+// One import statement and the symbols it binds
+export interface ImportBinding {
+  specifier: string;               // Raw import specifier
+  moduleId?: string;               // Resolved module id
+  symbols: ImportedSymbol[];
+  dynamic?: boolean;               // Loaded lazily with `import()`
+  wildcard?: boolean;              // Whole-namespace import, symbols are the names that might come from it
+  declaration?: boolean;           // Declares a child module (Rust `mod foo;`), building the module tree
+}
+
+// How an async relationship communicates
+export type AsyncFlavor = 'awaited' | 'event' | 'callback' | 'lazy-load';
+
 // Function info
 export interface FunctionInfo {
   name: string;
   params: string[];
   async: boolean;
   lines: number;
+  kind?: 'function' | 'method' | 'constructor' | 'getter' | 'setter';  // Declaration kind
+  overloads?: number;              // Number of overload signatures
+  cyclomaticComplexity?: number;   // Independent paths through the body
+  cognitiveComplexity?: number;    // Nesting-weighted control flow breaks
+  annotations?: string[];          // Annotations / decorators applied to the declaration
 }
 
 // Class info
 export interface ClassInfo {
   name: string;
+  kind?: 'class' | 'interface' | 'struct' | 'enum' | 'trait' | 'record' | 'annotation' | 'module' | 'extension';  // Declaration kind
   extends?: string;
   implements: string[];
   methods: FunctionInfo[];
+  annotations?: string[];          // Annotations / decorators applied to the declaration
+  partial?: boolean;               // Declaration is one part of a type split across files
+}
+
+// Lookup tables for joining characters, modules and relations
+export interface CharacterIndex {
+  byFile: Record<string, string>;       // originalFile -> characterId
+  byModuleId: Record<string, string>;   // CodeModule.id -> characterId
+  positions: Record<string, number>;    // characterId -> index in characters
 }
 
 // Analysis result
@@ -90,10 +204,33 @@ export interface AnalysisResult {
   modules: CodeModule[];
   characters: CharacterPersona[];
   relations: DependencyRelation[];
+  cycles: DependencyCycle[];
+  characterIndex: CharacterIndex;
+  skippedFiles: SkippedFile[];     // Files and directories left out of the analysis
   summary: {
     totalModules: number;
     totalRelations: number;
     healthScore: number;          // Project health score 0-100
+    health: ProjectHealth;        // How the project health score was reached
     mainCharacter: string;        // Main character module
   };
 }
+
+// Why file discovery left a path out
+export type SkipReason =
+  | 'ignored'                      // .gitignore / .codeactorignore
+  | 'excluded'                     // Config or built-in exclude globs
+  | 'minified'
+  | 'generated'
+  | 'binary'
+  | 'too-large'
+  | 'symlink-cycle'                // Symlink back into one of its own ancestors
+  | 'duplicate'                    // Already reached through another symlink
+  | 'outside-project'              // Symlink leaving the project
+  | 'unreadable';
+
+export interface SkippedFile {
+  path: string;                    // Project-relative path, directories end with '/'
+  reason: SkipReason;
+  detail: string;                  // What triggered the skip ('.gitignore: dist/', '2.4 MB > 1 MB')
+}
@@ -0,0 +1,709 @@
+import path from 'node:path';
+import ts from 'typescript';
+import { FunctionInfo, ClassInfo, ImportBinding, ImportedSymbol, ParseDiagnostic } from './types.js';
+import { ComplexityAnalyzer, ComplexityMeasure } from './complexity-analyzer.js';
+
+/**
+ * Structural information extracted from a single source file
+ */
+export interface SourceExtraction {
+  imports: string[];
+  importBindings: ImportBinding[];
+  exports: string[];
+  typeExports: string[];
+  functions: FunctionInfo[];
+  classes: ClassInfo[];
+  complexity?: ComplexityMeasure;  // Whole-file measurements (AST languages only)
+  diagnostics: ParseDiagnostic[];
+  namespace?: string;              // Declared package / namespace
+}
+
+/**
+ * Walk state shared by a single extraction pass
+ */
+interface ExtractionContext {
+  sourceFile: ts.SourceFile;
+  result: SourceExtraction;
+  overloads: Map<string, number>;
+}
+
+/**
+ * TypeScript/JavaScript Extractor - Walks the compiler AST instead of matching regexes
+ */
+export class TypeScriptExtractor {
+  // Method names that mark event-driven communication
+  private readonly eventMethods = new Set([
+    'on', 'once', 'off', 'emit', 'addListener', 'removeListener', 'addEventListener',
+    'removeEventListener', 'subscribe', 'unsubscribe', 'publish', 'listen', 'dispatch',
+  ]);
+
+  private complexityAnalyzer = new ComplexityAnalyzer();
+
+  /**
+   * Extract imports, exports, functions and classes from TS/JS source
+   */
+  extract(content: string, filePath: string): SourceExtraction {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(filePath)
+    );
+
+    const context: ExtractionContext = {
+      sourceFile,
+      result: { imports: [], importBindings: [], exports: [], typeExports: [], functions: [], classes: [], diagnostics: [] },
+      overloads: new Map(),
+    };
+
+    this.visit(sourceFile, context, false);
+    this.countReferences(sourceFile, context.result.importBindings);
+
+    const { result } = context;
+    return {
+      imports: [...new Set(result.imports)],
+      importBindings: result.importBindings,
+      exports: [...new Set(result.exports)],
+      typeExports: [...new Set(result.typeExports)],
+      functions: result.functions,
+      classes: result.classes,
+      complexity: this.complexityAnalyzer.measureModule(sourceFile),
+      diagnostics: this.collectDiagnostics(sourceFile),
+    };
+  }
+
+  /**
+   * Collect syntax errors the parser recovered from
+   *
+   * A single-file program without lib or resolution is enough to get syntactic diagnostics,
+   * and its host hands back the file already parsed instead of reading anything from disk.
+   */
+  private collectDiagnostics(sourceFile: ts.SourceFile): ParseDiagnostic[] {
+    const options: ts.CompilerOptions = { noLib: true, noResolve: true, allowJs: true, types: [] };
+    const host = ts.createCompilerHost(options);
+    host.getSourceFile = () => sourceFile;
+
+    const program = ts.createProgram([sourceFile.fileName], options, host);
+
+    return program.getSyntacticDiagnostics(sourceFile).map(diagnostic => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start || 0);
+      return {
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        line: line + 1,
+        column: character + 1,
+      };
+    });
+  }
+
+  /**
+   * Map file extension to compiler script kind
+   */
+  private getScriptKind(filePath: string): ts.ScriptKind {
+    switch (path.extname(filePath).toLowerCase()) {
+      case '.tsx':
+        return ts.ScriptKind.TSX;
+      case '.jsx':
+        return ts.ScriptKind.JSX;
+      case '.js':
+        return ts.ScriptKind.JS;
+      default:
+        return ts.ScriptKind.TS;
+    }
+  }
+
+  /**
+   * Visit node recursively, only recording functions declared outside other function bodies
+   */
+  private visit(node: ts.Node, context: ExtractionContext, inFunction: boolean): void {
+    const { result } = context;
+
+    if (ts.isImportDeclaration(node)) {
+      this.addImport(node.moduleSpecifier, this.getImportClauseSymbols(node.importClause), result);
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      if (ts.isExternalModuleReference(node.moduleReference)) {
+        const symbol = this.createSymbol('*', node.name.text, node.isTypeOnly);
+        this.addImport(node.moduleReference.expression, [symbol], result);
+      }
+      if (this.hasModifier(node, ts.SyntaxKind.ExportKeyword)) {
+        result.exports.push(node.name.text);
+      }
+    } else if (ts.isExportDeclaration(node)) {
+      if (node.moduleSpecifier) {
+        this.addImport(node.moduleSpecifier, this.getReExportSymbols(node), result);
+      }
+      if (node.exportClause && ts.isNamedExports(node.exportClause)) {
+        for (const element of node.exportClause.elements) {
+          result.exports.push(element.name.text);
+          if (node.isTypeOnly || element.isTypeOnly) {
+            result.typeExports.push(element.name.text);
+          }
+        }
+      } else if (node.exportClause && ts.isNamespaceExport(node.exportClause)) {
+        result.exports.push(node.exportClause.name.text);
+      }
+    } else if (ts.isExportAssignment(node)) {
+      result.exports.push(node.isExportEquals ? 'export=' : 'default');
+      this.recordDefaultExpression(node.expression, context);
+    } else if (ts.isCallExpression(node)) {
+      this.recordModuleCall(node, result);
+    }
+
+    if (!inFunction) {
+      this.recordDeclaration(node, context);
+    }
+
+    // Class bodies are recorded as a unit, their members are not module functions
+    const insideFunction = inFunction || ts.isFunctionLike(node) || ts.isClassLike(node);
+    ts.forEachChild(node, child => this.visit(child, context, insideFunction));
+  }
+
+  /**
+   * Record top-level declarations (functions, classes, variables and their exports)
+   */
+  private recordDeclaration(node: ts.Node, context: ExtractionContext): void {
+    const { result } = context;
+    const exported = this.hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    const isDefault = this.hasModifier(node, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(node)) {
+      const name = node.name?.text || 'default';
+      if (exported) result.exports.push(isDefault ? 'default' : name);
+      this.recordFunction(node, name, context, 'function', result.functions);
+    } else if (ts.isClassDeclaration(node)) {
+      const name = node.name?.text || 'default';
+      if (exported) result.exports.push(isDefault ? 'default' : name);
+      result.classes.push(this.createClassInfo(node, name, context));
+    } else if (ts.isVariableStatement(node)) {
+      for (const declaration of node.declarationList.declarations) {
+        for (const name of this.getBindingNames(declaration.name)) {
+          if (exported) result.exports.push(name);
+        }
+        if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+          this.recordInitializer(declaration.initializer, declaration.name.text, context);
+        }
+      }
+    } else if (
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isModuleDeclaration(node)
+    ) {
+      if (exported && node.name && ts.isIdentifier(node.name)) {
+        const name = isDefault ? 'default' : node.name.text;
+        result.exports.push(name);
+
+        // Interfaces and type aliases vanish at runtime
+        if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+          result.typeExports.push(name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Record function-valued, class-valued or object-literal initializers
+   */
+  private recordInitializer(initializer: ts.Expression, name: string, context: ExtractionContext): void {
+    const expression = this.unwrapExpression(initializer);
+
+    if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+      this.recordFunction(expression, name, context, 'function', context.result.functions);
+    } else if (ts.isClassExpression(expression)) {
+      context.result.classes.push(this.createClassInfo(expression, name, context));
+    } else if (ts.isObjectLiteralExpression(expression)) {
+      this.recordObjectLiteral(expression, name, context);
+    }
+  }
+
+  /**
+   * Record `export default <expression>` functions, classes and object literals
+   */
+  private recordDefaultExpression(expression: ts.Expression, context: ExtractionContext): void {
+    const inner = this.unwrapExpression(expression);
+
+    if (ts.isArrowFunction(inner) || ts.isFunctionExpression(inner)) {
+      const name = ts.isFunctionExpression(inner) && inner.name ? inner.name.text : 'default';
+      this.recordFunction(inner, name, context, 'function', context.result.functions);
+    } else if (ts.isClassExpression(inner)) {
+      context.result.classes.push(this.createClassInfo(inner, inner.name?.text || 'default', context));
+    } else if (ts.isObjectLiteralExpression(inner)) {
+      this.recordObjectLiteral(inner, 'default', context);
+    }
+  }
+
+  /**
+   * Record methods defined inside an object literal as `owner.method`
+   */
+  private recordObjectLiteral(
+    literal: ts.ObjectLiteralExpression,
+    owner: string,
+    context: ExtractionContext
+  ): void {
+    for (const property of literal.properties) {
+      const propertyName = property.name ? this.getPropertyName(property.name, context.sourceFile) : '';
+      const qualifiedName = `${owner}.${propertyName}`;
+
+      if (ts.isMethodDeclaration(property)) {
+        this.recordFunction(property, qualifiedName, context, 'method', context.result.functions);
+      } else if (ts.isGetAccessorDeclaration(property)) {
+        this.recordFunction(property, qualifiedName, context, 'getter', context.result.functions);
+      } else if (ts.isSetAccessorDeclaration(property)) {
+        this.recordFunction(property, qualifiedName, context, 'setter', context.result.functions);
+      } else if (ts.isPropertyAssignment(property)) {
+        const value = this.unwrapExpression(property.initializer);
+        if (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) {
+          this.recordFunction(value, qualifiedName, context, 'method', context.result.functions);
+        } else if (ts.isObjectLiteralExpression(value)) {
+          this.recordObjectLiteral(value, qualifiedName, context);
+        }
+      }
+    }
+  }
+
+  /**
+   * Build class info including methods, accessors and arrow-function properties
+   */
+  private createClassInfo(
+    node: ts.ClassDeclaration | ts.ClassExpression,
+    name: string,
+    context: ExtractionContext
+  ): ClassInfo {
+    const methods: FunctionInfo[] = [];
+    let extendsName: string | undefined;
+    const implementsNames: string[] = [];
+
+    for (const clause of node.heritageClauses || []) {
+      for (const type of clause.types) {
+        const typeName = type.expression.getText(context.sourceFile);
+        if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+          extendsName = typeName;
+        } else {
+          implementsNames.push(typeName);
+        }
+      }
+    }
+
+    for (const member of node.members) {
+      const memberName = member.name ? this.getPropertyName(member.name, context.sourceFile) : '';
+
+      if (ts.isConstructorDeclaration(member)) {
+        this.recordFunction(member, 'constructor', context, 'constructor', methods, name);
+      } else if (ts.isMethodDeclaration(member)) {
+        this.recordFunction(member, memberName, context, 'method', methods, name);
+      } else if (ts.isGetAccessorDeclaration(member)) {
+        this.recordFunction(member, memberName, context, 'getter', methods, name);
+      } else if (ts.isSetAccessorDeclaration(member)) {
+        this.recordFunction(member, memberName, context, 'setter', methods, name);
+      } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+        const value = this.unwrapExpression(member.initializer);
+        if (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) {
+          this.recordFunction(value, memberName, context, 'method', methods, name);
+        }
+      }
+    }
+
+    return {
+      name,
+      extends: extendsName,
+      implements: implementsNames,
+      methods,
+    };
+  }
+
+  /**
+   * Record a function-like node, folding overload signatures into their implementation
+   */
+  private recordFunction(
+    node: ts.SignatureDeclaration,
+    name: string,
+    context: ExtractionContext,
+    kind: NonNullable<FunctionInfo['kind']>,
+    target: FunctionInfo[],
+    owner = ''
+  ): void {
+    const overloadKey = `${owner}#${kind}#${name}`;
+    const hasBody = 'body' in node && node.body !== undefined;
+
+    // Overload signatures and ambient declarations have no body
+    if (!hasBody && !this.hasModifier(node, ts.SyntaxKind.AbstractKeyword)) {
+      context.overloads.set(overloadKey, (context.overloads.get(overloadKey) || 0) + 1);
+      return;
+    }
+
+    const { sourceFile } = context;
+    const startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+    const endLine = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+    const overloads = context.overloads.get(overloadKey);
+    context.overloads.delete(overloadKey);
+
+    const { cyclomatic, cognitive } = this.complexityAnalyzer.measureFunction(node);
+
+    const info: FunctionInfo = {
+      name,
+      params: node.parameters.map(param =>
+        (param.dotDotDotToken ? '...' : '') + param.name.getText(sourceFile)
+      ),
+      async: this.hasModifier(node, ts.SyntaxKind.AsyncKeyword),
+      lines: endLine - startLine + 1,
+      kind,
+      cyclomaticComplexity: cyclomatic,
+      cognitiveComplexity: cognitive,
+    };
+
+    if (overloads) {
+      info.overloads = overloads;
+    }
+
+    target.push(info);
+  }
+
+  /**
+   * Record `require('x')` and `import('x')` calls
+   */
+  private recordModuleCall(node: ts.CallExpression, result: SourceExtraction): void {
+    const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+    const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+
+    if (!(isRequire || isDynamicImport) || node.arguments.length === 0) return;
+
+    // `const x = require('./x')` / `const { a } = require('./x')`
+    const symbols: ImportedSymbol[] = [];
+    if (isRequire && ts.isVariableDeclaration(node.parent) && node.parent.initializer === node) {
+      const binding = node.parent.name;
+      if (ts.isIdentifier(binding)) {
+        symbols.push(this.createSymbol('*', binding.text));
+      } else if (ts.isObjectBindingPattern(binding)) {
+        for (const element of binding.elements) {
+          if (!ts.isIdentifier(element.name)) continue;
+          const importedName = element.propertyName && ts.isIdentifier(element.propertyName)
+            ? element.propertyName.text
+            : element.name.text;
+          symbols.push(this.createSymbol(importedName, element.name.text));
+        }
+      }
+    }
+
+    this.addImport(node.arguments[0], symbols, result, isDynamicImport);
+  }
+
+  /**
+   * Add raw import specifier (resolved to module ids by ImportResolver)
+   */
+  private addImport(
+    specifier: ts.Node,
+    symbols: ImportedSymbol[],
+    result: SourceExtraction,
+    dynamic = false
+  ): void {
+    if (!ts.isStringLiteralLike(specifier)) return;
+    result.imports.push(specifier.text);
+    result.importBindings.push(dynamic ? { specifier: specifier.text, symbols, dynamic } : { specifier: specifier.text, symbols });
+  }
+
+  /**
+   * Symbols bound by `import a, { b as c } from` / `import * as ns from`
+   */
+  private getImportClauseSymbols(clause: ts.ImportClause | undefined): ImportedSymbol[] {
+    if (!clause) return [];
+
+    const symbols: ImportedSymbol[] = [];
+    if (clause.name) {
+      symbols.push(this.createSymbol('default', clause.name.text, clause.isTypeOnly));
+    }
+
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      symbols.push(this.createSymbol('*', bindings.name.text, clause.isTypeOnly));
+    } else if (bindings) {
+      for (const element of bindings.elements) {
+        symbols.push(this.createSymbol(
+          (element.propertyName || element.name).text,
+          element.name.text,
+          clause.isTypeOnly || element.isTypeOnly
+        ));
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Symbols forwarded by `export { a } from` / `export * from` (each counts as one use)
+   */
+  private getReExportSymbols(node: ts.ExportDeclaration): ImportedSymbol[] {
+    const clause = node.exportClause;
+
+    if (clause && ts.isNamedExports(clause)) {
+      return clause.elements.map(element => ({
+        ...this.createSymbol((element.propertyName || element.name).text, '', node.isTypeOnly || element.isTypeOnly),
+        references: 1,
+      }));
+    }
+
+    return [{ ...this.createSymbol('*', '', node.isTypeOnly), references: 1 }];
+  }
+
+  /**
+   * Create imported symbol with no references yet
+   */
+  private createSymbol(name: string, localName: string, typeOnly = false): ImportedSymbol {
+    return { name, localName, typeOnly, references: 0, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 };
+  }
+
+  /**
+   * Count how often each imported binding is referenced in the file
+   *
+   * Namespace bindings (`ns.member`) are broken down into the members actually used.
+   */
+  private countReferences(sourceFile: ts.SourceFile, bindings: ImportBinding[]): void {
+    const byLocalName = new Map<string, { binding: ImportBinding; symbol: ImportedSymbol }>();
+    for (const binding of bindings) {
+      for (const symbol of binding.symbols) {
+        if (symbol.localName) {
+          byLocalName.set(symbol.localName, { binding, symbol });
+        }
+      }
+    }
+
+    if (byLocalName.size === 0) return;
+
+    const walk = (node: ts.Node): void => {
+      // Import statements declare the bindings, they do not use them
+      if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return;
+
+      if (ts.isIdentifier(node) && this.isReference(node)) {
+        const entry = byLocalName.get(node.text);
+        if (entry) {
+          this.recordReference(node, entry.binding, entry.symbol);
+        }
+      }
+
+      ts.forEachChild(node, walk);
+    };
+
+    walk(sourceFile);
+
+    // Namespace objects only used through their members are represented by those members
+    for (const binding of bindings) {
+      if (binding.symbols.some(s => s.localName.includes('.'))) {
+        binding.symbols = binding.symbols.filter(s => !(s.name === '*' && s.references === 0));
+      }
+    }
+  }
+
+  /**
+   * Record a single reference, attributing namespace member access to the member
+   */
+  private recordReference(node: ts.Identifier, binding: ImportBinding, symbol: ImportedSymbol): void {
+    const parent = node.parent;
+    let member: string | undefined;
+
+    // `</Card>` closes an element already counted at its opening tag
+    const tag = this.getJsxTag(node);
+    if (tag && ts.isJsxClosingElement(tag)) return;
+
+    if (symbol.name === '*') {
+      if (ts.isPropertyAccessExpression(parent) && parent.expression === node) {
+        member = parent.name.text;
+      } else if (ts.isQualifiedName(parent) && parent.left === node) {
+        member = parent.right.text;
+      }
+    }
+
+    const inTypePosition = this.isTypePosition(node);
+
+    if (member === undefined) {
+      symbol.references++;
+      if (inTypePosition) symbol.typeReferences++;
+      this.classifyUsage(node, symbol);
+      return;
+    }
+
+    const localName = `${symbol.localName}.${member}`;
+    let memberSymbol = binding.symbols.find(s => s.localName === localName);
+    if (!memberSymbol) {
+      memberSymbol = this.createSymbol(member, localName, symbol.typeOnly);
+      binding.symbols.push(memberSymbol);
+    }
+    memberSymbol.references++;
+    if (inTypePosition) memberSymbol.typeReferences++;
+    this.classifyUsage(parent, memberSymbol);
+  }
+
+  /**
+   * Check whether identifier is used as a type (erased at runtime) rather than a value
+   */
+  private isTypePosition(node: ts.Identifier): boolean {
+    // Climb out of `ns.Type` / `ns.Interface` qualified access
+    let current: ts.Node = node;
+    while (
+      (ts.isQualifiedName(current.parent) && current.parent.left === current) ||
+      (ts.isPropertyAccessExpression(current.parent) && current.parent.expression === current)
+    ) {
+      current = current.parent;
+    }
+
+    const parent = current.parent;
+
+    // `implements X` and interface `extends X` are type-only, class `extends X` needs the value
+    if (ts.isExpressionWithTypeArguments(parent)) {
+      const clause = parent.parent;
+      if (!ts.isHeritageClause(clause)) return false;
+      return !(clause.token === ts.SyntaxKind.ExtendsKeyword && ts.isClassLike(clause.parent));
+    }
+
+    return ts.isTypeNode(parent);
+  }
+
+  /**
+   * Classify how a reference is used: awaited call, event API call or callback registration
+   */
+  private classifyUsage(reference: ts.Node, symbol: ImportedSymbol): void {
+    let call: ts.CallExpression | undefined;
+    let method: string | undefined;
+    const parent = reference.parent;
+
+    // `<Card />`, `<Icons.Star>`
+    if (this.getJsxTag(reference)) {
+      symbol.renders = (symbol.renders || 0) + 1;
+      return;
+    }
+
+    if (ts.isCallExpression(parent) && parent.expression === reference) {
+      // sym(...)
+      call = parent;
+    } else if (
+      ts.isPropertyAccessExpression(parent) &&
+      parent.expression === reference &&
+      ts.isCallExpression(parent.parent) &&
+      parent.parent.expression === parent
+    ) {
+      // sym.method(...)
+      call = parent.parent;
+      method = parent.name.text;
+    }
+
+    if (!call) {
+      // `await sym` / `await sym.promise`
+      if (ts.isAwaitExpression(parent)) symbol.awaited++;
+      return;
+    }
+
+    if (!method && [symbol.name, symbol.localName.split('.').pop()].some(name => /^use[A-Z0-9]/.test(name || ''))) {
+      symbol.hooks = (symbol.hooks || 0) + 1;
+    } else if (method && this.eventMethods.has(method)) {
+      symbol.events++;
+    } else if (this.isAwaited(call)) {
+      symbol.awaited++;
+    } else if (call.arguments.some(arg => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg))) {
+      symbol.callbacks++;
+    }
+  }
+
+  /**
+   * JSX element whose tag name is (or starts with) the reference
+   */
+  private getJsxTag(reference: ts.Node): ts.JsxOpeningElement | ts.JsxSelfClosingElement | ts.JsxClosingElement | undefined {
+    let current = reference;
+    while (ts.isPropertyAccessExpression(current.parent) && current.parent.expression === current) {
+      current = current.parent;
+    }
+
+    const element = current.parent;
+    if ((ts.isJsxOpeningElement(element) || ts.isJsxSelfClosingElement(element) || ts.isJsxClosingElement(element)) &&
+      element.tagName === current) {
+      return element;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether a call result is awaited or chained with `.then`
+   */
+  private isAwaited(call: ts.CallExpression): boolean {
+    let parent = call.parent;
+    while (ts.isParenthesizedExpression(parent)) {
+      parent = parent.parent;
+    }
+
+    if (ts.isAwaitExpression(parent)) return true;
+    return ts.isPropertyAccessExpression(parent) && parent.name.text === 'then';
+  }
+
+  /**
+   * Check whether identifier is a value/type reference rather than a declaration or property key
+   */
+  private isReference(node: ts.Identifier): boolean {
+    const parent = node.parent;
+
+    if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+    if (ts.isQualifiedName(parent) && parent.right === node) return false;
+    if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) || ts.isPropertySignature(parent) ||
+      ts.isMethodSignature(parent) || ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) || ts.isEnumMember(parent)) && parent.name === node) {
+      return false;
+    }
+    if ((ts.isVariableDeclaration(parent) || ts.isParameter(parent) ||
+      ts.isFunctionDeclaration(parent) || ts.isClassDeclaration(parent) ||
+      ts.isBindingElement(parent)) && parent.name === node) {
+      return false;
+    }
+    if (ts.isBindingElement(parent) && parent.propertyName === node) return false;
+    if (ts.isJsxAttribute(parent)) return false;
+
+    return true;
+  }
+
+  /**
+   * Collect identifiers bound by a variable declaration (including destructuring)
+   */
+  private getBindingNames(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) {
+      return [name.text];
+    }
+
+    const names: string[] = [];
+    for (const element of name.elements) {
+      if (ts.isBindingElement(element)) {
+        names.push(...this.getBindingNames(element.name));
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Get readable property name (identifier, string literal or computed key)
+   */
+  private getPropertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+    if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return name.getText(sourceFile);
+  }
+
+  /**
+   * Strip parentheses, type assertions and `satisfies` wrappers
+   */
+  private unwrapExpression(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isTypeAssertionExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * Check whether node carries the given modifier keyword
+   */
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    if (!ts.canHaveModifiers(node)) return false;
+    return (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+  }
+}
@@ -0,0 +1,167 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { CodeModule } from './types.js';
+import { ImportContext } from './language-plugin.js';
+import { ImportTarget } from './import-resolver.js';
+import { LanguageResolver } from './language-resolver.js';
+
+/**
+ * tsconfig `paths` entry
+ */
+interface PathMapping {
+  prefix: string;
+  suffix: string;
+  wildcard: boolean;
+  targets: string[];
+}
+
+/**
+ * TypeScript Resolver - Relative paths, tsconfig `paths` aliases and `baseUrl` lookups (JavaScript too)
+ */
+export class TypeScriptResolver extends LanguageResolver {
+  private baseUrl: string | null = null;
+  private readonly pathMappings: PathMapping[] = [];
+
+  // Extensions tried in order when a specifier omits or swaps its extension
+  private readonly scriptExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+  private readonly extensionSwaps: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx', '.js'],
+    '.jsx': ['.tsx', '.jsx'],
+    '.mjs': ['.mts', '.mjs'],
+    '.cjs': ['.cts', '.cjs'],
+  };
+
+  constructor(context: ImportContext) {
+    super(context);
+    this.loadCompilerOptions();
+  }
+
+  /**
+   * Resolve a relative or root path to a script file, otherwise a `paths` alias or a `baseUrl` lookup
+   */
+  resolve(specifier: string, importer: CodeModule): ImportTarget {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const importerDir = path.posix.dirname(this.toPosix(importer.path));
+      const base = specifier.startsWith('/')
+        ? specifier.slice(1)
+        : path.posix.join(importerDir, specifier);
+      return { moduleId: this.resolveFile(base), external: false };
+    }
+
+    // Path aliases take precedence over baseUrl lookups
+    for (const mapping of this.pathMappings) {
+      const captured = this.matchMapping(mapping, specifier);
+      if (captured === null) continue;
+
+      for (const target of mapping.targets) {
+        const moduleId = this.resolveFile(this.toProjectPath(target.replace('*', captured)));
+        if (moduleId) return { moduleId, external: false };
+      }
+      return { external: false };
+    }
+
+    if (this.baseUrl) {
+      const moduleId = this.resolveFile(this.toProjectPath(path.join(this.baseUrl, specifier)));
+      if (moduleId) return { moduleId, external: false };
+    }
+
+    return { external: true };
+  }
+
+  /**
+   * Find the project file a path refers to (extension swapping and index files)
+   */
+  private resolveFile(basePath: string | null): string | undefined {
+    if (basePath === null) return undefined;
+
+    const normalized = path.posix.normalize(basePath);
+    const candidates: string[] = [normalized];
+    const ext = path.posix.extname(normalized);
+    const stem = normalized.slice(0, normalized.length - ext.length);
+
+    if (this.extensionSwaps[ext]) {
+      candidates.push(...this.extensionSwaps[ext].map(swap => stem + swap));
+    }
+    candidates.push(...this.scriptExtensions.map(e => normalized + e));
+    candidates.push(...this.scriptExtensions.map(e => path.posix.join(normalized, 'index' + e)));
+
+    for (const candidate of candidates) {
+      const moduleId = this.moduleIdForFile(candidate);
+      if (moduleId) return moduleId;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Match specifier against a `paths` pattern, returning the wildcard capture
+   */
+  private matchMapping(mapping: PathMapping, specifier: string): string | null {
+    if (!mapping.wildcard) {
+      return specifier === mapping.prefix ? '' : null;
+    }
+
+    if (
+      specifier.length >= mapping.prefix.length + mapping.suffix.length &&
+      specifier.startsWith(mapping.prefix) &&
+      specifier.endsWith(mapping.suffix)
+    ) {
+      return specifier.slice(mapping.prefix.length, specifier.length - mapping.suffix.length);
+    }
+
+    return null;
+  }
+
+  /**
+   * Read `baseUrl` and `paths` from tsconfig.json / jsconfig.json in the project root, following `extends`
+   */
+  private loadCompilerOptions(): void {
+    const configPath = ['tsconfig.json', 'jsconfig.json']
+      .map(name => path.join(this.context.projectPath, name))
+      .find(candidate => fs.existsSync(candidate));
+
+    if (!configPath) return;
+
+    const { config, error } = ts.readConfigFile(configPath, file => fs.readFileSync(file, 'utf-8'));
+    if (error || !config) return;
+
+    // Only the options are needed: skip listing the project's files
+    const host: ts.ParseConfigHost = {
+      useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+      readDirectory: () => [],
+      fileExists: file => fs.existsSync(file),
+      readFile: file => (fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined),
+    };
+    const configDir = path.dirname(configPath);
+    const { options } = ts.parseJsonConfigFileContent(config, host, configDir, undefined, configPath);
+    const { baseUrl, paths } = options;
+
+    if (typeof baseUrl === 'string') {
+      this.baseUrl = path.resolve(configDir, baseUrl);
+    }
+
+    // Without baseUrl, `paths` targets are relative to the config file declaring them (maybe an extended one)
+    const pathsBase = typeof options.pathsBasePath === 'string' ? options.pathsBasePath : configDir;
+    const mappingRoot = this.baseUrl || pathsBase;
+
+    if (paths && typeof paths === 'object') {
+      for (const [pattern, targets] of Object.entries(paths)) {
+        if (!Array.isArray(targets)) continue;
+
+        const starIndex = pattern.indexOf('*');
+        this.pathMappings.push({
+          prefix: starIndex === -1 ? pattern : pattern.slice(0, starIndex),
+          suffix: starIndex === -1 ? '' : pattern.slice(starIndex + 1),
+          wildcard: starIndex !== -1,
+          targets: targets
+            .filter((t): t is string => typeof t === 'string')
+            .map(t => path.resolve(mappingRoot, t)),
+        });
+      }
+
+      // Longest prefix wins, as in the TypeScript compiler
+      this.pathMappings.sort((a, b) => b.prefix.length - a.prefix.length);
+    }
+  }
+}
@@ -3,7 +3,7 @@
 import express from 'express';
 import { WebSocketServer } from 'ws';
 import { createServer } from 'http';
-import { CodeAnalyzer } from '../analyzer/index.js';
+import { CodeAnalyzer, loadLanguagePlugins } from '../analyzer/index.js';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 
@@ -24,6 +24,10 @@ interface CliOptions {
   help?: boolean;
   port?: number;
   format?: 'json' | 'mermaid' | 'narrative';
+  goPackages?: boolean;
+  includeDirs?: string[];
+  mergeHeaders?: boolean;
+  plugins?: string[];
 }
 
 async function main() {
@@ -40,19 +44,34 @@ async function main() {
 
   // Analyze project
   console.log(`📂 Analyzing project: ${projectPath}`);
-  const analyzer = new CodeAnalyzer();
 
   try {
+    const analyzer = await CodeAnalyzer.forProject(projectPath, {
+      goPackageCharacters: options.goPackages,
+      includeDirs: options.includeDirs,
+      mergeHeaderPairs: options.mergeHeaders,
+      plugins: await loadLanguagePlugins(options.plugins || [], projectPath),
+    });
+    if (analyzer.config.source) {
+      console.log(`⚙️  Using ${analyzer.config.source}`);
+    }
     const result = analyzer.analyze(projectPath);
 
     console.log(`✅ Analysis complete!`);
     console.log(`   - Characters: ${result.summary.totalModules}`);
     console.log(`   - Relationships: ${result.summary.totalRelations}`);
-    console.log(`   - Health Score: ${result.summary.healthScore}%\n`);
+    console.log(`   - Health Score: ${result.summary.healthScore}%`);
+    if (result.skippedFiles.length > 0) {
+      const reasons = new Map<string, number>();
+      result.skippedFiles.forEach(file => reasons.set(file.reason, (reasons.get(file.reason) || 0) + 1));
+      const breakdown = [...reasons].map(([reason, count]) => `${count} ${reason}`).join(', ');
+      console.log(`   - Skipped: ${result.skippedFiles.length} (${breakdown})`);
+    }
+    console.log('');
 
     if (options.export) {
       // Export mode
-      exportResult(result, options.format || 'narrative');
+      exportResult(analyzer, result, options.format || analyzer.config.export.format);
     } else {
       // Start Web server
       const port = options.port || 5173;
@@ -81,6 +100,14 @@ function parseOptions(args: string[]): CliOptions {
       options.port = parseInt(args[++i]) || undefined;
     } else if (arg === '--format' || arg === '-f') {
       options.format = args[++i] as any;
+    } else if (arg === '--go-packages') {
+      options.goPackages = true;
+    } else if (arg === '--include-dir' || arg === '-I') {
+      options.includeDirs = [...(options.includeDirs || []), args[++i]];
+    } else if (arg === '--merge-headers') {
+      options.mergeHeaders = true;
+    } else if (arg === '--plugin') {
+      options.plugins = [...(options.plugins || []), args[++i]];
     }
   }
 
@@ -91,10 +118,15 @@ function parseOptions(args: string[]): CliOptions {
  * Get project path
  */
 function getProjectPath(args: string[]): string {
+  // Options that consume the next argument
+  const valueOptions = ['--port', '-p', '--format', '-f', '--include-dir', '-I', '--plugin'];
+
   // Find first non-option parameter
-  for (const arg of args) {
-    if (!arg.startsWith('-')) {
-      return arg;
+  for (let i = 0; i < args.length; i++) {
+    if (valueOptions.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith('-')) {
+      return args[i];
     }
   }
   return '.';
@@ -114,10 +146,18 @@ Usage:
 
 Options:
   -e, --export              Export result only, do not start server
-  -f, --format <format>     Export format: json, mermaid, narrative (default: narrative)
+  -f, --format <format>     Export format: json, mermaid, narrative (default: export.format or narrative)
   -p, --port <port>         Web server port (default: 5173)
+  --go-packages             One character per Go package instead of per file
+  -I, --include-dir <dir>   C/C++ include directory (repeatable, adds to compile_commands.json)
+  --merge-headers           One character per C/C++ header + implementation pair
+  --plugin <name|path>      Load a language plugin (npm package or file, repeatable)
   -h, --help                Show help message
 
+Configuration:
+  codeactor.config.json or codeactor.config.ts in the project root sets include/exclude globs,
+  languages, plugins, personality rules, health weights and export defaults. Options above win.
+
 Examples:
   code-actor                     # Analyze current directory
   code-actor ./src               # Analyze specified directory
@@ -135,9 +175,7 @@ About:
 /**
  * Export result
  */
-function exportResult(result: any, format: string) {
-  const analyzer = new CodeAnalyzer();
-
+function exportResult(analyzer: CodeAnalyzer, result: any, format: string) {
   switch (format) {
     case 'json':
       console.log(analyzer.exportJSON(result));
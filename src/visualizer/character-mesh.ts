@@ -56,6 +56,11 @@ export class CharacterMeshGenerator {
       this.addHealthAura(group, character);
     }
 
+    // Syntax errors show up as a first-aid plaster
+    if (character.diagnostics && character.diagnostics.length > 0) {
+      this.addInjuryPlaster(group);
+    }
+
     // Add floating label
     this.addNameLabel(group, character);
 
@@ -571,6 +576,29 @@ export class CharacterMeshGenerator {
     group.userData.healthConfig = config;
   }
 
+  /**
+   * Add first-aid plaster marking a character whose file failed to parse cleanly
+   */
+  private addInjuryPlaster(group: THREE.Group): void {
+    const plaster = new THREE.Group();
+
+    const padGeo = new THREE.BoxGeometry(0.32, 0.32, 0.05);
+    const padMat = new THREE.MeshBasicMaterial({ color: 0xFFFFFF });
+    plaster.add(new THREE.Mesh(padGeo, padMat));
+
+    // Red cross
+    const crossMat = new THREE.MeshBasicMaterial({ color: 0xE74C3C });
+    const vertical = new THREE.Mesh(new THREE.BoxGeometry(0.07, 0.22, 0.06), crossMat);
+    const horizontal = new THREE.Mesh(new THREE.BoxGeometry(0.22, 0.07, 0.06), crossMat);
+    plaster.add(vertical, horizontal);
+
+    plaster.position.set(-0.45, 2.55, 0.35);
+    plaster.rotation.z = Math.PI / 8;
+    group.add(plaster);
+
+    group.userData.isInjured = true;
+  }
+
   /**
    * Create dizzy spiral effect
    */
@@ -208,7 +208,7 @@ export class InteractionManager {
     if (character && this.tooltip) {
       this.tooltip.innerHTML = `
         <div style="font-weight: bold; margin-bottom: 8px; color: ${character.color};">
-          ${character.name}
+          ${this.escapeHtml(character.name)}
         </div>
         <div>${character.role}</div>
         <div style="margin-top: 8px; font-size: 12px; opacity: 0.8;">
@@ -420,7 +420,7 @@ export class InteractionManager {
     this.doubleClickCharacter = group;
 
     // Highlight selected character's relationship network
-    this.highlightNetwork(character.originalFile);
+    this.highlightNetwork(character.characterId);
 
     // Trigger callback
     if (this.onCharacterDoubleClick) {
@@ -431,15 +431,15 @@ export class InteractionManager {
   /**
    * Highlight relationship network
    */
-  private highlightNetwork(characterFile: string): void {
-    // Find all related character files
-    const relatedFiles = new Set<string>();
+  private highlightNetwork(characterId: string): void {
+    // Find all related characters
+    const relatedIds = new Set<string>([characterId]);
     const highlightedLines = new Set<THREE.Group>();
 
     for (const relation of this.relations) {
-      if (relation.from === characterFile || relation.to === characterFile) {
-        relatedFiles.add(relation.from);
-        relatedFiles.add(relation.to);
+      if (relation.from === characterId || relation.to === characterId) {
+        relatedIds.add(relation.from);
+        relatedIds.add(relation.to);
 
         // Find corresponding relationship lines
         for (const line of this.relationLines) {
@@ -472,7 +472,7 @@ export class InteractionManager {
 
     // Make unrelated characters semi-transparent
     for (const [mesh, char] of this.characters) {
-      if (!relatedFiles.has(char.originalFile)) {
+      if (!relatedIds.has(char.characterId)) {
         mesh.traverse((child) => {
           if (child instanceof THREE.Mesh && child.material) {
             if (Array.isArray(child.material)) {
@@ -607,16 +607,17 @@ export class InteractionManager {
    * Update relationship line positions (when character is dragged)
    */
   private updateRelationLines(character: THREE.Group, newPosition: THREE.Vector3): void {
-    const characterFile = character.userData.character?.originalFile;
-    if (!characterFile) return;
-
-    const headY = 1; // Height where line connects to character
+    const characterId = character.userData.character?.characterId;
+    if (!characterId) return;
 
     for (const group of this.relationLines) {
       const relation = group.userData.relation;
       if (!relation) continue;
 
-      if (relation.from === characterFile || relation.to === characterFile) {
+      // Height where line connects to character (family arcs start above the head)
+      const headY = group.userData.isFamily ? 2.5 : 1;
+
+      if (relation.from === characterId || relation.to === characterId) {
         const pipe = group.userData.pipe as THREE.Mesh;
         const arrow = group.userData.arrow as THREE.Mesh;
         const arrow1 = group.userData.arrow1 as THREE.Mesh;
@@ -626,14 +627,19 @@ export class InteractionManager {
         const isBidirectional = group.userData.isBidirectional as boolean;
 
         // Update points
-        if (relation.from === characterFile) {
+        if (relation.from === characterId) {
           startPoint.set(newPosition.x, headY, newPosition.z);
         }
 
-        if (relation.to === characterFile) {
+        if (relation.to === characterId) {
           endPoint.set(newPosition.x, headY, newPosition.z);
         }
 
+        if (group.userData.isFamily) {
+          this.updateFamilyArc(group, startPoint, endPoint);
+          continue;
+        }
+
         // Recalculate direction and length
         const newDirection = new THREE.Vector3().subVectors(endPoint, startPoint);
         const length = newDirection.length();
@@ -679,6 +685,31 @@ export class InteractionManager {
     }
   }
 
+  /**
+   * Rebuild a family arc after one of its characters moved
+   */
+  private updateFamilyArc(group: THREE.Group, startPoint: THREE.Vector3, endPoint: THREE.Vector3): void {
+    group.userData.rebuildArc?.(startPoint, endPoint);
+
+    const arrow = group.userData.arrow as THREE.Mesh;
+    if (arrow) {
+      arrow.position.copy(endPoint);
+      arrow.quaternion.setFromUnitVectors(
+        new THREE.Vector3(0, 1, 0),
+        new THREE.Vector3().subVectors(endPoint, startPoint).normalize()
+      );
+    }
+
+    const midPoint = startPoint.clone().lerp(endPoint, 0.5);
+    midPoint.y += startPoint.distanceTo(endPoint) * 0.25 + 0.5;
+
+    group.traverse((child) => {
+      if (child instanceof THREE.Sprite && (child.userData.isRelationIcon || child.userData.isRelationLabel)) {
+        child.position.set(midPoint.x, child.userData.isRelationLabel ? midPoint.y - 0.4 : midPoint.y, midPoint.z);
+      }
+    });
+  }
+
   /**
    * Handle wheel scroll - zoom to character
    */
@@ -716,14 +747,14 @@ export class InteractionManager {
 
     // Find related relationships
     const relatedRelations = this.relations.filter(
-      r => r.from === character.originalFile || r.to === character.originalFile
+      r => r.from === character.characterId || r.to === character.characterId
     );
 
     this.infoPanel.innerHTML = `
       <div style="display: flex; align-items: center; gap: 12px; margin-bottom: 16px;">
         <div style="width: 40px; height: 40px; border-radius: 50%; background: ${character.color}; display: flex; align-items: center; justify-content: center; font-size: 20px;">🎭</div>
         <div>
-          <div style="font-size: 18px; font-weight: bold; color: ${character.color};">${character.name}</div>
+          <div style="font-size: 18px; font-weight: bold; color: ${character.color};">${this.escapeHtml(character.name)}</div>
           <div style="font-size: 14px; opacity: 0.7;">${character.role}</div>
         </div>
       </div>
@@ -731,6 +762,9 @@ export class InteractionManager {
       <div style="margin-bottom: 16px;">
         <div style="font-size: 12px; opacity: 0.6; margin-bottom: 4px;">PERSONALITY</div>
         <div style="font-size: 14px;">${character.personality}</div>
+        <div style="margin-top: 4px; font-size: 11px; opacity: 0.7;">
+          Cast by rule <b>${this.escapeHtml(character.casting.rule)}</b>: ${this.escapeHtml(character.casting.reasons.join(', '))}
+        </div>
       </div>
 
       <div style="margin-bottom: 16px;">
@@ -747,7 +781,18 @@ export class InteractionManager {
             <span style="font-size: 14px; color: #fff;">${healthIcon}</span>
           </div>
           <span style="font-size: 14px; font-weight: 500; text-transform: capitalize;">${character.health}</span>
+          <span style="font-size: 13px; opacity: 0.7;">${character.healthReport.score}/100</span>
         </div>
+        ${character.healthReport.factors.length > 0 ? `
+          <div style="margin-top: 6px; font-size: 11px;">
+            ${character.healthReport.factors.map(f => `
+              <div style="display: flex; gap: 6px; margin-bottom: 2px;">
+                <span style="min-width: 36px; text-align: right; font-family: monospace; color: ${f.value < 0 ? '#E74C3C' : '#2ECC71'};">${f.value > 0 ? '+' : ''}${f.value}</span>
+                <span style="opacity: 0.8;">${this.escapeHtml(f.reason)}</span>
+              </div>
+            `).join('')}
+          </div>
+        ` : ''}
       </div>
 
       <div style="margin-bottom: 16px;">
@@ -764,13 +809,32 @@ export class InteractionManager {
         </div>
       </div>
 
+      ${character.diagnostics && character.diagnostics.length > 0 ? `
+        <div style="margin-bottom: 16px;">
+          <div style="font-size: 12px; opacity: 0.6; margin-bottom: 8px;">🩹 INJURIES (${character.diagnostics.length} syntax errors)</div>
+          <div style="max-height: 120px; overflow-y: auto;">
+            ${character.diagnostics.map(d => `
+              <div style="padding: 6px 8px; background: rgba(231,76,60,0.15); border-radius: 6px; margin-bottom: 4px; font-size: 12px;">
+                <span style="font-family: monospace; opacity: 0.7;">${d.line}:${d.column}</span>
+                ${this.escapeHtml(d.message)}
+              </div>
+            `).join('')}
+          </div>
+        </div>
+      ` : ''}
+
       ${relatedRelations.length > 0 ? `
         <div style="margin-bottom: 16px;">
           <div style="font-size: 12px; opacity: 0.6; margin-bottom: 8px;">RELATIONSHIPS (${relatedRelations.length})</div>
           <div style="max-height: 150px; overflow-y: auto;">
             ${relatedRelations.map(r => `
               <div style="padding: 8px; background: rgba(255,255,255,0.05); border-radius: 6px; margin-bottom: 6px; font-size: 12px;">
-                ${r.description}
+                ${this.escapeHtml(r.description)}
+                ${r.symbols && r.symbols.length > 0 ? `
+                  <div style="margin-top: 4px; font-size: 11px; opacity: 0.7;">
+                    ${this.escapeHtml(r.symbols.map(s => `${s.name === '*' ? 'module' : s.name} ×${s.references}`).join(', '))}
+                  </div>
+                ` : ''}
               </div>
             `).join('')}
           </div>
@@ -778,7 +842,7 @@ export class InteractionManager {
       ` : ''}
 
       <div style="margin-top: 16px; padding-top: 12px; border-top: 1px solid rgba(255,255,255,0.1);">
-        <div style="font-size: 11px; opacity: 0.6;">File: ${character.originalFile}</div>
+        <div style="font-size: 11px; opacity: 0.6;">File: ${this.escapeHtml(character.originalFile)}</div>
       </div>
     `;
 
@@ -786,6 +850,16 @@ export class InteractionManager {
     this.infoPanel.style.transform = 'translateX(0)';
   }
 
+  /**
+   * Escape text taken from source code before inserting it as HTML
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
   /**
    * Hide info panel
    */
@@ -803,6 +877,7 @@ export class InteractionManager {
     this.characters.clear();
     this.characterMeshes.clear();
     this.relations = [];
+    this.relationLines = [];
     this.hoveredCharacter = null;
     this.selectedCharacter = null;
   }
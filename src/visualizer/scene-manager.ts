@@ -1,9 +1,16 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { CharacterMeshGenerator } from './character-mesh.js';
 import { InteractionManager } from './interaction-manager.js';
 import { AnimationManager } from './animation-manager.js';
-import { AnalysisResult, CharacterPersona, DependencyRelation } from '../analyzer/types.js';
+import {
+  AnalysisResult,
+  CharacterPersona,
+  DependencyCycle,
+  DependencyRelation,
+  SocialRelationType,
+} from '../analyzer/types.js';
 
 /**
  * 3D Scene Manager - Responsible for scene setup and rendering loop
@@ -20,6 +27,7 @@ export class SceneManager {
   private container: HTMLElement | null = null;
   private characters: Map<string, THREE.Group> = new Map();
   private relations: THREE.Group[] = [];
+  private cycleMarkers: THREE.Group[] = [];
 
   private clock: THREE.Clock;
 
@@ -183,13 +191,13 @@ export class SceneManager {
     // Create characters
     for (const character of result.characters) {
       const charMesh = this.characterGenerator.generateCharacter(character);
-      const pos = positions.get(character.originalFile) || { x: 0, z: 0 };
+      const pos = positions.get(character.characterId) || { x: 0, z: 0 };
       charMesh.position.set(pos.x, 0, pos.z);
       charMesh.castShadow = true;
       charMesh.receiveShadow = true;
 
       this.scene.add(charMesh);
-      this.characters.set(character.originalFile, charMesh);
+      this.characters.set(character.characterId, charMesh);
 
       // Add to interaction manager
       this.interactionManager.addCharacter(charMesh, character);
@@ -198,11 +206,15 @@ export class SceneManager {
     // Create relationship lines
     this.createRelationLines(result.relations);
 
+    // Mark dependency cycles as one unit
+    this.createCycleMarkers(result.cycles || []);
+
     // Add animations
     this.animationManager.setCharacters(this.characters);
 
     // Update interaction manager's relationship data
     this.interactionManager.setRelations(result.relations);
+    this.interactionManager.setRelationLines(this.relations);
 
     // Set double-click callback
     this.interactionManager.setCharacterDoubleClickCallback((character) => {
@@ -226,7 +238,7 @@ export class SceneManager {
     for (let i = 0; i < characters.length; i++) {
       const angle = (i / characters.length) * Math.PI * 2;
       const char = characters[i];
-      nodes.set(char.originalFile, {
+      nodes.set(char.characterId, {
         x: Math.cos(angle) * radius,
         z: Math.sin(angle) * radius,
         vx: 0,
@@ -275,6 +287,26 @@ export class SceneManager {
         }
       }
 
+      // Cohesion force - characters of the same package/crate gather together
+      const centroids = new Map<string, { x: number; z: number; count: number }>();
+      for (const char of characters) {
+        const node = nodes.get(char.characterId);
+        if (!char.cluster || !node) continue;
+        const centroid = centroids.get(char.cluster) || { x: 0, z: 0, count: 0 };
+        centroid.x += node.x;
+        centroid.z += node.z;
+        centroid.count++;
+        centroids.set(char.cluster, centroid);
+      }
+
+      for (const char of characters) {
+        const node = nodes.get(char.characterId);
+        const centroid = char.cluster ? centroids.get(char.cluster) : undefined;
+        if (!node || !centroid || centroid.count < 2) continue;
+        node.vx += (centroid.x / centroid.count - node.x) * 0.05;
+        node.vz += (centroid.z / centroid.count - node.z) * 0.05;
+      }
+
       // Attractive force toward center
       for (const node of nodes.values()) {
         const dist = Math.sqrt(node.x * node.x + node.z * node.z) || 1;
@@ -308,13 +340,175 @@ export class SceneManager {
       const toChar = this.characters.get(relation.to);
 
       if (fromChar && toChar) {
-        const line = this.createRelationLine(fromChar, toChar, relation, relations);
+        const line = this.isFamilyRelation(relation)
+          ? this.createFamilyArc(fromChar, toChar, relation)
+          : this.createRelationLine(fromChar, toChar, relation, relations);
         this.scene.add(line);
         this.relations.push(line);
       }
     }
   }
 
+  /**
+   * Check if relation describes a class hierarchy or component tree rather than an import
+   */
+  private isFamilyRelation(relation: DependencyRelation): boolean {
+    return relation.relationType === SocialRelationType.PARENT_CHILD ||
+      relation.relationType === SocialRelationType.MENTOR_APPRENTICE ||
+      relation.relationType === SocialRelationType.STAGE_PARENT;
+  }
+
+  /**
+   * Create family relation as an arc above the import pipes
+   * (solid gold for parents, solid pink for stage parents, dashed teal for mentors)
+   */
+  private createFamilyArc(
+    from: THREE.Group,
+    to: THREE.Group,
+    relation: DependencyRelation
+  ): THREE.Group {
+    const startPoint = from.position.clone().add(new THREE.Vector3(0, 2.5, 0));
+    const endPoint = to.position.clone().add(new THREE.Vector3(0, 2.5, 0));
+    const isParent = relation.relationType !== SocialRelationType.MENTOR_APPRENTICE;
+    const color = relation.relationType === SocialRelationType.STAGE_PARENT
+      ? 0xE91E63
+      : isParent ? 0xF1C40F : 0x1ABC9C;
+
+    const arcMaterial = new THREE.MeshStandardMaterial({
+      color,
+      transparent: true,
+      opacity: relation.strength * 0.8,
+      roughness: 0.3,
+      metalness: 0.5,
+    });
+    const arc = new THREE.Mesh(SceneManager.createArcGeometry(startPoint, endPoint, isParent), arcMaterial);
+    arc.castShadow = true;
+
+    // Arrow pointing at the parent / mentor, or at the child a stage parent renders
+    const arrowGeometry = new THREE.ConeGeometry(0.25, 0.6, 16);
+    const arrow = new THREE.Mesh(arrowGeometry, arcMaterial);
+    arrow.position.copy(endPoint);
+    arrow.quaternion.setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3().subVectors(endPoint, startPoint).normalize()
+    );
+
+    const group = new THREE.Group();
+    group.add(arc);
+    group.add(arrow);
+
+    group.userData = {
+      relation,
+      from: from.position.clone(),
+      to: to.position.clone(),
+      arc,
+      arrow,
+      startPoint,
+      endPoint,
+      isFamily: true,
+      isBidirectional: false,
+      // Rebuild the arc when a character is dragged
+      rebuildArc: (start: THREE.Vector3, end: THREE.Vector3) => {
+        arc.geometry.dispose();
+        arc.geometry = SceneManager.createArcGeometry(start, end, isParent);
+      },
+    };
+
+    const midPoint = startPoint.clone().lerp(endPoint, 0.5);
+    midPoint.y += startPoint.distanceTo(endPoint) * 0.25;
+    this.addRelationTypeIcon(group, relation.relationType, color, midPoint, midPoint);
+
+    return group;
+  }
+
+  /**
+   * Build tube geometry for a family arc (dashed arcs are split into segments)
+   */
+  static createArcGeometry(start: THREE.Vector3, end: THREE.Vector3, solid: boolean): THREE.BufferGeometry {
+    const control = start.clone().lerp(end, 0.5);
+    control.y += start.distanceTo(end) * 0.5;
+    const curve = new THREE.QuadraticBezierCurve3(start.clone(), control, end.clone());
+
+    if (solid) {
+      return new THREE.TubeGeometry(curve, 32, 0.15, 8, false);
+    }
+
+    const points = curve.getPoints(32);
+    const segments: THREE.BufferGeometry[] = [];
+    for (let i = 0; i < points.length - 1; i += 2) {
+      const segmentCurve = new THREE.LineCurve3(points[i], points[i + 1]);
+      segments.push(new THREE.TubeGeometry(segmentCurve, 1, 0.12, 8, false));
+    }
+    return mergeGeometries(segments) || new THREE.BufferGeometry();
+  }
+
+  /**
+   * Create a ground ring and label around the members of each dependency cycle
+   */
+  private createCycleMarkers(cycles: DependencyCycle[]): void {
+    for (const cycle of cycles) {
+      const members = cycle.members
+        .map(id => this.characters.get(id))
+        .filter((mesh): mesh is THREE.Group => mesh !== undefined);
+
+      if (members.length < 2) continue;
+
+      // Center and radius enclosing all members
+      const center = new THREE.Vector3();
+      for (const mesh of members) {
+        center.add(mesh.position);
+      }
+      center.divideScalar(members.length);
+      center.y = 0;
+
+      let radius = 0;
+      for (const mesh of members) {
+        radius = Math.max(radius, new THREE.Vector3(mesh.position.x, 0, mesh.position.z).distanceTo(center));
+      }
+      radius += 2;
+
+      const group = new THREE.Group();
+
+      const ringGeo = new THREE.RingGeometry(radius, radius + 0.3, 64);
+      const ringMat = new THREE.MeshBasicMaterial({
+        color: 0xFF4500,
+        transparent: true,
+        opacity: 0.5,
+        side: THREE.DoubleSide,
+      });
+      const ring = new THREE.Mesh(ringGeo, ringMat);
+      ring.rotation.x = -Math.PI / 2;
+      ring.position.set(center.x, 0.05, center.z);
+      group.add(ring);
+
+      // Label above the ring
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d')!;
+      canvas.width = 512;
+      canvas.height = 64;
+      ctx.fillStyle = 'rgba(26, 26, 46, 0.8)';
+      ctx.beginPath();
+      ctx.roundRect(0, 0, 512, 64, [8]);
+      ctx.fill();
+      ctx.font = 'bold 28px Arial';
+      ctx.fillStyle = '#FF4500';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(`💥 ${cycle.label} (${cycle.length})`, 256, 32);
+
+      const labelSprite = new THREE.Sprite(
+        new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true })
+      );
+      labelSprite.scale.set(4, 0.5, 1);
+      labelSprite.position.set(center.x, 4, center.z - radius);
+      group.add(labelSprite);
+
+      group.userData = { cycle };
+      this.scene.add(group);
+      this.cycleMarkers.push(group);
+    }
+  }
+
   /**
    * Create single relationship line with 3D pipe and arrow
    */
@@ -441,7 +635,7 @@ export class SceneManager {
     };
 
     // Add relationship type icon
-    this.addRelationTypeIcon(group, relation.relationType, color, startPoint, endPoint);
+    this.addRelationTypeIcon(group, relation.relationType, color, startPoint, endPoint, relation.asyncFlavor);
 
     return group;
   }
@@ -454,8 +648,8 @@ export class SceneManager {
     to: string,
     relations: DependencyRelation[]
   ): boolean {
-    // Check if there's a reverse relationship
-    return relations.some(r => r.from === to && r.to === from);
+    // Check if there's a reverse relationship (family arcs are drawn separately)
+    return relations.some(r => r.from === to && r.to === from && !this.isFamilyRelation(r));
   }
 
   /**
@@ -466,7 +660,8 @@ export class SceneManager {
     relationType: string,
     color: number,
     startPoint: THREE.Vector3,
-    endPoint: THREE.Vector3
+    endPoint: THREE.Vector3,
+    asyncFlavor?: string
   ): void {
     let iconText = '•';
     let labelText = relationType;
@@ -485,8 +680,8 @@ export class SceneManager {
         labelText = 'toxic';
         break;
       case 'secret':
-        iconText = '🤫';
-        labelText = 'secret';
+        iconText = asyncFlavor === 'lazy-load' ? '💌' : '🤫';
+        labelText = asyncFlavor ? `secret:${asyncFlavor}` : 'secret';
         break;
       case 'fan':
         iconText = '⭐';
@@ -496,6 +691,18 @@ export class SceneManager {
         iconText = '📋';
         labelText = 'contract';
         break;
+      case 'parent_child':
+        iconText = '👪';
+        labelText = 'parent_child';
+        break;
+      case 'mentor':
+        iconText = '🎓';
+        labelText = 'mentor';
+        break;
+      case 'stage_parent':
+        iconText = '🎭';
+        labelText = 'stage_parent';
+        break;
     }
 
     const midX = (startPoint.x + endPoint.x) / 2;
@@ -577,6 +784,20 @@ export class SceneManager {
     }
     this.relations = [];
 
+    // Clear cycle markers
+    for (const group of this.cycleMarkers) {
+      this.scene.remove(group);
+      group.traverse((child) => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Sprite) {
+          child.geometry.dispose();
+          if (child.material instanceof THREE.Material) {
+            child.material.dispose();
+          }
+        }
+      });
+    }
+    this.cycleMarkers = [];
+
     // Reset interaction manager
     this.interactionManager.clear();
   }
@@ -1,4 +1,4 @@
-import { CodeAnalyzer } from '../analyzer/index.js';
+import { AnalysisResult, CodeAnalyzer, PersonalityType, SocialRelationType } from '../analyzer/index.js';
 import { SceneManager } from '../visualizer/index.js';
 
 /**
@@ -165,61 +165,142 @@ function analyzeViaWebSocket(projectPath: string): Promise<any> {
 /**
  * Create mock analysis result (for demonstration)
  */
-function createMockAnalysis() {
+function createMockAnalysis(): AnalysisResult {
   return {
     projectName: 'Demo Project',
+    modules: [],
     characters: [
       {
+        characterId: 'src.index',
         name: 'HeroMain',
         originalFile: 'src/index.ts',
-        personality: 'heroic',
+        personality: PersonalityType.HEROIC,
+        casting: {
+          rule: 'entry-point',
+          score: 4,
+          reasons: ['file name matches "index.ts"'],
+          candidates: [{ rule: 'default', personality: PersonalityType.BUSY, score: 0 }],
+        },
         traits: ['Enthusiastic but crash-prone', 'Always rushes to the front'],
         role: '🎭 Protagonist',
         color: '#FF6B6B',
-        health: 'healthy',
-        stats: { linesOfCode: 150, complexity: 3, callCount: 5, bugRisk: 2 },
+        icon: 'heroic',
+        health: 'excellent',
+        healthReport: {
+          score: 96,
+          factors: [
+            { factor: 'complexity', value: -6, reason: 'complexity 2/10' },
+            { factor: 'focused', value: 5, reason: '150 lines, no function over 30 lines' },
+            { factor: 'functions', value: -3, reason: '2 top-level functions' },
+          ],
+        },
+        stats: { linesOfCode: 150, complexity: 2, callCount: 5, bugRisk: 1 },
+        diagnostics: [],
       },
       {
+        characterId: 'src.utils.helpers',
         name: 'HelperUtils',
         originalFile: 'src/utils/helpers.ts',
-        personality: 'helpful',
+        personality: PersonalityType.HELPFUL,
+        casting: {
+          rule: 'helper-file',
+          score: 3,
+          reasons: ['file name matches "helpers"'],
+          candidates: [{ rule: 'helper-dir', personality: PersonalityType.HELPFUL, score: 2 }],
+        },
         traits: ['Low-key invisible helper', 'Always on call'],
         role: '💚 Healer',
         color: '#95E1D3',
-        health: 'healthy',
-        stats: { linesOfCode: 300, complexity: 4, callCount: 15, bugRisk: 3 },
+        icon: 'helpful',
+        health: 'good',
+        healthReport: {
+          score: 77,
+          factors: [
+            { factor: 'complexity', value: -12, reason: 'complexity 4/10' },
+            { factor: 'functions', value: -9, reason: '6 top-level functions' },
+            { factor: 'long-functions', value: -2, reason: '1 function over 30 lines: formatDate (42)' },
+          ],
+        },
+        stats: { linesOfCode: 300, complexity: 4, callCount: 15, bugRisk: 2 },
+        diagnostics: [],
       },
       {
+        characterId: 'src.db.connection',
         name: 'ElderDatabase',
         originalFile: 'src/db/connection.ts',
-        personality: 'reliable',
+        personality: PersonalityType.RELIABLE,
+        casting: {
+          rule: 'data-dir',
+          score: 2,
+          reasons: ['path matches "db/"'],
+          candidates: [{ rule: 'default', personality: PersonalityType.BUSY, score: 0 }],
+        },
         traits: ['Steady and reliable', 'Great memory but slow movement'],
         role: '📚 Administrator',
         color: '#4ECDC4',
-        health: 'sick',
-        stats: { linesOfCode: 200, complexity: 6, callCount: 8, bugRisk: 6 },
+        icon: 'reliable',
+        health: 'poor',
+        healthReport: {
+          score: 40,
+          factors: [
+            { factor: 'syntax-errors', value: -40, reason: "1 syntax error, first at line 42: ')' expected." },
+            { factor: 'complexity', value: -18, reason: 'complexity 6/10' },
+            { factor: 'classes', value: -2.5, reason: '1 class' },
+          ],
+        },
+        stats: { linesOfCode: 200, complexity: 6, callCount: 8, bugRisk: 10 },
+        diagnostics: [{ message: "')' expected.", line: 42, column: 17 }],
       },
     ],
     relations: [
       {
-        from: 'src/index.ts',
-        to: 'src/utils/helpers.ts',
-        relationType: 'best_friend',
+        from: 'src.index',
+        to: 'src.utils.helpers',
+        relationType: SocialRelationType.BEST_FRIEND,
         strength: 0.9,
         description: 'HeroMain and HelperUtils are inseparable Best Friends',
+        symbols: [{ name: 'formatDate', localName: 'formatDate', typeOnly: false, references: 4, typeReferences: 0, awaited: 0, events: 0, callbacks: 0 }],
       },
       {
-        from: 'src/index.ts',
-        to: 'src/db/connection.ts',
-        relationType: 'unrequited',
+        from: 'src.index',
+        to: 'src.db.connection',
+        relationType: SocialRelationType.UNREQUITED_LOVE,
         strength: 0.7,
         description: 'HeroMain has Unrequited Love for ElderDatabase',
+        symbols: [{ name: 'connect', localName: 'connect', typeOnly: false, references: 1, typeReferences: 0, awaited: 1, events: 0, callbacks: 0 }],
       },
     ],
+    cycles: [],
+    characterIndex: {
+      byFile: {
+        'src/index.ts': 'src.index',
+        'src/utils/helpers.ts': 'src.utils.helpers',
+        'src/db/connection.ts': 'src.db.connection',
+      },
+      byModuleId: {
+        'src.index': 'src.index',
+        'src.utils.helpers': 'src.utils.helpers',
+        'src.db.connection': 'src.db.connection',
+      },
+      positions: {
+        'src.index': 0,
+        'src.utils.helpers': 1,
+        'src.db.connection': 2,
+      },
+    },
+    skippedFiles: [],
     summary: {
       totalModules: 3,
       totalRelations: 2,
-      healthScore: 75,
+      healthScore: 70,
+      health: {
+        score: 70,
+        contributors: [
+          { characterId: 'src.db.connection', score: 40, weight: 2.78, cost: 18.5 },
+          { characterId: 'src.utils.helpers', score: 77, weight: 3.99, cost: 10.2 },
+          { characterId: 'src.index', score: 96, weight: 2.23, cost: 1 },
+        ],
+      },
       mainCharacter: 'HeroMain',
     },
   };
@@ -338,6 +419,9 @@ function showHelp() {
         <li><strong>Unrequited Love</strong>: Unidirectional dependency</li>
         <li><strong>Toxic Relationship</strong>: Circular dependency</li>
         <li><strong>Secret Admirer</strong>: Asynchronous communication</li>
+        <li><strong>Parent &amp; Child</strong>: Class inheritance (extends)</li>
+        <li><strong>Mentor &amp; Apprentice</strong>: Interface implementation (implements)</li>
+        <li><strong>Stage Parent &amp; Child</strong>: Component rendering (JSX elements, template tags)</li>
       </ul>
 
       <h3>Health Status</h3>
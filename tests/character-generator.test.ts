@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CharacterGenerator } from '../src/analyzer/character-generator.js';
+import { CodeModule } from '../src/analyzer/types.js';
+import { parseFixture } from './helpers.js';
+
+/**
+ * `originalFile -> name` of every character generated with the given names config
+ */
+function namesOf(modules: CodeModule[], seed = '', overrides: Record<string, string> = {}): Record<string, string> {
+  const personas = new CharacterGenerator(undefined, undefined, { seed, overrides }).generatePersonas(modules);
+  return Object.fromEntries(personas.map(persona => [persona.originalFile, persona.name]));
+}
+
+describe('character names', () => {
+  // Nine entry points share four heroic prefixes, so some names must clash
+  const modules = [...parseFixture({
+    'index.ts': 'export const a = 1;\n',
+    'index.tsx': 'export const a = 1;\n',
+    'index.js': 'export const a = 1;\n',
+    'index.jsx': 'export const a = 1;\n',
+    'api/index.ts': 'export const a = 1;\n',
+    'web/index.ts': 'export const a = 1;\n',
+    'cli/index.ts': 'export const a = 1;\n',
+    'admin/index.ts': 'export const a = 1;\n',
+    'jobs/index.ts': 'export const a = 1;\n',
+  }).values()];
+
+  it('stay the same from run to run and change with the seed', () => {
+    expect(namesOf(modules)).toEqual(namesOf([...modules].reverse()));
+    expect(namesOf(modules, 'team')).not.toEqual(namesOf(modules));
+  });
+
+  it('take in directories on a clash, then a number when there are none left', () => {
+    expect(namesOf(modules)).toEqual({
+      'index.ts': 'HeroIndex',
+      'index.tsx': 'HeroIndex2',
+      'index.js': 'ProtagonistIndex',
+      'index.jsx': 'ProtagonistIndex2',
+      'api/index.ts': 'CaptainIndex',
+      'web/index.ts': 'VanguardWebIndex',
+      'cli/index.ts': 'VanguardCliIndex',
+      'admin/index.ts': 'HeroAdminIndex',
+      'jobs/index.ts': 'VanguardJobsIndex',
+    });
+  });
+
+  it('give overrides by path or module id precedence over generated names', () => {
+    const names = namesOf(modules, '', { 'api/index.ts': 'HeroIndex', 'web.index': 'Stagehand' });
+
+    expect(names['api/index.ts']).toBe('HeroIndex');
+    expect(names['web/index.ts']).toBe('Stagehand');
+    expect(names['index.ts']).toBe('HeroIndex2');
+    expect(new Set(Object.values(names)).size).toBe(modules.length);
+  });
+});
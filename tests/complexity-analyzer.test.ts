@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ComplexityAnalyzer } from '../src/analyzer/complexity-analyzer.js';
+import { TypeScriptExtractor } from '../src/analyzer/typescript-extractor.js';
+
+function measure(content: string): Record<string, [number, number]> {
+  const { functions } = new TypeScriptExtractor().extract(content, 'module.js');
+  return Object.fromEntries(functions.map(fn => [fn.name, [fn.cyclomaticComplexity!, fn.cognitiveComplexity!]]));
+}
+
+describe('ComplexityAnalyzer on the AST', () => {
+  it('scores nesting and breaks in flow for cognitive complexity', () => {
+    // The reference examples of the cognitive complexity white paper
+    expect(measure([
+      'function sumOfPrimes(max) {',
+      '  let total = 0;',
+      '  OUT: for (let i = 1; i <= max; ++i) {',
+      '    for (let j = 2; j < i; ++j) {',
+      '      if (i % j == 0) {',
+      '        continue OUT;',
+      '      }',
+      '    }',
+      '    total += i;',
+      '  }',
+      '  return total;',
+      '}',
+      'function getWords(number) {',
+      '  switch (number) {',
+      `    case 1: return 'one';`,
+      `    case 2: return 'a couple';`,
+      `    case 3: return 'a few';`,
+      `    default: return 'lots';`,
+      '  }',
+      '}',
+    ].join('\n'))).toEqual({ sumOfPrimes: [4, 7], getWords: [4, 1] });
+  });
+
+  it('counts boolean operator sequences, else branches and nested callbacks', () => {
+    expect(measure([
+      'function logic(a, b, c, d) {',
+      '  if (a && b && c || d) { return 1; } else if (a) { return 2; } else { return 3; }',
+      '}',
+      'function nested(items) {',
+      '  return items.map(item => { if (item) { return item; } return 0; });',
+      '}',
+      'function flat() { return 1; }',
+    ].join('\n'))).toEqual({ logic: [6, 5], nested: [2, 2], flat: [1, 0] });
+  });
+});
+
+describe('ComplexityAnalyzer on masked source', () => {
+  it('follows the same rules through the braces of control structures', () => {
+    const measured = new ComplexityAnalyzer().measureBlock(
+      '{ for (int i = 0; i < n; i++) { if (a && b) { x(); } else if (c) { y(); } } switch (k) { case 1: break; case 2: break; } }',
+      { branches: ['if', 'for', 'while', 'catch'], switches: ['switch'], cases: ['case'] }
+    );
+
+    expect(measured).toEqual({ cyclomatic: 7, cognitive: 6 });
+  });
+});
+
+describe('ComplexityAnalyzer.normalize', () => {
+  it('lets the worst function dominate the 1-10 score', () => {
+    const flat = { cyclomatic: 1, cognitive: 0 };
+
+    expect(ComplexityAnalyzer.normalize({ cyclomatic: 3, cognitive: 0 }, [flat, flat])).toBe(1);
+    expect(ComplexityAnalyzer.normalize({ cyclomatic: 21, cognitive: 20 }, [flat, { cyclomatic: 20, cognitive: 19 }])).toBe(10);
+    expect(ComplexityAnalyzer.normalize({ cyclomatic: 10, cognitive: 90 }, [])).toBe(6);
+  });
+});
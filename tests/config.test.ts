@@ -0,0 +1,108 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { defaultConfig, loadConfig, resolveConfig } from '../src/analyzer/config.js';
+import { CodeParser } from '../src/analyzer/parser.js';
+import { createFixture } from './helpers.js';
+
+describe('resolveConfig', () => {
+  it('fills in the defaults around the given options', () => {
+    const config = resolveConfig({ maxFileSize: 2048, health: { levels: { excellent: 95 } } });
+
+    expect(config.maxFileSize).toBe(2048);
+    expect(config.health.levels).toEqual({ ...defaultConfig.health.levels, excellent: 95 });
+    expect(config.exclude).toEqual(defaultConfig.exclude);
+  });
+
+  it('lists every problem at once, naming the source', () => {
+    expect(() => resolveConfig({
+      maxFileSze: 10,
+      gitignore: 'yes',
+      export: { format: 'xml' },
+      include: ['src/**', ''],
+      health: { character: { functions: -1 } },
+    }, 'codeactor.config.json')).toThrow([
+      'Invalid codeactor.config.json:',
+      '  - unknown option "maxFileSze"',
+      '  - "gitignore" must be true or false',
+      '  - "export.format" must be one of json, mermaid, narrative',
+      '  - "include" must be an array of non-empty strings',
+      '  - "health.character.functions" must be a non-negative number',
+    ].join('\n'));
+  });
+
+  it('rejects health levels that do not decrease', () => {
+    expect(() => resolveConfig({ health: { levels: { good: 95 } } })).toThrow('"health.levels" must decrease from excellent to poor');
+  });
+
+  it('validates personality rules and their conditions', () => {
+    expect(() => resolveConfig({
+      personality: {
+        rules: [
+          { name: 'api', personality: 'HEROIC', when: { path: '(' } },
+          { name: '', personality: 'GRUMPY', when: { colour: 'red' } },
+        ],
+      },
+    })).toThrow(/"personality\.rules\[0\]\.when\.path" is not a valid regular expression[\s\S]*"personality\.rules\[1\]\.name" must be a non-empty string[\s\S]*unknown condition "personality\.rules\[1\]\.when\.colour"/);
+  });
+
+  it('normalizes name override paths and rejects a name given twice', () => {
+    expect(resolveConfig({ names: { overrides: { '.\\src\\app.ts': 'Ada' } } }).names.overrides).toEqual({ 'src/app.ts': 'Ada' });
+    expect(() => resolveConfig({ names: { overrides: { 'a.ts': 'Ada', 'b.ts': 'Ada' } } }))
+      .toThrow('"names.overrides" gives "Ada" to both a.ts and b.ts');
+  });
+});
+
+describe('loadConfig', () => {
+  it('falls back to the defaults without a config file', async () => {
+    expect(await loadConfig(createFixture({ 'index.ts': '' }))).toBe(defaultConfig);
+  });
+
+  it('reads and validates codeactor.config.json', async () => {
+    const project = createFixture({ 'codeactor.config.json': JSON.stringify({ languages: ['typescript'] }) });
+    const config = await loadConfig(project);
+
+    expect(config.languages).toEqual(['typescript']);
+    expect(config.source).toBe(path.join(project, 'codeactor.config.json'));
+
+    fs.writeFileSync(path.join(project, 'codeactor.config.json'), '{ "languages": ');
+    await expect(loadConfig(project)).rejects.toThrow(/^Cannot read codeactor\.config\.json:/);
+
+    fs.writeFileSync(path.join(project, 'codeactor.config.json'), '{ "gitignore": 1 }');
+    await expect(loadConfig(project)).rejects.toThrow('Invalid codeactor.config.json:\n  - "gitignore" must be true or false');
+  });
+
+  it('loads a TypeScript config with relative imports, leaving no compiled file behind', async () => {
+    const project = createFixture({
+      'codeactor.config.ts': [
+        `import { excluded } from './shared/excluded.mjs';`,
+        `import type { CodeActorConfig } from 'code-actor';`,
+        `export default (): CodeActorConfig => ({ exclude: excluded, export: { format: 'json' } });`,
+      ].join('\n'),
+      'shared/excluded.mjs': `export const excluded = ['generated'];\n`,
+    });
+    const before = fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('codeactor-config-'));
+
+    const config = await loadConfig(project);
+
+    expect(config.exclude).toEqual([...defaultConfig.exclude, 'generated']);
+    expect(config.export.format).toBe('json');
+    expect(fs.readdirSync(project).sort()).toEqual(['codeactor.config.ts', 'shared']);
+    expect(fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('codeactor-config-'))).toEqual(before);
+  });
+
+  it('refuses a project with both config files', async () => {
+    const project = createFixture({ 'codeactor.config.json': '{}', 'codeactor.config.ts': 'export default {};' });
+    await expect(loadConfig(project)).rejects.toThrow('Found both codeactor.config.json and codeactor.config.ts, keep only one');
+  });
+
+  it('keeps config files out of the analysis', () => {
+    const project = createFixture({
+      'codeactor.config.ts': 'export default {};\n',
+      'src/main.ts': 'export const main = 1;\n',
+    });
+
+    expect(new CodeParser().parseProject(project).map(module => module.path)).toEqual(['src/main.ts']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { CppExtractor } from '../src/analyzer/cpp-extractor.js';
+
+const extract = (content: string) => new CppExtractor().extract(content, 'src/list.cpp');
+
+describe('CppExtractor', () => {
+  const source = [
+    '#include "list.h"',
+    '#include <vector>',
+    '',
+    'namespace util {',
+    '',
+    'struct Node { int value; Node* next; };',
+    '',
+    'class List : public Container, private Counted {',
+    'public:',
+    '    List();',
+    '    int size() const { return count_; }',
+    '    void push(int value);',
+    'private:',
+    '    int count_;',
+    '};',
+    '',
+    'void List::push(int value) {',
+    '    if (value > 0) { count_++; }',
+    '}',
+    '',
+    'static int helper(int a, int b) { return a + b; }',
+    '',
+    '}',
+  ].join('\n');
+
+  it('keeps quoted and angle includes apart', () => {
+    expect(extract(source).imports).toEqual(['list.h', '<vector>']);
+  });
+
+  it('reads structs and classes, joining out-of-class definitions to their class', () => {
+    const result = extract(source);
+
+    expect(result.classes.map(({ name, kind, extends: base, implements: others }) => ({ name, kind, base, others }))).toEqual([
+      { name: 'Node', kind: 'struct', base: undefined, others: [] },
+      { name: 'List', kind: 'class', base: 'Container', others: ['Counted'] },
+    ]);
+    expect(result.classes[1].methods.map(m => [m.name, m.kind, m.lines])).toEqual([
+      ['List', 'constructor', 1],
+      ['size', 'method', 1],
+      ['push', 'method', 3],
+    ]);
+  });
+
+  it('leaves static functions out of the exports', () => {
+    const result = extract(source);
+
+    expect(result.functions.map(fn => [fn.name, fn.params])).toEqual([['helper', ['int a', 'int b']]]);
+    expect(result.exports).toEqual(['Node', 'List']);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CSharpExtractor } from '../src/analyzer/csharp-extractor.js';
+
+const extract = (content: string) => new CSharpExtractor().extract(content, 'Services/UserService.cs');
+
+const usage = (content: string) => Object.fromEntries(
+  extract(content).importBindings[0].symbols.map(s => [s.name, [s.references, s.typeReferences]])
+);
+
+describe('CSharpExtractor', () => {
+  const source = [
+    'using System.Threading.Tasks;',
+    'using Acme.Models;',
+    '',
+    'namespace Acme.Services',
+    '{',
+    '    [Service]',
+    '    public partial class UserService : ServiceBase, IUserService',
+    '    {',
+    '        public UserService(IRepo repo) : base(repo) {}',
+    '',
+    '        public async Task<User> FindAsync(string id)',
+    '        {',
+    '            var user = await Repo.LoadAsync(id);',
+    '            return user ?? new User();',
+    '        }',
+    '    }',
+    '',
+    '    public interface IUserService { Task<User> FindAsync(string id); }',
+    '}',
+  ].join('\n');
+
+  it('reads namespaces, base classes apart from interfaces, attributes and partial classes', () => {
+    const result = extract(source);
+
+    expect(result.namespace).toBe('Acme.Services');
+    expect(result.exports).toEqual(['UserService', 'IUserService']);
+    expect(result.typeExports).toEqual(['IUserService']);
+    expect(result.classes[0]).toMatchObject({
+      name: 'UserService',
+      kind: 'class',
+      extends: 'ServiceBase',
+      implements: ['IUserService'],
+      annotations: ['Service'],
+      partial: true,
+    });
+    expect(result.classes[0].methods.map(({ name, kind, async }) => ({ name, kind, async }))).toEqual([
+      { name: 'UserService', kind: 'constructor', async: false },
+      { name: 'FindAsync', kind: 'method', async: true },
+    ]);
+  });
+
+  it('offers the types used in the file to every using, including the enclosing namespaces', () => {
+    const result = extract(source);
+
+    expect(result.imports).toEqual(['System.Threading.Tasks', 'Acme.Models', 'Acme.Services', 'Acme']);
+    expect(result.importBindings[1].symbols.map(s => s.name)).toContain('User');
+  });
+
+  it('counts a base class as a value use and interfaces as type uses', () => {
+    expect(usage([
+      'using Acme.Base;',
+      'namespace Acme {',
+      '  public class User : Base, INamed { Base other; }',
+      '  public class Point(int x) : Shape(x) {}',
+      '}',
+    ].join('\n'))).toMatchObject({ Base: [2, 1], INamed: [1, 1], Shape: [1, 0] });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CodeAnalyzer } from '../src/analyzer/index.js';
+import { AnalysisResult } from '../src/analyzer/types.js';
+import { createFixture } from './helpers.js';
+
+function analyze(files: Record<string, string>): AnalysisResult {
+  return new CodeAnalyzer().analyze(createFixture(files));
+}
+
+/**
+ * Cycles as sorted lists of module ids
+ */
+function cycleModules(analysis: AnalysisResult): string[][] {
+  const moduleOf = new Map(Object.entries(analysis.characterIndex.byModuleId).map(([moduleId, charId]) => [charId, moduleId]));
+  return analysis.cycles.map(cycle => cycle.members.map(member => moduleOf.get(member)!).sort());
+}
+
+describe('detectCycles', () => {
+  it('finds runtime import loops of any length', () => {
+    const analysis = analyze({
+      'a.ts': `import { b } from './b';\nexport const a = () => b();\n`,
+      'b.ts': `import { a } from './a';\nexport const b = () => a();\n`,
+      'x.ts': `import { y } from './y';\nexport const x = () => y();\n`,
+      'y.ts': `import { z } from './z';\nexport const y = () => z();\n`,
+      'z.ts': `import { x } from './x';\nexport const z = () => x();\n`,
+      'leaf.ts': `import { a } from './a';\nexport const leaf = a;\n`,
+    });
+
+    expect(cycleModules(analysis).sort()).toEqual([['a', 'b'], ['x', 'y', 'z']]);
+    expect(analysis.cycles.map(cycle => cycle.length).sort()).toEqual([2, 3]);
+    for (const cycle of analysis.cycles) {
+      expect(cycle.edges).toHaveLength(cycle.length);
+    }
+  });
+
+  it('ignores loops closed by type-only imports', () => {
+    const analysis = analyze({
+      'node.ts': `import type { Tree } from './tree';\nexport class Node { tree?: Tree; }\n`,
+      'tree.ts': `import { Node } from './node';\nexport class Tree { root = new Node(); }\n`,
+      'user.ts': `import { Role } from './role';\nexport interface User { role: Role }\nexport const guest = 1;\n`,
+      'role.ts': `import { guest, User } from './user';\nexport type Role = string;\nexport function owner(user: User): User { return user; }\nexport const fallback = guest;\n`,
+      'shape.ts': `import { Area } from './area';\nexport interface Shape { area: Area }\n`,
+      'area.ts': `import { Shape } from './shape';\nexport type Area = number;\nexport function of(shape: Shape): Area { return shape.area; }\n`,
+    });
+
+    // user -> role is type-only, so is shape <-> area; role -> user still uses a value
+    expect(cycleModules(analysis)).toEqual([]);
+  });
+
+  it('does not count a Rust `mod` declaration the parent never uses as a runtime edge', () => {
+    const analysis = analyze({
+      'Cargo.toml': '[package]\nname = "app"\n',
+      'src/main.rs': 'mod parser;\nmod logger;\n\npub fn version() -> u32 { 1 }\n\nfn main() {\n    parser::parse();\n}\n',
+      'src/parser.rs': 'use crate::version;\n\npub fn parse() -> u32 {\n    version()\n}\n',
+      'src/logger.rs': 'use crate::version;\n\npub fn log() -> u32 {\n    version()\n}\n',
+    });
+
+    // main calls into the parser, which calls back: a real loop. main only declares the logger.
+    expect(analysis.modules.find(module => module.id === 'src.main')!.imports).toContain('src.logger');
+    expect(cycleModules(analysis)).toEqual([['src.main', 'src.parser']]);
+  });
+});
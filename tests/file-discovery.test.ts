@@ -0,0 +1,126 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DiscoveryOptions, FileDiscovery } from '../src/analyzer/file-discovery.js';
+import { defaultConfig } from '../src/analyzer/config.js';
+import { SkippedFile } from '../src/analyzer/types.js';
+import { createFixture } from './helpers.js';
+
+function discover(files: Parameters<typeof createFixture>[0], options: Partial<DiscoveryOptions> = {}) {
+  const root = createFixture(files);
+  const { files: found, skipped } = new FileDiscovery({
+    isCodeFile: relativePath => /\.(?:ts|js|go|cs|py)$/.test(relativePath),
+    exclude: defaultConfig.exclude,
+    gitignore: true,
+    maxFileSize: defaultConfig.maxFileSize,
+    ...options,
+  }).discover(root);
+
+  return {
+    files: found.map(file => path.relative(root, file).split(path.sep).join('/')),
+    skipped: new Map(skipped.map((entry: SkippedFile) => [entry.path, `${entry.reason} (${entry.detail})`])),
+  };
+}
+
+describe('FileDiscovery ignore handling', () => {
+  it('honours .gitignore rules at every level, with negations and directory-only patterns', () => {
+    const { files, skipped } = discover({
+      '.gitignore': '# build output\nout/\n*.log.ts\n/root-only.ts\n',
+      'src/.gitignore': 'legacy/\n!keep.log.ts\nfixtures\n',
+      'src/app.ts': '',
+      'src/keep.log.ts': '',
+      'src/drop.log.ts': '',
+      'src/legacy/old.ts': '',
+      'src/fixtures/data.ts': '',
+      'src/nested/root-only.ts': '',
+      'root-only.ts': '',
+      'out/bundle.js': '',
+      'out.ts': '',
+    });
+
+    expect(files).toEqual(['out.ts', 'src/app.ts', 'src/keep.log.ts', 'src/nested/root-only.ts']);
+    expect(skipped.get('out/')).toBe('ignored (.gitignore: out/)');
+    expect(skipped.get('root-only.ts')).toBe('ignored (.gitignore: /root-only.ts)');
+    expect(skipped.get('src/drop.log.ts')).toBe('ignored (.gitignore: *.log.ts)');
+    expect(skipped.get('src/legacy/')).toBe('ignored (src/.gitignore: legacy/)');
+    expect(skipped.get('src/fixtures/')).toBe('ignored (src/.gitignore: fixtures)');
+  });
+
+  it('applies .codeactorignore and .git/info/exclude, but only .codeactorignore without gitignore', () => {
+    const files = {
+      '.git/info/exclude': 'scratch.ts\n',
+      '.gitignore': 'tmp/\n',
+      '.codeactorignore': 'docs/\n',
+      'scratch.ts': '',
+      'tmp/a.ts': '',
+      'docs/example.ts': '',
+      'main.ts': '',
+    };
+
+    expect(discover(files).files).toEqual(['main.ts']);
+    expect(discover(files, { gitignore: false }).files).toEqual(['main.ts', 'scratch.ts', 'tmp/a.ts']);
+  });
+
+  it('skips excluded directories and globs, recording the glob', () => {
+    const { files, skipped } = discover({
+      'node_modules/pkg/index.js': '',
+      'src/api.generated.ts': '',
+      'src/api.ts': '',
+    }, { exclude: ['node_modules', '**/*.generated.ts'] });
+
+    expect(files).toEqual(['src/api.ts']);
+    expect(skipped.get('node_modules/')).toBe('excluded (exclude: node_modules)');
+    expect(skipped.get('src/api.generated.ts')).toBe('excluded (exclude: **/*.generated.ts)');
+  });
+
+  it('walks a symlinked directory once and refuses links leaving the project or looping back', () => {
+    const outside = createFixture({ 'secret.ts': '' });
+    const { files, skipped } = discover({
+      'src/lib/util.ts': '',
+      'alias': { symlink: 'src/lib' },
+      'src/lib/loop': { symlink: '.' },
+      'external': { symlink: outside },
+    });
+
+    expect(files).toEqual(['alias/util.ts']);
+    expect(skipped.get('src/lib/')).toBe('duplicate (already walked as alias/)');
+    expect(skipped.get('alias/loop/')).toBe('symlink-cycle (links back to src/lib)');
+    expect(skipped.get('external/')).toBe(`outside-project (links to ${outside})`);
+  });
+});
+
+describe('FileDiscovery content checks', () => {
+  it('skips files whose header carries a generator marker', () => {
+    const { files, skipped } = discover({
+      'a.ts': '// @generated by protoc-gen-ts\nexport const a = 1;\n',
+      'b.go': '// Code generated by stringer. DO NOT EDIT.\npackage b\n',
+      'c.cs': '// <auto-generated/>\nclass C {}\n',
+      'd.ts': '// Keep this file @generated-free; the generator lives in scripts/\nexport const d = 1;\n',
+      'e.py': '# generated by make, DO NOT EDIT\nx = 1\n',
+      'f.ts': 'const note = "// @generated";\nexport const f = note;\n',
+    });
+
+    expect(files).toEqual(['d.ts', 'f.ts']);
+    expect(skipped.get('a.ts')).toBe('generated (header says "@generated")');
+    expect(skipped.get('b.go')).toBe('generated (header says "Code generated by stringer. DO NOT EDIT")');
+    expect(skipped.get('c.cs')).toBe('generated (header says "<auto-generated")');
+    expect(skipped.get('e.py')).toMatch(/^generated/);
+  });
+
+  it('skips generated names, minified, binary and oversized files', () => {
+    const { files, skipped } = discover({
+      'api_pb2.py': 'x = 1\n',
+      'vendor.min.js': 'var a=1;\n',
+      'bundle.js': `var x=${'1+'.repeat(3000)}1;\n`,
+      'blob.ts': 'export const a = 1;\0\n',
+      'big.ts': `// ${'x'.repeat(200)}\n`.repeat(50),
+      'ok.ts': 'export const ok = true;\n',
+    }, { maxFileSize: 8192 });
+
+    expect(files).toEqual(['ok.ts']);
+    expect(skipped.get('api_pb2.py')).toBe('generated (generated file name)');
+    expect(skipped.get('vendor.min.js')).toBe('minified (minified file name)');
+    expect(skipped.get('bundle.js')).toBe('minified (lines average 3005 characters, longest 6008)');
+    expect(skipped.get('blob.ts')).toBe('binary (contains NUL bytes)');
+    expect(skipped.get('big.ts')).toBe('too-large (10.0 KB > 8.0 KB)');
+  });
+});
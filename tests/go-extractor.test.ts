@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { GoExtractor } from '../src/analyzer/go-extractor.js';
+
+const extract = (content: string) => new GoExtractor().extract(content, 'util/strings.go');
+
+describe('GoExtractor', () => {
+  const source = [
+    'package util',
+    '',
+    'import (',
+    '\t"strings"',
+    '\tstr "example.com/app/text"',
+    ')',
+    '',
+    'type Greeter interface { Greet() string }',
+    '',
+    'type Person struct { Name string }',
+    '',
+    'func (p *Person) Greet() string { return "hi " + p.Name }',
+    '',
+    'func Upper(s string) string {',
+    '\treturn strings.ToUpper(str.Trim(s))',
+    '}',
+    '',
+    'func helper() {}',
+  ].join('\n');
+
+  it('reads the package, exported names and interface types', () => {
+    const result = extract(source);
+
+    expect(result.namespace).toBe('util');
+    expect(result.exports).toEqual(['Upper', 'Greeter', 'Person']);
+    expect(result.typeExports).toEqual(['Greeter']);
+  });
+
+  it('attaches methods to their receiver type', () => {
+    const result = extract(source);
+
+    expect(result.functions.map(fn => fn.name)).toEqual(['Upper', 'helper']);
+    expect(result.classes.map(cls => [cls.name, cls.kind, cls.methods.map(m => m.name)])).toEqual([
+      ['Greeter', 'interface', ['Greet']],
+      ['Person', 'struct', ['Greet']],
+    ]);
+  });
+
+  it('binds package members used through the import name or its alias', () => {
+    expect(extract(source).importBindings.map(b => [b.specifier, b.symbols.map(s => `${s.localName}×${s.references}`)])).toEqual([
+      ['strings', ['strings.ToUpper×1']],
+      ['example.com/app/text', ['str.Trim×1']],
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { HealthModel } from '../src/analyzer/health-model.js';
+import { defaultConfig } from '../src/analyzer/config.js';
+import { CharacterPersona, CodeModule, FunctionInfo } from '../src/analyzer/types.js';
+
+const fn = (name: string, lines: number): FunctionInfo => ({ name, params: [], async: false, lines });
+
+/**
+ * TypeScript module with the given size, shape and syntax errors
+ */
+function moduleWith(lines: number, complexity: number, shape: Partial<CodeModule> = {}, errors: CodeModule['metadata']['diagnostics'] = []): CodeModule {
+  return {
+    id: 'src.parser', path: 'src/parser.ts', type: 'module', language: 'typescript',
+    imports: [], unresolvedImports: [], importBindings: [], exports: [], typeExports: [], functions: [], classes: [],
+    ...shape,
+    metadata: { lines, complexity, hasErrors: errors.length > 0, cyclomaticComplexity: 0, cognitiveComplexity: 0, diagnostics: errors },
+  };
+}
+
+/**
+ * Character with the fields the project score reads
+ */
+function characterWith(characterId: string, linesOfCode: number, callCount: number, score: number): CharacterPersona {
+  return {
+    characterId,
+    stats: { linesOfCode, complexity: 1, callCount, bugRisk: 0 },
+    healthReport: { score, factors: [] },
+  } as Partial<CharacterPersona> as CharacterPersona;
+}
+
+describe('HealthModel.assessCharacter', () => {
+  const model = new HealthModel(defaultConfig.health);
+
+  it('lists every deduction with its reason, biggest first', () => {
+    const module = moduleWith(400, 4, {
+      functions: [fn('parse', 64), fn('peek', 10)],
+      classes: [{ name: 'Tree', methods: [fn('walk', 41), fn('size', 3)], implements: [] }],
+    }, [{ message: "')' expected.", line: 3, column: 9 }]);
+
+    expect(model.assessCharacter(module)).toEqual({
+      score: 37,
+      factors: [
+        { factor: 'syntax-errors', value: -40, reason: "1 syntax error, first at line 3: ')' expected." },
+        { factor: 'complexity', value: -12, reason: 'complexity 4/10' },
+        { factor: 'long-functions', value: -4, reason: '2 functions over 30 lines: parse (64), Tree.walk (41)' },
+        { factor: 'functions', value: -3, reason: '2 top-level functions' },
+        { factor: 'classes', value: -2.5, reason: '1 class' },
+        { factor: 'size', value: -2, reason: '400 lines, 100 over 300' },
+      ],
+    });
+  });
+
+  it('rewards small files without long functions and caps the score at 100', () => {
+    const health = model.assessCharacter(moduleWith(40, 1, { functions: [fn('trim', 10)] }));
+
+    expect(health.score).toBe(100);
+    expect(health.factors.map(f => [f.factor, f.value])).toEqual([['focused', 5], ['complexity', -3], ['functions', -1.5]]);
+  });
+
+  it('caps each factor at its configured maximum', () => {
+    const functions = Array.from({ length: 40 }, (_, i) => fn(`f${i}`, 5));
+    const health = model.assessCharacter(moduleWith(1500, 10, { functions }));
+
+    expect(Object.fromEntries(health.factors.map(f => [f.factor, f.value]))).toEqual({ complexity: -30, size: -20, functions: -15 });
+    expect(health.score).toBe(35);
+  });
+
+  it('maps scores to levels at the configured thresholds', () => {
+    expect([90, 89, 75, 60, 40, 39].map(score => model.levelOf(score))).toEqual(['excellent', 'good', 'good', 'fair', 'poor', 'critical']);
+  });
+});
+
+describe('HealthModel.assessProject', () => {
+  const small = characterWith('small', 100, 0, 100);
+  const central = characterWith('central', 300, 6, 40);
+
+  it('weighs characters by their lines and fan-in relative to the project average', () => {
+    const health = new HealthModel(defaultConfig.health).assessProject([small, central]);
+
+    // Weights 1 + 100/200 + 0/3 = 1.5 and 1 + 300/200 + 6/3 = 4.5, instead of a plain average of 70
+    expect(health).toEqual({
+      score: 55,
+      contributors: [
+        { characterId: 'central', score: 40, weight: 4.5, cost: 45 },
+        { characterId: 'small', score: 100, weight: 1.5, cost: 0 },
+      ],
+    });
+  });
+
+  it('averages plainly when size and centrality weigh nothing', () => {
+    const model = new HealthModel({ ...defaultConfig.health, project: { size: 0, centrality: 0 } });
+
+    expect(model.assessProject([small, central]).score).toBe(70);
+    expect(model.assessProject([]).score).toBe(100);
+  });
+});
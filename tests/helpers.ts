@@ -0,0 +1,53 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach } from 'vitest';
+import { CodeParser, ParserOptions } from '../src/analyzer/parser.js';
+import { CodeModule } from '../src/analyzer/types.js';
+
+const fixtures: string[] = [];
+
+afterEach(() => {
+  for (const dir of fixtures.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+/**
+ * Write a throwaway project to the temp directory, removed again after the test
+ *
+ * Keys are project-relative paths; a `{ symlink }` value links to another path.
+ */
+export function createFixture(files: Record<string, string | { symlink: string }>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'codeactor-test-'));
+  fixtures.push(root);
+
+  for (const [file, content] of Object.entries(files)) {
+    const target = path.join(root, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    if (typeof content === 'string') {
+      fs.writeFileSync(target, content);
+    } else {
+      fs.symlinkSync(content.symlink, target);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Parse a fixture, returning its modules by id
+ */
+export function parseFixture(files: Record<string, string>, options: ParserOptions = {}): Map<string, CodeModule> {
+  const modules = new CodeParser(options).parseProject(createFixture(files));
+  return new Map(modules.map(module => [module.id, module]));
+}
+
+/**
+ * Resolved imports of a module, sorted
+ */
+export function importsOf(modules: Map<string, CodeModule>, id: string): string[] {
+  const module = modules.get(id);
+  if (!module) throw new Error(`No module "${id}" (have ${[...modules.keys()].join(', ')})`);
+  return [...module.imports].sort();
+}
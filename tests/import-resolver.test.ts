@@ -0,0 +1,272 @@
+import { describe, expect, it } from 'vitest';
+import { importsOf, parseFixture } from './helpers.js';
+import { LanguagePlugin } from '../src/analyzer/language-plugin.js';
+
+describe('TypeScript and JavaScript imports', () => {
+  it('resolves relative imports with or without extensions, and directory indexes', () => {
+    const modules = parseFixture({
+      'src/main.ts': `import { a } from './a.js';\nimport { b } from './b';\nimport { c } from './lib';\nconsole.log(a, b, c);\n`,
+      'src/a.ts': 'export const a = 1;\n',
+      'src/b.tsx': 'export const b = 2;\n',
+      'src/lib/index.ts': 'export const c = 3;\n',
+    });
+
+    expect(importsOf(modules, 'src.main')).toEqual(['src.a', 'src.b', 'src.lib.index']);
+  });
+
+  it('follows tsconfig extends for baseUrl and paths', () => {
+    const modules = parseFixture({
+      'tsconfig.base.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['src/lib/*'] } } }),
+      'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json', compilerOptions: { strict: true } }),
+      'src/main.ts': `import { helper } from '@lib/helper';\nimport { util } from 'src/util';\nhelper(util);\n`,
+      'src/lib/helper.ts': 'export function helper(value: unknown) { return value; }\n',
+      'src/util.ts': 'export const util = 1;\n',
+    });
+
+    expect(importsOf(modules, 'src.main')).toEqual(['src.lib.helper', 'src.util']);
+    expect(modules.get('src.main')!.unresolvedImports).toEqual([]);
+  });
+
+  it('resolves paths relative to the tsconfig that declares them when there is no baseUrl', () => {
+    const modules = parseFixture({
+      'config/tsconfig.paths.json': JSON.stringify({ compilerOptions: { paths: { '~/*': ['../src/*'] } } }),
+      'tsconfig.json': JSON.stringify({ extends: './config/tsconfig.paths.json' }),
+      'src/main.ts': `import { util } from '~/util';\nconsole.log(util);\n`,
+      'src/util.ts': 'export const util = 1;\n',
+    });
+
+    expect(importsOf(modules, 'src.main')).toEqual(['src.util']);
+  });
+
+  it('reports project-local imports that do not resolve and leaves packages alone', () => {
+    const modules = parseFixture({
+      'main.ts': `import { missing } from './missing';\nimport express from 'express';\nconsole.log(missing, express);\n`,
+    });
+
+    expect(importsOf(modules, 'main')).toEqual([]);
+    expect(modules.get('main')!.unresolvedImports).toEqual(['./missing']);
+  });
+});
+
+describe('Go imports', () => {
+  it('maps import paths below the go.mod module path to the package file declaring the used symbol', () => {
+    const modules = parseFixture({
+      'go.mod': 'module example.com/app\n\ngo 1.22\n',
+      'main.go': 'package main\n\nimport (\n\t"fmt"\n\t"example.com/app/util"\n)\n\nfunc main() {\n\tfmt.Println(util.Upper("x"))\n}\n',
+      'util/strings.go': 'package util\n\nimport "strings"\n\nfunc Upper(s string) string { return strings.ToUpper(s) }\n',
+      'util/numbers.go': 'package util\n\nfunc Double(n int) int { return n * 2 }\n',
+    });
+
+    expect(importsOf(modules, 'main')).toEqual(['util.strings']);
+  });
+
+  it('resolves to the whole package when packages are merged into one character', () => {
+    const modules = parseFixture({
+      'go.mod': 'module example.com/app\n',
+      'main.go': 'package main\n\nimport "example.com/app/util"\n\nfunc main() { util.Double(2) }\n',
+      'util/strings.go': 'package util\n\nfunc Upper(s string) string { return s }\n',
+      'util/numbers.go': 'package util\n\nfunc Double(n int) int { return n * 2 }\n',
+    }, { goPackageCharacters: true });
+
+    expect(importsOf(modules, 'main')).toEqual(['util']);
+  });
+});
+
+describe('Rust paths', () => {
+  it('links `mod` declarations and `use crate::` paths to module files', () => {
+    const modules = parseFixture({
+      'Cargo.toml': '[package]\nname = "app"\nversion = "0.1.0"\n',
+      'src/main.rs': 'mod util;\nmod net;\n\nuse crate::net::client::connect;\n\nfn main() {\n    connect();\n}\n',
+      'src/util.rs': 'pub fn helper() {}\n',
+      'src/net/mod.rs': 'pub mod client;\n',
+      'src/net/client.rs': 'use crate::util::helper;\n\npub fn connect() {\n    helper();\n}\n',
+    });
+
+    expect(importsOf(modules, 'src.main')).toEqual(['src.net.client', 'src.net.mod', 'src.util']);
+    expect(importsOf(modules, 'src.net.mod')).toEqual(['src.net.client']);
+    expect(importsOf(modules, 'src.net.client')).toEqual(['src.util']);
+  });
+});
+
+describe('Java imports', () => {
+  it('resolves fully qualified types, nested types and wildcard packages', () => {
+    const modules = parseFixture({
+      'src/main/java/com/acme/App.java': [
+        'package com.acme;',
+        'import com.acme.model.User;',
+        'import com.acme.model.Order.Line;',
+        'import com.acme.util.*;',
+        'import java.util.List;',
+        'public class App { List<User> users; Line line; Strings s; }',
+      ].join('\n'),
+      'src/main/java/com/acme/model/User.java': 'package com.acme.model;\npublic class User {}\n',
+      'src/main/java/com/acme/model/Order.java': 'package com.acme.model;\npublic class Order { public static class Line {} }\n',
+      'src/main/java/com/acme/util/Strings.java': 'package com.acme.util;\npublic class Strings {}\n',
+    });
+
+    const app = 'src.main.java.com.acme.App';
+    expect(importsOf(modules, app)).toEqual([
+      'src.main.java.com.acme.model.Order',
+      'src.main.java.com.acme.model.User',
+      'src.main.java.com.acme.util.Strings',
+    ]);
+    expect(modules.get(app)!.unresolvedImports).toEqual([]);
+  });
+});
+
+describe('C# and PHP imports', () => {
+  it('resolves a C# `using` namespace to the files whose types are used', () => {
+    const modules = parseFixture({
+      'App/Program.cs': 'using System;\nusing Acme.Models;\n\nnamespace Acme.App {\n  class Program { static void Main() { var u = new User(); } }\n}\n',
+      'Models/User.cs': 'namespace Acme.Models {\n  public class User {}\n}\n',
+      'Models/Order.cs': 'namespace Acme.Models {\n  public class Order {}\n}\n',
+    });
+
+    expect(importsOf(modules, 'App.Program')).toEqual(['Models.User']);
+  });
+
+  it('resolves PHP `use` names through composer PSR-4 rules and relative requires', () => {
+    const modules = parseFixture({
+      'composer.json': JSON.stringify({ autoload: { 'psr-4': { 'App\\': 'src/' } } }),
+      'src/Controller/UserController.php': '<?php\nnamespace App\\Controller;\n\nuse App\\Model\\User;\n\nclass UserController { public function show() { return new User(); } }\n',
+      'src/Model/User.php': '<?php\nnamespace App\\Model;\n\nclass User {}\n',
+      'public/index.php': "<?php\nrequire_once '../src/bootstrap.php';\n",
+      'src/bootstrap.php': '<?php\nfunction boot() {}\n',
+    });
+
+    expect(importsOf(modules, 'src.Controller.UserController')).toEqual(['src.Model.User']);
+    expect(importsOf(modules, 'public.index')).toEqual(['src.bootstrap']);
+  });
+});
+
+describe('Python imports', () => {
+  it('resolves absolute imports from the package root and relative imports from the package', () => {
+    const modules = parseFixture({
+      'pyproject.toml': '[tool.setuptools.packages.find]\nwhere = ["src"]\n',
+      'src/shop/__init__.py': '',
+      'src/shop/models.py': 'class User:\n    pass\n',
+      'src/shop/services/__init__.py': '',
+      'src/shop/services/users.py': 'from shop.models import User\nfrom ..util import slug\nimport os\n\ndef create():\n    return User(), slug()\n',
+      'src/shop/util.py': 'def slug():\n    return ""\n',
+    });
+
+    expect(importsOf(modules, 'src.shop.services.users')).toEqual(['src.shop.models', 'src.shop.util']);
+    expect(modules.get('src.shop.services.users')!.unresolvedImports).toEqual([]);
+  });
+});
+
+describe('C and C++ includes', () => {
+  it('resolves quoted includes from the including file, then include dirs and unique suffixes', () => {
+    const modules = parseFixture({
+      'src/main.c': '#include <stdio.h>\n#include "local.h"\n#include "api/public.h"\n#include "deep/only.h"\nint main(void) { return 0; }\n',
+      'src/local.h': 'int local(void);\n',
+      'include/api/public.h': 'int api(void);\n',
+      'third/deep/only.h': 'int only(void);\n',
+    }, { includeDirs: ['include'] });
+
+    expect(importsOf(modules, 'src.main')).toEqual(['include.api.public', 'src.local', 'third.deep.only']);
+  });
+
+  it('merges a header with its implementation when asked', () => {
+    const modules = parseFixture({
+      'main.c': '#include "list.h"\nint main(void) { return list_size(); }\n',
+      'list.h': 'int list_size(void);\n',
+      'list.c': '#include "list.h"\nint list_size(void) { return 0; }\n',
+    }, { mergeHeaderPairs: true });
+
+    expect([...modules.keys()].sort()).toEqual(['list', 'main']);
+    expect(importsOf(modules, 'main')).toEqual(['list']);
+  });
+});
+
+describe('Ruby, Kotlin and Swift imports', () => {
+  it('resolves require_relative against the file and require against lib/', () => {
+    const modules = parseFixture({
+      'bin/run.rb': "require 'json'\nrequire 'shop/cart'\nrequire_relative '../config/settings'\n",
+      'lib/shop/cart.rb': 'module Shop\n  class Cart; end\nend\n',
+      'config/settings.rb': 'SETTINGS = {}\n',
+    });
+
+    expect(importsOf(modules, 'bin.run')).toEqual(['config.settings', 'lib.shop.cart']);
+  });
+
+  it('resolves Kotlin imports of top-level functions through the package declaration', () => {
+    const modules = parseFixture({
+      'src/main/kotlin/app/Main.kt': 'package app\n\nimport app.text.shout\n\nfun main() {\n    println(shout("hi"))\n}\n',
+      'src/main/kotlin/app/text/Shout.kt': 'package app.text\n\nfun shout(s: String): String = s.uppercase()\n',
+    });
+
+    expect(importsOf(modules, 'src.main.kotlin.app.Main')).toEqual(['src.main.kotlin.app.text.Shout']);
+  });
+
+  it('links Swift files to the types they use from their own target and imported targets', () => {
+    const modules = parseFixture({
+      'Package.swift': '// swift-tools-version:5.9\n',
+      'Sources/App/main.swift': 'import Core\n\nlet store = Store()\nlet view = Screen()\n',
+      'Sources/App/Screen.swift': 'struct Screen {}\n',
+      'Sources/Core/Store.swift': 'public struct Store {}\n',
+    });
+
+    expect(importsOf(modules, 'Sources.App.main')).toEqual(['Sources.App.Screen', 'Sources.Core.Store']);
+  });
+});
+
+describe('Plugin imports', () => {
+  it('builds a plugin index once and hands it to every resolveImport call', () => {
+    let indexed = 0;
+    const plugin: LanguagePlugin<Map<string, string>> = {
+      id: 'workflow-yaml',
+      extensions: ['.workflow.yml'],
+      parse(content) {
+        const imports = [...content.matchAll(/uses:\s*(\S+)/g)].map(m => m[1]);
+        return {
+          imports,
+          importBindings: imports.map(specifier => ({ specifier, symbols: [] })),
+          exports: [], typeExports: [], functions: [], classes: [], diagnostics: [],
+        };
+      },
+      indexImports(context) {
+        indexed++;
+        return new Map(context.modules.map(module => [module.path.replace(/^.*\/|\.workflow\.yml$/g, ''), module.id]));
+      },
+      resolveImport(specifier, _importer, _context, index) {
+        const moduleId = index.get(specifier);
+        return moduleId ? { moduleId, external: false } : { external: true };
+      },
+    };
+
+    const modules = parseFixture({
+      'ci/build.workflow.yml': 'uses: test\nuses: lint\nuses: actions/checkout\n',
+      'ci/test.workflow.yml': 'uses: lint\n',
+      'ci/lint.workflow.yml': 'uses: actions/setup-node\n',
+    }, { plugins: [plugin] });
+
+    expect(indexed).toBe(1);
+    expect(importsOf(modules, 'ci.build')).toEqual(['ci.lint', 'ci.test']);
+    expect(importsOf(modules, 'ci.test')).toEqual(['ci.lint']);
+  });
+
+  it('lets a plugin reuse the built-in rules of another language', () => {
+    const plugin: LanguagePlugin = {
+      id: 'mdx',
+      extensions: ['.mdx'],
+      parse(content) {
+        const imports = [...content.matchAll(/from '([^']+)'/g)].map(m => m[1]);
+        return {
+          imports,
+          importBindings: imports.map(specifier => ({ specifier, symbols: [] })),
+          exports: [], typeExports: [], functions: [], classes: [], diagnostics: [],
+        };
+      },
+      resolveImport: (specifier, importer, context) => context.resolveAs('typescript', specifier, importer),
+    };
+
+    const modules = parseFixture({
+      'docs/intro.mdx': `import { Chart } from '../src/chart';\nimport React from 'react';\n`,
+      'src/chart.tsx': 'export function Chart() { return null; }\n',
+    }, { plugins: [plugin] });
+
+    expect(importsOf(modules, 'docs.intro')).toEqual(['src.chart']);
+    expect(modules.get('docs.intro')!.unresolvedImports).toEqual([]);
+  });
+});
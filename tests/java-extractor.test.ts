@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { JavaExtractor } from '../src/analyzer/java-extractor.js';
+
+const extract = (content: string) => new JavaExtractor().extract(content, 'src/main/java/com/acme/service/UserService.java');
+
+const usage = (content: string) => Object.fromEntries(
+  extract(content).importBindings.flatMap(b => b.symbols).map(s => [s.name, [s.references, s.typeReferences]])
+);
+
+describe('JavaExtractor', () => {
+  it('reads the package, classes with heritage, and methods with their kind and annotations', () => {
+    const result = extract([
+      'package com.acme.service;',
+      'public class UserService extends BaseService implements Lookup {',
+      '    public UserService(Repo repo) { super(repo); }',
+      '    @Override',
+      '    public User find(String id, int depth) {',
+      '        return null;',
+      '    }',
+      '    public CompletableFuture<User> load(String id) { return null; }',
+      '    interface Listener { void changed(User user); }',
+      '}',
+    ].join('\n'));
+
+    expect(result.namespace).toBe('com.acme.service');
+    expect(result.exports).toEqual(['UserService']);
+    expect(result.classes.map(({ name, kind, extends: parent, implements: interfaces }) => ({ name, kind, parent, interfaces }))).toEqual([
+      { name: 'UserService', kind: 'class', parent: 'BaseService', interfaces: ['Lookup'] },
+      { name: 'Listener', kind: 'interface', parent: undefined, interfaces: [] },
+    ]);
+    expect(result.classes[0].methods.map(({ name, kind, params, async, annotations }) => ({ name, kind, params, async, annotations }))).toEqual([
+      { name: 'UserService', kind: 'constructor', params: ['Repo repo'], async: false, annotations: [] },
+      { name: 'find', kind: 'method', params: ['String id', 'int depth'], async: false, annotations: ['Override'] },
+      { name: 'load', kind: 'method', params: ['String id'], async: true, annotations: [] },
+    ]);
+  });
+
+  it('binds static imports and offers the own package for names used without an import', () => {
+    const result = extract([
+      'package com.acme.service;',
+      'import com.acme.model.User;',
+      'import static com.acme.util.Strings.slug;',
+      'class Users { User make(String id) { return new User(slug(id)); } Helper helper; }',
+    ].join('\n'));
+
+    expect(result.imports).toEqual(['com.acme.model.User', 'com.acme.util.Strings', 'com.acme.service.*']);
+    expect(result.importBindings.map(b => [b.specifier, b.symbols.map(s => s.name)])).toEqual([
+      ['com.acme.model.User', ['User']],
+      ['com.acme.util.Strings', ['slug']],
+      ['com.acme.service.*', ['String', 'Helper']],
+    ]);
+  });
+
+  it('counts a superclass as a value use and implemented interfaces as type uses', () => {
+    expect(usage([
+      'package com.acme;',
+      'import com.acme.base.Base;',
+      'import com.acme.base.Named;',
+      'public class User<T extends Comparable<T>> extends Base implements Named { Base other; }',
+    ].join('\n'))).toMatchObject({ Base: [2, 1], Named: [1, 1], Comparable: [1, 1] });
+  });
+});
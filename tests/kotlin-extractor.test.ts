@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { KotlinExtractor } from '../src/analyzer/kotlin-extractor.js';
+
+const extract = (content: string) => new KotlinExtractor().extract(content, 'src/main/kotlin/app/service/UserService.kt');
+
+describe('KotlinExtractor', () => {
+  const source = [
+    'package app.service',
+    '',
+    'import app.model.User',
+    'import app.base.Base',
+    'import kotlinx.coroutines.delay as pause',
+    '',
+    '@Service',
+    'class UserService(private val repo: Repo) : Base<User>(), Lookup {',
+    '    suspend fun find(id: String): User {',
+    '        pause(10)',
+    '        return User(id)',
+    '    }',
+    '    fun count() = 1',
+    '}',
+    '',
+    'interface Lookup { fun find(id: String): User }',
+    '',
+    'fun topLevel(a: Int, b: Int = 2): Int = a + b',
+  ].join('\n');
+
+  it('reads the package, the called supertype as superclass and suspend functions as async', () => {
+    const result = extract(source);
+
+    expect(result.namespace).toBe('app.service');
+    expect(result.exports).toEqual(['UserService', 'Lookup', 'topLevel']);
+    expect(result.typeExports).toEqual(['Lookup']);
+    expect(result.classes[0]).toMatchObject({ name: 'UserService', extends: 'Base', implements: ['Lookup'], annotations: ['Service'] });
+    expect(result.classes[0].methods.map(m => [m.name, m.kind, m.async])).toEqual([
+      ['UserService', 'constructor', false],
+      ['find', 'method', true],
+      ['count', 'method', false],
+    ]);
+    expect(result.functions.map(fn => [fn.name, fn.params])).toEqual([['topLevel', ['a: Int', 'b: Int = 2']]]);
+  });
+
+  it('binds aliased imports and counts a generic superclass as a value use', () => {
+    const uses = Object.fromEntries(extract(source).importBindings.flatMap(b => b.symbols).map(s => [s.localName, [s.references, s.typeReferences]]));
+
+    expect(uses).toMatchObject({ User: [4, 2], Base: [1, 0], pause: [1, 0] });
+  });
+});
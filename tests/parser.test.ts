@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseFixture } from './helpers.js';
+
+describe('CodeParser syntax errors', () => {
+  it('records recovered syntax errors in source order', () => {
+    const modules = parseFixture({
+      'broken.js': 'let a: number = 1;\nfunction b( {\n  return 1 +;\n}\n',
+      'fine.ts': 'export const fine = 1;\n',
+    });
+    const { metadata } = modules.get('broken')!;
+
+    expect(metadata.hasErrors).toBe(true);
+    expect(metadata.diagnostics.map(d => [d.line, d.column])).toEqual([[1, 8], [3, 10], [3, 12], [3, 13], [4, 1]]);
+    expect(metadata.diagnostics[0].message).toBe('Type annotations can only be used in TypeScript files.');
+    expect(modules.get('fine')!.metadata).toMatchObject({ hasErrors: false, diagnostics: [] });
+  });
+});
+
+describe('CodeParser module ids', () => {
+  it('drops the extension the language plugin registered, compound ones included', () => {
+    const modules = parseFixture({
+      'src/App.vue': '<template><div /></template>\n',
+      'src/util.test.ts': 'export const t = 1;\n',
+      'src/types.d.ts': 'export type T = number;\n',
+    });
+
+    expect([...modules.keys()].sort()).toEqual(['src.App', 'src.types.d', 'src.util.test']);
+  });
+
+  it('keeps the extension of modules that would share an id', () => {
+    const modules = parseFixture({
+      'lib/a.ts': 'export const a = 1;\n',
+      'lib/a.js': 'export const a = 2;\n',
+      'lib/b.ts': 'export const b = 1;\n',
+      'main.ts': `import { a } from './lib/a';\nexport const m = a;\n`,
+    });
+
+    expect([...modules.keys()].sort()).toEqual(['lib.a.js', 'lib.a.ts', 'lib.b', 'main']);
+    expect(modules.get('main')!.imports).toEqual(['lib.a.ts']);
+  });
+});
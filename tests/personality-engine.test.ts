@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CodeAnalyzer } from '../src/analyzer/index.js';
+import { ModuleFacts, PersonalityEngine, createBuiltinPersonalityRules } from '../src/analyzer/personality-engine.js';
+import { PersonalityType } from '../src/analyzer/types.js';
+import { createFixture } from './helpers.js';
+
+const builtinRules = createBuiltinPersonalityRules({ busyHelperCalls: 10, fragileComplexity: 7 });
+
+/**
+ * Facts of a small TypeScript module at the given path
+ */
+function factsAt(path: string, facts: Partial<ModuleFacts> = {}): ModuleFacts {
+  return {
+    path,
+    basename: path.split('/').pop()!,
+    type: 'module',
+    language: 'typescript',
+    exports: [],
+    fanIn: 1,
+    fanOut: 0,
+    complexity: 1,
+    lines: 20,
+    ...facts,
+  };
+}
+
+describe('PersonalityEngine', () => {
+  const engine = new PersonalityEngine(builtinRules);
+  const ruleFor = (path: string, facts?: Partial<ModuleFacts>) => engine.cast(factsAt(path, facts)).casting.rule;
+
+  it('matches path patterns by whole words only', () => {
+    expect(ruleFor('src/user.model.ts')).toBe('data-file');
+    expect(ruleFor('src/string-utils.ts')).toBe('helper-file');
+    expect(ruleFor('src/lib/format.ts')).toBe('helper-dir');
+    expect(ruleFor('src/modelling.ts')).toBe('default');
+    expect(ruleFor('src/dbg/trace.ts')).toBe('default');
+  });
+
+  it('lets the file name outrank its directory and records why', () => {
+    const { personality, casting } = engine.cast(factsAt('src/utils/settings.ts'));
+
+    expect(personality).toBe(PersonalityType.MYSTERIOUS);
+    expect(casting).toMatchObject({ rule: 'config-file', score: 3, reasons: ['file name matches "settings"'] });
+    expect(casting.candidates.map(c => [c.rule, c.score])).toEqual([['helper-dir', 2], ['default', 0]]);
+  });
+
+  it('sends popular helpers, unused and complex modules to their own rules', () => {
+    expect(ruleFor('src/utils/date.ts', { fanIn: 11 })).toBe('busy-helper');
+    expect(ruleFor('src/report.ts', { fanIn: 0 })).toBe('unused');
+    expect(ruleFor('src/report.ts', { complexity: 8 })).toBe('complex');
+  });
+
+  it('puts project rules first, replacing built-in rules of the same name and dropping disabled ones', () => {
+    const custom = new PersonalityEngine(builtinRules, [
+      { name: 'feature-hooks', personality: PersonalityType.QUIRKY, priority: 1, when: { path: '^src/features/', exports: '^use' } },
+      { name: 'unused', personality: PersonalityType.LONELY, disabled: true, when: {} },
+    ]);
+
+    const hooks = custom.cast(factsAt('src/features/cart/useCart.ts', { exports: ['useCart'], fanIn: 0 }));
+    expect(hooks.casting.rule).toBe('feature-hooks');
+    expect(hooks.casting.reasons).toEqual(['path matches "src/features/"', 'exports useCart']);
+    expect(custom.cast(factsAt('src/report.ts', { fanIn: 0 })).casting.rule).toBe('default');
+  });
+
+  it('casts Go package characters by their directory', () => {
+    const dir = createFixture({
+      'go.mod': 'module example.com/app\n',
+      'cmd/main.go': 'package main\n\nimport "example.com/app/pkg/util"\n\nfunc main() { util.Trim("x") }\n',
+      'pkg/util/strings.go': 'package util\n\nfunc Trim(s string) string { return s }\n',
+    });
+
+    const analysis = new CodeAnalyzer({ goPackageCharacters: true }).analyze(dir);
+    const castOf = (file: string) => {
+      const char = analysis.characters.find(c => c.originalFile === file)!;
+      return [char.personality, char.casting.rule];
+    };
+
+    expect(castOf('cmd')).toEqual([PersonalityType.HEROIC, 'go-command']);
+    expect(castOf('pkg/util')).toEqual([PersonalityType.HELPFUL, 'helper-file']);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PhpExtractor } from '../src/analyzer/php-extractor.js';
+
+const extract = (content: string) => new PhpExtractor().extract(content, 'src/Controller/UserController.php');
+
+describe('PhpExtractor', () => {
+  const source = [
+    '<?php',
+    'namespace App\\Controller;',
+    '',
+    'use App\\Model\\User;',
+    'use App\\Service\\{Mailer, Logger as Log};',
+    'use function App\\Util\\slug;',
+    '',
+    'final class UserController extends BaseController implements HasRoutes',
+    '{',
+    '    use Traits\\Paginates;',
+    '',
+    '    public function __construct(private Mailer $mailer) {}',
+    '',
+    '    public function show(int $id): User',
+    '    {',
+    '        Log::info(slug("x"));',
+    '        return User::find($id) ?? new User();',
+    '    }',
+    '}',
+    '',
+    'function helper($a, $b = 2) { return $a; }',
+  ].join('\n');
+
+  it('reads the namespace, classes with parents, interfaces and traits, and functions', () => {
+    const result = extract(source);
+
+    expect(result.namespace).toBe('App\\Controller');
+    expect(result.exports).toEqual(['UserController', 'helper']);
+    expect(result.classes[0]).toMatchObject({ name: 'UserController', kind: 'class', extends: 'BaseController', implements: ['HasRoutes', 'Paginates'] });
+    expect(result.classes[0].methods.map(m => [m.name, m.kind])).toEqual([['__construct', 'constructor'], ['show', 'method']]);
+    expect(result.functions.map(fn => [fn.name, fn.params])).toEqual([['helper', ['$a', '$b = 2']]]);
+  });
+
+  it('expands group uses and aliases, and counts value and type uses', () => {
+    const symbols = extract(source).importBindings.map(b => [b.specifier, ...b.symbols.map(s => [s.localName, s.references, s.typeReferences])]);
+
+    expect(symbols).toEqual([
+      ['App\\Model\\User', ['User', 3, 1]],
+      ['App\\Service\\Mailer', ['Mailer', 1, 1]],
+      ['App\\Service\\Logger', ['Log', 1, 0]],
+      ['App\\Util\\slug', ['slug', 1, 0]],
+      ['App\\Controller\\*', ['BaseController', 1, 0], ['HasRoutes', 1, 1]],
+    ]);
+  });
+});
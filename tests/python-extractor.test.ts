@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PythonExtractor } from '../src/analyzer/python-extractor.js';
+
+const extract = (content: string) => new PythonExtractor().extract(content, 'shop/services/users.py');
+
+describe('PythonExtractor', () => {
+  const source = [
+    'import os',
+    'from shop.models import User, Base as B',
+    'from ..util import slug',
+    '',
+    'class UserService(B, Mixin):',
+    '    async def create(self, name: str) -> User:',
+    '        return User(slug(name))',
+    '',
+    '    @staticmethod',
+    '    def count(): return 1',
+    '',
+    'async def main(*args, **kwargs):',
+    '    await UserService().create("x")',
+    '',
+    'def _private(a, b=2): pass',
+  ].join('\n');
+
+  it('reads classes with bases, methods with decorators, and async functions', () => {
+    const result = extract(source);
+
+    expect(result.classes).toHaveLength(1);
+    expect(result.classes[0]).toMatchObject({ name: 'UserService', extends: 'B', implements: ['Mixin'] });
+    expect(result.classes[0].methods.map(({ name, params, async, annotations }) => ({ name, params, async, annotations }))).toEqual([
+      { name: 'create', params: ['self', 'name'], async: true, annotations: [] },
+      { name: 'count', params: [], async: false, annotations: ['staticmethod'] },
+    ]);
+    expect(result.functions.map(({ name, params, async }) => ({ name, params, async }))).toEqual([
+      { name: 'main', params: ['*args', '**kwargs'], async: true },
+      { name: '_private', params: ['a', 'b'], async: false },
+    ]);
+  });
+
+  it('binds each imported name, keeping relative dots and aliases', () => {
+    expect(extract(source).importBindings.map(b => [b.specifier, ...b.symbols.map(s => [s.localName, s.references, s.typeReferences])])).toEqual([
+      ['os', ['os', 0, 0]],
+      ['shop.models.User', ['User', 2, 1]],
+      ['shop.models.Base', ['B', 1, 0]],
+      ['..util.slug', ['slug', 1, 0]],
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { CodeAnalyzer } from '../src/analyzer/index.js';
+import { DependencyRelation } from '../src/analyzer/types.js';
+import { createFixture } from './helpers.js';
+
+/**
+ * Relations of a fixture keyed by `from -> to` module ids; a pair may be related by its imports and its classes
+ */
+function relationsOf(files: Record<string, string>): Map<string, DependencyRelation[]> {
+  const analysis = new CodeAnalyzer().analyze(createFixture(files));
+  const moduleOf = new Map(Object.entries(analysis.characterIndex.byModuleId).map(([moduleId, charId]) => [charId, moduleId]));
+  const relations = new Map<string, DependencyRelation[]>();
+
+  for (const relation of analysis.relations) {
+    const key = `${moduleOf.get(relation.from)} -> ${moduleOf.get(relation.to)}`;
+    relations.set(key, [...(relations.get(key) || []), relation]);
+  }
+  return relations;
+}
+
+describe('relation strength from symbol usage', () => {
+  it('grows with the symbols imported and their references', () => {
+    const relations = relationsOf({
+      'lib.ts': 'export const a = 1;\nexport const b = 2;\nexport const c = 3;\n',
+      'once.ts': `import { a } from './lib';\nexport const once = a;\n`,
+      'often.ts': `import { a, b, c } from './lib';\nexport const often = [a, a, b, b, c, c, a + b + c];\n`,
+      'bare.ts': `import './lib';\nexport const bare = 1;\n`,
+    });
+
+    const once = relations.get('once -> lib')![0];
+    const often = relations.get('often -> lib')![0];
+    const bare = relations.get('bare -> lib')![0];
+
+    expect(bare.strength).toBe(0.2);
+    expect(once.strength).toBeGreaterThan(bare.strength);
+    expect(often.strength).toBeGreaterThan(once.strength);
+    expect(often.strength).toBeLessThan(1);
+    expect(often.symbols.map(s => [s.name, s.references])).toEqual([['a', 3], ['b', 3], ['c', 3]]);
+  });
+
+  it('merges the symbols of several import statements from the same module', () => {
+    const relations = relationsOf({
+      'lib.ts': 'export const a = 1;\nexport const b = 2;\n',
+      'main.ts': `import { a } from './lib';\nimport { a as again, b } from './lib.js';\nexport const main = [a, again, b];\n`,
+    });
+
+    expect(relations.get('main -> lib')![0].symbols.map(s => [s.name, s.references])).toEqual([['a', 2], ['b', 1]]);
+  });
+});
+
+describe('async relation classification', () => {
+  it('classifies awaited, event, callback and lazy-loaded dependencies', () => {
+    const relations = relationsOf({
+      'api.ts': 'export async function fetchUser() { return 1; }\n',
+      'bus.ts': 'export const bus = { on(_: string, __: () => void) {}, emit(_: string) {} };\n',
+      'timer.ts': 'export function every(_: number, __: () => void) {}\n',
+      'heavy.ts': 'export const heavy = 1;\n',
+      'page.ts': [
+        `import { fetchUser } from './api';`,
+        `import { bus } from './bus';`,
+        `import { every } from './timer';`,
+        `export async function load() { return await fetchUser(); }`,
+        `bus.on('saved', () => load());`,
+        `bus.emit('ready');`,
+        `every(1000, () => load());`,
+        `export const lazy = () => import('./heavy');`,
+      ].join('\n'),
+    });
+
+    expect(relations.get('page -> api')![0]).toMatchObject({ relationType: 'secret', asyncFlavor: 'awaited' });
+    expect(relations.get('page -> bus')![0]).toMatchObject({ relationType: 'secret', asyncFlavor: 'event' });
+    expect(relations.get('page -> timer')![0]).toMatchObject({ relationType: 'secret', asyncFlavor: 'callback' });
+    expect(relations.get('page -> heavy')![0]).toMatchObject({ relationType: 'secret', asyncFlavor: 'lazy-load' });
+  });
+
+  it('keeps a dependency synchronous when async use is the exception', () => {
+    const relations = relationsOf({
+      'api.ts': 'export async function fetchUser() { return 1; }\nexport function cached() { return 1; }\n',
+      'page.ts': `import { fetchUser, cached } from './api';\nexport async function load() { cached(); cached(); cached(); return await fetchUser(); }\n`,
+    });
+
+    expect(relations.get('page -> api')![0].relationType).not.toBe('secret');
+    expect(relations.get('page -> api')![0].asyncFlavor).toBeUndefined();
+  });
+});
+
+describe('contract relations', () => {
+  it('relates type-only imports, interface-only modules and implemented interfaces as contracts', () => {
+    const relations = relationsOf({
+      'types.ts': 'export interface User { id: string }\nexport type Id = string;\n',
+      'store.ts': 'export interface Store { save(): void }\nexport const noop = () => {};\n',
+      'values.ts': 'export interface Point { x: number }\nexport const origin = { x: 0 };\n',
+      'service.ts': [
+        `import type { User } from './types';`,
+        `import { Store } from './store';`,
+        `import { Point } from './values';`,
+        `export class Service implements Store { save() {} }`,
+        `export function locate(user: User): Point { return { x: user.id.length }; }`,
+      ].join('\n'),
+      'runtime.ts': `import { origin } from './values';\nexport const start = origin;\n`,
+    });
+
+    const types = (pair: string) => relations.get(pair)!.map(relation => relation.relationType);
+
+    expect(types('service -> types')).toEqual(['contract']);
+    expect(types('service -> store')).toEqual(['contract', 'mentor']);
+    expect(types('service -> values')).toEqual(['contract']);
+    expect(types('runtime -> values')).not.toContain('contract');
+  });
+});
+
+describe('family relations', () => {
+  it('relates subclasses to their parents and implementations to their interfaces', () => {
+    const relations = relationsOf({
+      'base.ts': 'export class Base { run() {} }\n',
+      'shape.ts': 'export interface Shape { area(): number }\n',
+      'square.ts': [
+        `import { Base } from './base';`,
+        `import type { Shape } from './shape';`,
+        `export class Square extends Base implements Shape { area() { return 1; } }`,
+      ].join('\n'),
+    });
+    const family = (pair: string) => relations.get(pair)!.filter(relation => relation.relationType === 'parent_child' || relation.relationType === 'mentor');
+
+    expect(family('square -> base')).toMatchObject([{ relationType: 'parent_child', strength: 0.8 }]);
+    expect(family('square -> shape')).toMatchObject([{ relationType: 'mentor', strength: 0.6 }]);
+  });
+});
+
+describe('component composition', () => {
+  it('relates a component rendering another as its stage parent, stronger with each render', () => {
+    const relations = relationsOf({
+      'src/Button.tsx': 'export function Button() { return <button />; }\n',
+      'src/Toolbar.tsx': `import { Button } from './Button';\nexport function Toolbar() { return <div><Button /><Button /><Button /></div>; }\n`,
+      'src/Dialog.tsx': `import { Button } from './Button';\nexport function Dialog() { return <Button />; }\n`,
+    });
+
+    const toolbar = relations.get('src.Toolbar -> src.Button')![0];
+    const dialog = relations.get('src.Dialog -> src.Button')![0];
+
+    expect(toolbar.relationType).toBe('stage_parent');
+    expect(toolbar.description).toContain('(renders <Button> ×3)');
+    expect(dialog.relationType).toBe('stage_parent');
+    expect(toolbar.strength).toBeGreaterThan(dialog.strength);
+  });
+
+  it('tags the custom hooks a module borrows, on renders and plain imports alike', () => {
+    const relations = relationsOf({
+      'src/hooks.ts': 'export function useUser() { return 1; }\nexport const format = (n: number) => String(n);\n',
+      'src/Profile.tsx': `import { useUser, format } from './hooks';\nexport function Profile() { const user = useUser(); return <p>{format(user)}</p>; }\n`,
+    });
+
+    const relation = relations.get('src.Profile -> src.hooks')![0];
+
+    expect(relation.hooks).toEqual(['useUser']);
+    expect(relation.description).toContain('(hooks useUser)');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { RubyExtractor } from '../src/analyzer/ruby-extractor.js';
+
+const extract = (content: string) => new RubyExtractor().extract(content, 'lib/shop/cart.rb');
+
+describe('RubyExtractor', () => {
+  const source = [
+    `require 'json'`,
+    `require_relative 'item'`,
+    '',
+    'module Shop',
+    '  class Cart < Base',
+    '    include Enumerable',
+    '',
+    '    def initialize(items = [])',
+    '      @items = items',
+    '    end',
+    '',
+    '    def total',
+    '      @items.sum { |i| Item.price(i) }',
+    '    end',
+    '',
+    '    def self.empty',
+    '      new',
+    '    end',
+    '  end',
+    'end',
+  ].join('\n');
+
+  it('keeps require_relative paths relative and reads modules, classes and mixins', () => {
+    const result = extract(source);
+
+    expect(result.imports).toEqual(['json', './item']);
+    expect(result.exports).toEqual(['Shop', 'Cart']);
+    expect(result.classes.map(({ name, kind, extends: parent, implements: mixins }) => ({ name, kind, parent, mixins }))).toEqual([
+      { name: 'Shop', kind: 'module', parent: undefined, mixins: [] },
+      { name: 'Cart', kind: 'class', parent: 'Base', mixins: ['Enumerable'] },
+    ]);
+    expect(result.classes[1].methods.map(m => [m.name, m.kind, m.params])).toEqual([
+      ['initialize', 'constructor', ['items = []']],
+      ['total', 'method', []],
+      ['empty', 'method', []],
+    ]);
+  });
+
+  it('counts a superclass as a value use and mixins as type uses', () => {
+    const uses = Object.fromEntries(extract(source).importBindings[0].symbols.map(s => [s.name, [s.references, s.typeReferences]]));
+
+    expect(uses).toMatchObject({ Base: [1, 0], Enumerable: [1, 1], Item: [1, 0] });
+  });
+});
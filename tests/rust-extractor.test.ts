@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { RustExtractor } from '../src/analyzer/rust-extractor.js';
+
+const extract = (content: string) => new RustExtractor().extract(content, 'src/net/client.rs');
+
+describe('RustExtractor', () => {
+  const source = [
+    'use crate::util::{helper, Config as Cfg};',
+    'mod inner;',
+    '',
+    'pub trait Connect { fn connect(&self); }',
+    '',
+    'pub struct Client { name: String }',
+    '',
+    'impl Connect for Client {',
+    '    fn connect(&self) { helper(); }',
+    '}',
+    '',
+    'impl Client {',
+    '    pub async fn fetch(&self) -> u32 { Cfg::default().port }',
+    '}',
+    '',
+    'pub fn run() { helper(); }',
+    'fn private() {}',
+  ].join('\n');
+
+  it('exports pub items and gathers impl blocks onto their type', () => {
+    const result = extract(source);
+
+    expect(result.exports).toEqual(['Connect', 'Client', 'run']);
+    expect(result.typeExports).toEqual(['Connect']);
+    expect(result.functions.map(fn => fn.name)).toEqual(['run', 'private']);
+    expect(result.classes.map(cls => ({ name: cls.name, kind: cls.kind, implements: cls.implements, methods: cls.methods.map(m => m.name) }))).toEqual([
+      { name: 'Connect', kind: 'trait', implements: [], methods: ['connect'] },
+      { name: 'Client', kind: 'struct', implements: ['Connect'], methods: ['connect', 'fetch'] },
+    ]);
+    expect(result.classes[1].methods[1].async).toBe(true);
+  });
+
+  it('expands use groups and aliases, and marks mod declarations', () => {
+    expect(extract(source).importBindings.map(b => ({
+      specifier: b.specifier,
+      declaration: b.declaration ?? false,
+      symbols: b.symbols.map(s => `${s.name} as ${s.localName}×${s.references}`),
+    }))).toEqual([
+      { specifier: 'self::inner', declaration: true, symbols: ['* as inner×0'] },
+      { specifier: 'crate::util::helper', declaration: false, symbols: ['helper as helper×2'] },
+      { specifier: 'crate::util::Config', declaration: false, symbols: ['Config as Cfg×1'] },
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { SfcExtractor } from '../src/analyzer/sfc-extractor.js';
+import { SourceExtraction } from '../src/analyzer/typescript-extractor.js';
+import { parseFixture } from './helpers.js';
+
+/**
+ * `[localName, references, renders]` of every imported symbol
+ */
+function usesOf(extraction: SourceExtraction): Array<[string | undefined, number, number | undefined]> {
+  return extraction.importBindings.flatMap(b => b.symbols).map(s => [s.localName, s.references, s.renders]);
+}
+
+describe('SfcExtractor', () => {
+  it('parses a Vue script setup block and counts template tags in both cases as renders', () => {
+    const result = new SfcExtractor().extract([
+      '<template>',
+      '  <UserCard :user="user" />',
+      '  <user-card v-for="u in users" />',
+      '  <component :is="Icon" />',
+      '  <!-- <Footer /> -->',
+      '</template>',
+      '',
+      '<script setup lang="ts">',
+      `import UserCard from './UserCard.vue';`,
+      `import Icon from './Icon.vue';`,
+      `import Footer from './Footer.vue';`,
+      `import { format } from '../lib/format';`,
+      'const user = format(1);',
+      'function onClick(id: number) { return id; }',
+      '</script>',
+      '',
+      '<style>',
+      '.UserCard { color: red }',
+      '</style>',
+    ].join('\n'), 'src/Page.vue');
+
+    expect(result.imports).toEqual(['./UserCard.vue', './Icon.vue', './Footer.vue', '../lib/format']);
+    expect(usesOf(result)).toEqual([
+      ['UserCard', 2, 2],
+      ['Icon', 1, 1],
+      ['Footer', 0, undefined],
+      ['format', 1, undefined],
+    ]);
+    expect(result.functions.map(fn => [fn.name, fn.params])).toEqual([['onClick', ['id']]]);
+    expect(result.exports).toEqual(['default']);
+  });
+
+  it('reports script syntax errors at their position in the component file', () => {
+    const result = new SfcExtractor().extract('<template>\n  <p>{{ total }}</p>\n</template>\n<script>\nconst total = ;\n</script>\n', 'src/Total.vue');
+
+    expect(result.diagnostics.map(d => [d.line, d.column])).toEqual([[5, 15]]);
+  });
+
+  it('reads Svelte `this={X}` renders and keeps exported props', () => {
+    const result = new SfcExtractor().extract([
+      '<script>',
+      `  import Modal from './Modal.svelte';`,
+      `  import Row from './Row.svelte';`,
+      '  export let rows = [];',
+      '  let current = Modal;',
+      '</script>',
+      '',
+      '{#each rows as row}<Row {row} />{/each}',
+      '<svelte:component this={Modal} />',
+    ].join('\n'), 'src/App.svelte');
+
+    expect(result.exports).toEqual(['rows', 'default']);
+    expect(usesOf(result)).toEqual([['Modal', 2, 1], ['Row', 1, 1]]);
+  });
+
+  it('parses Astro frontmatter and client scripts', () => {
+    const result = new SfcExtractor().extract([
+      '---',
+      `import Layout from '../layouts/Layout.astro';`,
+      `import Card from '../components/Card.svelte';`,
+      `const title = 'Home';`,
+      '---',
+      '<Layout title={title}>',
+      '  <Card client:load />',
+      '</Layout>',
+      '<script>',
+      `import { track } from '../lib/track';`,
+      'track();',
+      '</script>',
+    ].join('\n'), 'src/pages/index.astro');
+
+    expect(usesOf(result)).toEqual([['Layout', 1, 1], ['Card', 1, 1], ['track', 1, undefined]]);
+  });
+
+  it('makes components modules of type component that resolve script imports like TypeScript', () => {
+    const modules = parseFixture({
+      'src/App.vue': `<template><Header /></template>\n<script setup lang="ts">\nimport Header from './Header.vue';\nimport { api } from './api';\napi();\n</script>\n`,
+      'src/Header.vue': '<template><h1>Hi</h1></template>\n',
+      'src/api.ts': 'export function api() {}\n',
+    });
+
+    expect(modules.get('src.App')).toMatchObject({ language: 'vue', type: 'component', imports: ['src.Header', 'src.api'] });
+  });
+});
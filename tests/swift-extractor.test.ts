@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { SwiftExtractor } from '../src/analyzer/swift-extractor.js';
+
+const extract = (content: string) => new SwiftExtractor().extract(content, 'Sources/App/UserStore.swift');
+
+describe('SwiftExtractor', () => {
+  const source = [
+    'import Foundation',
+    '',
+    'protocol Store { func load() async throws -> [User] }',
+    '',
+    'final class UserStore: BaseStore, Store {',
+    '    func load() async throws -> [User] { return [] }',
+    '    init() { super.init() }',
+    '}',
+    '',
+    'struct User: Codable { let name: String }',
+    '',
+    'extension UserStore {',
+    '    func count() -> Int { 0 }',
+    '}',
+    '',
+    'func helper(_ value: Int, scale: Int = 2) -> Int { value * scale }',
+  ].join('\n');
+
+  it('reads protocols, a class superclass apart from its protocols, and merges extensions', () => {
+    const result = extract(source);
+
+    expect(result.exports).toEqual(['Store', 'UserStore', 'User', 'helper']);
+    expect(result.typeExports).toEqual(['Store']);
+    expect(result.classes.map(({ name, kind, extends: parent, implements: protocols }) => ({ name, kind, parent, protocols }))).toEqual([
+      { name: 'Store', kind: 'interface', parent: undefined, protocols: [] },
+      { name: 'UserStore', kind: 'class', parent: 'BaseStore', protocols: ['Store'] },
+      { name: 'User', kind: 'struct', parent: undefined, protocols: ['Codable'] },
+    ]);
+    expect(result.classes[1].methods.map(m => [m.name, m.kind, m.async])).toEqual([
+      ['load', 'method', true],
+      ['init', 'constructor', false],
+      ['count', 'method', false],
+    ]);
+  });
+
+  it('offers the types it uses to its own module and counts the superclass as a value use', () => {
+    const result = extract(source);
+    const own = result.importBindings.find(b => b.specifier === '.')!;
+
+    expect(result.imports).toEqual(['Foundation', '.']);
+    expect(Object.fromEntries(own.symbols.map(s => [s.name, [s.references, s.typeReferences]]))).toMatchObject({
+      BaseStore: [1, 0],
+      Codable: [1, 1],
+    });
+  });
+});
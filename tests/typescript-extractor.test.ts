@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { TypeScriptExtractor } from '../src/analyzer/typescript-extractor.js';
+
+const extract = (content: string, file = 'src/module.ts') => new TypeScriptExtractor().extract(content, file);
+
+describe('TypeScriptExtractor structure', () => {
+  it('collects import specifiers, exports and type-only exports', () => {
+    const result = extract([
+      `import def, { a } from './dep';`,
+      `import * as ns from './ns';`,
+      `export { x } from './re';`,
+      `export type { Y } from './types';`,
+      `export interface Props { id: string }`,
+      `export type Id = string;`,
+      `export function load() { return ns.run(a, def); }`,
+      `export default class Store {}`,
+    ].join('\n'));
+
+    expect(result.imports).toEqual(['./dep', './ns', './re', './types']);
+    expect(result.exports).toEqual(['x', 'Y', 'Props', 'Id', 'load', 'default']);
+    expect(result.typeExports).toEqual(['Y', 'Props', 'Id']);
+  });
+
+  it('records top-level functions, arrow functions and overloads, but not nested functions', () => {
+    const { functions } = extract([
+      `export async function load(id: string, retries = 3) {`,
+      `  const inner = () => id;`,
+      `  return inner();`,
+      `}`,
+      `export const handler = async (req: unknown) => req;`,
+      `function format(value: string): string;`,
+      `function format(value: number): string;`,
+      `function format(value: unknown) { return String(value); }`,
+    ].join('\n'));
+
+    expect(functions.map(({ name, params, async, lines, overloads }) => ({ name, params, async, lines, overloads }))).toEqual([
+      { name: 'load', params: ['id', 'retries'], async: true, lines: 4, overloads: undefined },
+      { name: 'handler', params: ['req'], async: true, lines: 1, overloads: undefined },
+      { name: 'format', params: ['value'], async: false, lines: 1, overloads: 2 },
+    ]);
+  });
+
+  it('records classes with their heritage and members', () => {
+    const { classes } = extract([
+      `export default class Store extends Base implements Props, Disposable {`,
+      `  constructor(private readonly db: Db) { super(); }`,
+      `  get size() { return 1; }`,
+      `  async save(item: Item) {`,
+      `    return this.db.put(item);`,
+      `  }`,
+      `}`,
+    ].join('\n'));
+
+    expect(classes).toHaveLength(1);
+    expect(classes[0]).toMatchObject({ name: 'Store', extends: 'Base', implements: ['Props', 'Disposable'] });
+    expect(classes[0].methods.map(({ name, kind, async, lines }) => ({ name, kind, async, lines }))).toEqual([
+      { name: 'constructor', kind: 'constructor', async: false, lines: 1 },
+      { name: 'size', kind: 'getter', async: false, lines: 1 },
+      { name: 'save', kind: 'method', async: true, lines: 3 },
+    ]);
+  });
+
+  it('parses JSX in .tsx and .jsx files', () => {
+    const result = extract(`import { Button } from './Button';\nexport const App = () => <Button label="hi" />;\n`, 'src/App.tsx');
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.functions.map(fn => fn.name)).toEqual(['App']);
+  });
+});
+
+describe('TypeScriptExtractor symbol usage', () => {
+  const usage = (content: string) => extract(content).importBindings.map(binding => ({
+    specifier: binding.specifier,
+    symbols: binding.symbols.map(({ name, localName, references }) => ({ name, localName, references })),
+  }));
+
+  it('counts references of each imported binding under its local name', () => {
+    expect(usage([
+      `import def, { a, b as c } from './dep';`,
+      `export const x = a() + a() + c;`,
+      `export const y = def;`,
+    ].join('\n'))).toEqual([{
+      specifier: './dep',
+      symbols: [
+        { name: 'default', localName: 'def', references: 1 },
+        { name: 'a', localName: 'a', references: 2 },
+        { name: 'b', localName: 'c', references: 1 },
+      ],
+    }]);
+  });
+
+  it('splits a namespace import into the members it uses', () => {
+    expect(usage(`import * as api from './api';\napi.get(); api.get(); api.post();\n`)).toEqual([{
+      specifier: './api',
+      symbols: [
+        { name: 'get', localName: 'api.get', references: 2 },
+        { name: 'post', localName: 'api.post', references: 1 },
+      ],
+    }]);
+  });
+
+  it('counts each re-exported name as one use', () => {
+    expect(usage(`export { a, b as c } from './dep';\n`)).toEqual([{
+      specifier: './dep',
+      symbols: [
+        { name: 'a', localName: '', references: 1 },
+        { name: 'b', localName: '', references: 1 },
+      ],
+    }]);
+  });
+});